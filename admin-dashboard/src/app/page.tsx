@@ -1,77 +1,135 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, BarChart, Bar, PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
-import { Calendar, Users, AlertTriangle, TrendingUp, Download, Filter, RefreshCcw } from 'lucide-react';
+import { Calendar, Users, AlertTriangle, TrendingUp, Download, Filter, RefreshCcw, LogOut } from 'lucide-react';
 import toast from 'react-hot-toast';
+import {
+  AttendanceTrendPoint,
+  FlagDistributionEntry,
+  FlaggedStudent,
+  SessionSummary,
+  fetchAttendanceTrend,
+  fetchFlagDistribution,
+  fetchFlaggedStudents,
+  fetchSessionSummaries,
+} from '../lib/api';
+import { AuthTokens, currentAccessToken, handleSignedOut, restoreSession, signOut } from '../lib/auth';
+import { AttendanceSocket, connectSocket, watchSession } from '../lib/socket';
+import LoginForm from '../components/LoginForm';
 
-// Mock data - In real app, this would come from Firebase/API
-const attendanceData = [
-  { date: '2024-01-15', present: 85, absent: 15, flagged: 3 },
-  { date: '2024-01-16', present: 88, absent: 12, flagged: 2 },
-  { date: '2024-01-17', present: 82, absent: 18, flagged: 5 },
-  { date: '2024-01-18', present: 90, absent: 10, flagged: 1 },
-  { date: '2024-01-19', present: 87, absent: 13, flagged: 4 },
-];
+const COLORS = ['#EF4444', '#F59E0B', '#8B5CF6', '#3B82F6', '#10B981', '#EC4899', '#6B7280'];
 
-const sessionData = [
-  {
-    id: '1',
-    className: 'Computer Science 101',
-    instructor: 'Dr. Smith',
-    date: '2024-01-19',
-    time: '09:00 AM',
-    studentsPresent: 24,
-    totalStudents: 28,
-    flaggedCount: 2,
-    status: 'completed'
-  },
-  {
-    id: '2',
-    className: 'Data Structures',
-    instructor: 'Prof. Johnson',
-    date: '2024-01-19',
-    time: '11:00 AM',
-    studentsPresent: 32,
-    totalStudents: 35,
-    flaggedCount: 1,
-    status: 'active'
-  },
-];
+// Live updates arrive in bursts while a class checks in, so reloads wait for a lull
+const LIVE_RELOAD_DELAY_MS = 2000;
 
-const flaggedStudents = [
-  {
-    id: '1',
-    name: 'John Doe',
-    studentId: 'CS2021001',
-    session: 'Computer Science 101',
-    flagReason: 'Weak Signal',
-    rssi: -85,
-    timestamp: '2024-01-19 09:15 AM'
-  },
-  {
-    id: '2',
-    name: 'Jane Smith',
-    studentId: 'CS2021002',
-    session: 'Data Structures',
-    flagReason: 'Suspicious Location',
-    rssi: -65,
-    timestamp: '2024-01-19 11:20 AM'
-  },
-];
-
-const COLORS = ['#10B981', '#EF4444', '#F59E0B'];
+const DATE_RANGE_DAYS: Record<string, number> = {
+  '7days': 7,
+  '30days': 30,
+  '3months': 90,
+};
 
 export default function AdminDashboard() {
+  const [auth, setAuth] = useState<AuthTokens | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [selectedTab, setSelectedTab] = useState('overview');
   const [isLoading, setIsLoading] = useState(false);
   const [dateRange, setDateRange] = useState('7days');
+  const [attendanceData, setAttendanceData] = useState<AttendanceTrendPoint[]>([]);
+  const [sessionData, setSessionData] = useState<SessionSummary[]>([]);
+  const [flaggedStudents, setFlaggedStudents] = useState<FlaggedStudent[]>([]);
+  const [flagDistribution, setFlagDistribution] = useState<FlagDistributionEntry[]>([]);
+  const socketRef = useRef<AttendanceSocket | null>(null);
+  const loadDataRef = useRef<() => Promise<void>>(async () => undefined);
+
+  const loadData = async () => {
+    const days = DATE_RANGE_DAYS[dateRange];
+    const [trend, sessions, flagged, flags] = await Promise.all([
+      fetchAttendanceTrend(days),
+      fetchSessionSummaries(days),
+      fetchFlaggedStudents(),
+      fetchFlagDistribution(days),
+    ]);
+    setAttendanceData(trend);
+    setSessionData(sessions);
+    setFlaggedStudents(flagged);
+    setFlagDistribution(flags);
+  };
+  loadDataRef.current = loadData;
+
+  useEffect(() => {
+    setAuth(restoreSession());
+    setAuthChecked(true);
+    handleSignedOut(() => {
+      setAuth(null);
+      toast.error('Your session has expired, please sign in again');
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!auth) {
+      return;
+    }
+    loadData().catch(() => toast.error('Failed to load dashboard data'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dateRange, auth]);
+
+  // One socket per sign-in; check-ins in watched sessions reload the figures
+  useEffect(() => {
+    if (!auth) {
+      return;
+    }
+    const socket = connectSocket(currentAccessToken);
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleReload = () => {
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        loadDataRef.current().catch(() => toast.error('Failed to load dashboard data'));
+      }, LIVE_RELOAD_DELAY_MS);
+    };
+    socket.on('attendance:marked', scheduleReload);
+    socket.on('record:flagged', scheduleReload);
+    socket.on('session:status_changed', scheduleReload);
+    socketRef.current = socket;
+
+    return () => {
+      clearTimeout(reloadTimer);
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, [auth]);
+
+  // Rooms are left on disconnect, so (re)joining every active session is enough
+  const activeSessionIds = sessionData.filter((session) => session.status === 'active').map((session) => session.id);
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket) {
+      return;
+    }
+    const joinAll = () => {
+      activeSessionIds.forEach((sessionId) => {
+        watchSession(socket, sessionId).catch(() => undefined);
+      });
+    };
+    if (socket.connected) {
+      joinAll();
+    }
+    socket.on('connect', joinAll);
+    return () => {
+      socket.off('connect', joinAll);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [auth, activeSessionIds.join(',')]);
+
+  const logout = async () => {
+    await signOut();
+    setAuth(null);
+  };
 
   const refreshData = async () => {
     setIsLoading(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await loadData();
       toast.success('Data refreshed successfully');
     } catch (error) {
       toast.error('Failed to refresh data');
@@ -176,29 +234,33 @@ export default function AdminDashboard() {
 
         {/* Attendance Distribution */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Attendance Distribution</h3>
-          <ResponsiveContainer width="100%" height={300}>
-            <PieChart>
-              <Pie
-                data={[
-                  { name: 'Present', value: 87.5, color: '#10B981' },
-                  { name: 'Absent', value: 12.5, color: '#EF4444' },
-                ]}
-                cx="50%"
-                cy="50%"
-                labelLine={false}
-                label={({ name, percent }) => `${name} ${(percent * 100).toFixed(1)}%`}
-                outerRadius={80}
-                fill="#8884d8"
-                dataKey="value"
-              >
-                {[{ name: 'Present', value: 87.5 }, { name: 'Absent', value: 12.5 }].map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                ))}
-              </Pie>
-              <Tooltip />
-            </PieChart>
-          </ResponsiveContainer>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Flag Distribution</h3>
+          {flagDistribution.length === 0 ? (
+            <div className="h-[300px] flex items-center justify-center text-sm text-gray-500">
+              No flagged check-ins in this period
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <PieChart>
+                <Pie
+                  data={flagDistribution}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={({ label, percent }) => `${label} ${(percent * 100).toFixed(1)}%`}
+                  outerRadius={80}
+                  fill="#8884d8"
+                  dataKey="count"
+                  nameKey="label"
+                >
+                  {flagDistribution.map((entry, index) => (
+                    <Cell key={entry.flag} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip />
+              </PieChart>
+            </ResponsiveContainer>
+          )}
         </div>
       </div>
 
@@ -332,7 +394,7 @@ export default function AdminDashboard() {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {student.rssi} dBm
+                    {student.rssi !== null ? `${student.rssi} dBm` : '—'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {student.timestamp}
@@ -350,6 +412,14 @@ export default function AdminDashboard() {
     </div>
   );
 
+  if (!authChecked) {
+    return null;
+  }
+
+  if (!auth) {
+    return <LoginForm onSignedIn={setAuth} />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -385,6 +455,13 @@ export default function AdminDashboard() {
                   CSV
                 </button>
               </div>
+              <button
+                onClick={logout}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign out
+              </button>
             </div>
           </div>
         </div>
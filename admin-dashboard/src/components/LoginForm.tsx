@@ -0,0 +1,83 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { LogIn } from 'lucide-react';
+import axios from 'axios';
+import { AuthTokens, signIn } from '../lib/auth';
+
+interface LoginFormProps {
+  onSignedIn: (tokens: AuthTokens) => void;
+}
+
+// API errors carry { success: false, error: { message } } (backend/src/middleware/errorMiddleware.ts)
+const errorMessage = (error: unknown) => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error?.message || 'Unable to reach the server';
+  }
+  return error instanceof Error ? error.message : 'Sign-in failed';
+};
+
+export default function LoginForm({ onSignedIn }: LoginFormProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onSignedIn(await signIn(email, password));
+    } catch (signInError) {
+      setError(errorMessage(signInError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <form
+        onSubmit={submit}
+        className="w-full max-w-sm bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4"
+      >
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Attendance System Admin</h1>
+          <p className="text-sm text-gray-500">Sign in with your instructor or admin account</p>
+        </div>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Email</span>
+          <input
+            type="email"
+            required
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Password</span>
+          <input
+            type="password"
+            required
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </label>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <LogIn className="w-4 h-4 mr-2" />
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
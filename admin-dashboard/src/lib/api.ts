@@ -0,0 +1,86 @@
+import axios from 'axios';
+
+// Response shapes of the backend analytics API (backend/src/types/analytics.ts)
+export interface AttendanceTrendPoint {
+  date: string;
+  present: number;
+  absent: number;
+  flagged: number;
+}
+
+export interface FlagDistributionEntry {
+  flag: string;
+  label: string;
+  count: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  className: string;
+  instructor: string;
+  date: string;
+  time: string;
+  studentsPresent: number;
+  totalStudents: number;
+  flaggedCount: number;
+  status: string;
+}
+
+// Risk breakdown of an analysis (backend/src/types/risk.ts)
+export interface RiskFactor {
+  flag: string;
+  label: string;
+  fired: boolean;
+  weight: number;
+  contribution: number;
+  reason: string;
+  evidence: Record<string, unknown>;
+}
+
+export interface RiskBreakdown {
+  score: number;
+  policyVersion: number;
+  factors: RiskFactor[];
+}
+
+export interface FlaggedStudent {
+  id: string;
+  name: string;
+  studentId: string;
+  session: string;
+  flagReason: string;
+  rssi: number | null;
+  riskScore: number | null;
+  breakdown: RiskBreakdown | null;
+  timestamp: string;
+}
+
+export const api = axios.create({
+  baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api',
+});
+
+// Access token from POST /auth/login; the analytics endpoints require an instructor or admin
+export const setAccessToken = (token: string | null) => {
+  if (token) {
+    api.defaults.headers.common.Authorization = `Bearer ${token}`;
+  } else {
+    delete api.defaults.headers.common.Authorization;
+  }
+};
+
+const getData = async <T>(url: string, params?: Record<string, unknown>): Promise<T> => {
+  const response = await api.get<{ success: boolean; data: T }>(url, { params });
+  return response.data.data;
+};
+
+export const fetchAttendanceTrend = (days: number) =>
+  getData<AttendanceTrendPoint[]>('/analytics/trends', { days });
+
+export const fetchFlagDistribution = (days: number) =>
+  getData<FlagDistributionEntry[]>('/analytics/flags', { days });
+
+export const fetchSessionSummaries = (days: number) =>
+  getData<SessionSummary[]>('/analytics/sessions', { days });
+
+export const fetchFlaggedStudents = () =>
+  getData<FlaggedStudent[]>('/analytics/flagged');
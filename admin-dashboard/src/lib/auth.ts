@@ -0,0 +1,140 @@
+import axios from 'axios';
+import { api, setAccessToken } from './api';
+
+// POST /auth/login response (backend/src/types/auth.ts)
+export interface AuthUser {
+  id: string;
+  role: 'student' | 'instructor' | 'admin';
+  institutionId: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: AuthUser;
+}
+
+export type AuthProvider = 'firebase' | 'local';
+
+// Kept for the tab's lifetime so a reload does not sign the user out
+const STORAGE_KEY = 'attendance-admin.auth';
+
+const saved = (): AuthTokens | null => {
+  const json = typeof window === 'undefined' ? null : sessionStorage.getItem(STORAGE_KEY);
+  return json ? (JSON.parse(json) as AuthTokens) : null;
+};
+
+const store = (tokens: AuthTokens | null) => {
+  if (tokens) {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+  setAccessToken(tokens?.accessToken ?? null);
+};
+
+const postData = async <T>(url: string, body: Record<string, unknown>): Promise<T> => {
+  const response = await api.post<{ success: boolean; data: T }>(url, body);
+  return response.data.data;
+};
+
+export const fetchAuthProvider = async () =>
+  (await api.get<{ success: boolean; data: { provider: AuthProvider } }>('/auth/provider')).data.data.provider;
+
+// Firebase is only loaded when the backend verifies Firebase ID tokens
+const firebaseIdToken = async (email: string, password: string) => {
+  const { getApps, initializeApp } = await import('firebase/app');
+  const { getAuth, signInWithEmailAndPassword } = await import('firebase/auth');
+  const app = getApps()[0] ?? initializeApp({
+    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+  });
+  const credential = await signInWithEmailAndPassword(getAuth(app), email, password);
+  return credential.user.getIdToken();
+};
+
+// Students have no use for the dashboard, and the analytics API refuses them
+export const signIn = async (email: string, password: string): Promise<AuthTokens> => {
+  const provider = await fetchAuthProvider();
+  const tokens = provider === 'firebase'
+    ? await postData<AuthTokens>('/auth/login', { idToken: await firebaseIdToken(email, password) })
+    : await postData<AuthTokens>('/auth/login', { email, password });
+  if (tokens.user.role === 'student') {
+    await postData('/auth/logout', { refreshToken: tokens.refreshToken }).catch(() => undefined);
+    throw new Error('The dashboard is for instructors and admins');
+  }
+  store(tokens);
+  return tokens;
+};
+
+export const signOut = async () => {
+  const tokens = saved();
+  store(null);
+  if (tokens) {
+    await postData('/auth/logout', { refreshToken: tokens.refreshToken }).catch(() => undefined);
+  }
+};
+
+// Tokens saved by an earlier sign-in in this tab, applied to the API client
+export const restoreSession = (): AuthTokens | null => {
+  const tokens = saved();
+  setAccessToken(tokens?.accessToken ?? null);
+  return tokens;
+};
+
+export const currentAccessToken = () => saved()?.accessToken ?? null;
+
+// Refresh tokens are single use, so requests that fail together share one refresh
+let refreshing: Promise<AuthTokens | null> | null = null;
+
+const refreshSession = () => {
+  refreshing ??= (async () => {
+    const tokens = saved();
+    if (!tokens) {
+      return null;
+    }
+    try {
+      const refreshed = await postData<AuthTokens>('/auth/refresh', { refreshToken: tokens.refreshToken });
+      store(refreshed);
+      return refreshed;
+    } catch {
+      store(null);
+      return null;
+    }
+  })().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+};
+
+let onSignedOut: () => void = () => undefined;
+
+// Called when the session can no longer be refreshed and the user has to sign in again
+export const handleSignedOut = (callback: () => void) => {
+  onSignedOut = callback;
+};
+
+const retried = new WeakSet<object>();
+
+// Access tokens last 15 minutes: on a 401, refresh once and retry the request
+api.interceptors.response.use(undefined, async (error) => {
+  if (!axios.isAxiosError(error) || error.response?.status !== 401 || !error.config) {
+    throw error;
+  }
+  const config = error.config;
+  if (config.url?.startsWith('/auth/') || retried.has(config)) {
+    throw error;
+  }
+
+  const tokens = await refreshSession();
+  if (!tokens) {
+    onSignedOut();
+    throw error;
+  }
+  retried.add(config);
+  config.headers.Authorization = `Bearer ${tokens.accessToken}`;
+  return api.request(config);
+});
@@ -0,0 +1,23 @@
+import { io, Socket } from 'socket.io-client';
+import { ClientToServerEvents, JoinSessionResult, ServerToClientEvents } from './socketEvents';
+
+export type AttendanceSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// The backend serves Socket.IO on the same origin as the REST API
+const SOCKET_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api').replace(/\/api\/?$/, '');
+
+// The token is read on every (re)connect, so a reconnect after a refresh uses the new one
+export const connectSocket = (getAccessToken: () => string | null): AttendanceSocket =>
+  io(SOCKET_URL, { auth: (callback) => callback({ token: getAccessToken() }) });
+
+// Join a session room; resolves once the server has checked we may watch it
+export const watchSession = (socket: AttendanceSocket, sessionId: string) =>
+  new Promise<void>((resolve, reject) => {
+    socket.emit('session:join', sessionId, (result: JoinSessionResult) => {
+      if (result.ok) {
+        resolve();
+      } else {
+        reject(new Error(result.error || 'Unable to watch session'));
+      }
+    });
+  });
@@ -0,0 +1,77 @@
+// Socket.IO event contract, copied from backend/src/websocket/events.ts.
+// Change both together.
+
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'flagged' | 'pending';
+export type SessionStatus = 'created' | 'active' | 'completed' | 'cancelled';
+
+export interface ChallengeIssuedEvent {
+  sessionId: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface StudentDiscoveredEvent {
+  sessionId: string;
+  studentId: string;
+  deviceId: string;
+  bleUuid: string;
+  rssi: number;
+  discoveredAt: string;
+  reportedBy: string;
+}
+
+export interface ResponseReceivedEvent {
+  sessionId: string;
+  studentId: string;
+  isValid: boolean;
+  errorReason?: string;
+  receivedAt: string;
+}
+
+export interface AttendanceMarkedEvent {
+  sessionId: string;
+  studentId: string;
+  status: AttendanceStatus;
+  manualOverride: boolean;
+  timestamp: string;
+}
+
+export interface RecordFlaggedEvent {
+  sessionId: string;
+  studentId: string;
+  suspiciousFlags: string[];
+  riskScore: number;
+  timestamp: string;
+}
+
+export interface SessionStatusChangedEvent {
+  sessionId: string;
+  previousStatus: SessionStatus;
+  status: SessionStatus;
+  changedAt: string;
+}
+
+export interface ServerToClientEvents {
+  'challenge:issued': (event: ChallengeIssuedEvent) => void;
+  'student:discovered': (event: StudentDiscoveredEvent) => void;
+  'response:received': (event: ResponseReceivedEvent) => void;
+  'attendance:marked': (event: AttendanceMarkedEvent) => void;
+  'record:flagged': (event: RecordFlaggedEvent) => void;
+  'session:status_changed': (event: SessionStatusChangedEvent) => void;
+}
+
+export interface JoinSessionResult {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * What the instructor app reports for each student it picks up on its BLE scan
+ */
+export type StudentDiscoveredInput = Omit<StudentDiscoveredEvent, 'reportedBy'>;
+
+export interface ClientToServerEvents {
+  'session:join': (sessionId: string, ack?: (result: JoinSessionResult) => void) => void;
+  'session:leave': (sessionId: string) => void;
+  'student:discovered': (input: StudentDiscoveredInput) => void;
+}
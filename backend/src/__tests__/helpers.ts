@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../app';
+import { getRepositories } from '../storage';
+import {
+  AttendanceSession,
+  ChallengeData,
+  ChallengeResponse,
+  GeofenceData,
+  SignedChallengePayload,
+  User,
+  UserRole
+} from '../types/attendance';
+
+export const INSTITUTION_ID = 'test-institution';
+
+export const GEOFENCE: GeofenceData = {
+  latitude: 52.2053,
+  longitude: 0.1218,
+  radiusMeters: 50,
+  buildingName: 'Main',
+  roomNumber: '101'
+};
+
+export interface TestUser {
+  user: User;
+  token: string;
+}
+
+export interface TestDevice {
+  deviceId: string;
+  secret: string;
+}
+
+export function testApp(): Express {
+  return createApp({ rateLimits: false });
+}
+
+/**
+ * Save a user straight to storage and sign an access token for them, as
+ * AuthService would after login
+ */
+export async function createUser(role: UserRole, overrides: Partial<User> = {}): Promise<TestUser> {
+  const id = overrides.id || `${role}-${crypto.randomUUID()}`;
+  const user: User = {
+    id,
+    email: `${id}@example.edu`,
+    name: `Test ${role}`,
+    role,
+    institutionId: INSTITUTION_ID,
+    isActive: true,
+    createdAt: new Date().toISOString(),
+    ...overrides
+  };
+  await getRepositories().users.save(user);
+
+  const token = jwt.sign(
+    { role: user.role, institutionId: user.institutionId },
+    process.env.JWT_SECRET as string,
+    { subject: user.id, issuer: 'attendance-backend', expiresIn: 15 * 60 }
+  );
+  return { user, token };
+}
+
+export async function createActiveSession(
+  app: Express,
+  instructor: TestUser,
+  fields: Record<string, unknown> = {}
+): Promise<AttendanceSession> {
+  const now = Date.now();
+  const created = await request(app)
+    .post('/api/sessions')
+    .set('Authorization', `Bearer ${instructor.token}`)
+    .send({
+      classId: 'CS101',
+      className: 'Algorithms',
+      subject: 'Computer Science',
+      startTime: new Date(now - 10 * 60 * 1000).toISOString(),
+      endTime: new Date(now + 50 * 60 * 1000).toISOString(),
+      geofence: GEOFENCE,
+      timeWindowMinutes: 15,
+      ...fields
+    })
+    .expect(201);
+
+  const activated = await request(app)
+    .post(`/api/sessions/${created.body.data.id}/activate`)
+    .set('Authorization', `Bearer ${instructor.token}`)
+    .expect(200);
+  return activated.body.data;
+}
+
+export async function registerDevice(app: Express, student: TestUser, deviceId = `phone-${student.user.id}`): Promise<TestDevice> {
+  const registered = await request(app)
+    .post('/api/devices/register')
+    .set('Authorization', `Bearer ${student.token}`)
+    .send({ deviceId, platform: 'android', manufacturer: 'Google', model: 'Pixel 8' })
+    .expect(201);
+  return { deviceId, secret: registered.body.data.secret };
+}
+
+export async function issueChallenge(app: Express, instructor: TestUser, session: AttendanceSession): Promise<ChallengeData> {
+  const issued = await request(app)
+    .post('/api/challenges')
+    .set('Authorization', `Bearer ${instructor.token}`)
+    .send({ sessionId: session.id })
+    .expect(201);
+  return issued.body.data;
+}
+
+/**
+ * A response signed the way the app signs it, from a seat in the middle of the room
+ */
+export function signResponse(
+  challenge: ChallengeData,
+  student: TestUser,
+  device: TestDevice,
+  fields: Partial<ChallengeResponse> = {}
+): ChallengeResponse {
+  const payload: SignedChallengePayload = {
+    challengeCode: challenge.challengeCode,
+    nonce: challenge.nonce,
+    studentId: student.user.id,
+    deviceId: device.deviceId,
+    sessionId: challenge.sessionId,
+    timestamp: Date.now(),
+    additionalData: {}
+  };
+  const signedPayload = JSON.stringify(payload);
+  const signature = crypto.createHmac('sha256', device.secret).update(signedPayload, 'utf8').digest('hex');
+  const envelope = JSON.stringify({ payload: signedPayload, signature });
+
+  return {
+    sessionId: challenge.sessionId,
+    studentId: student.user.id,
+    challengeCode: challenge.challengeCode,
+    signedResponse: Buffer.from(envelope, 'utf8').toString('base64url'),
+    respondedAt: new Date(payload.timestamp).toISOString(),
+    rssi: -62,
+    location: {
+      latitude: GEOFENCE.latitude,
+      longitude: GEOFENCE.longitude,
+      accuracy: 8,
+      timestamp: payload.timestamp
+    },
+    deviceContext: {
+      deviceId: device.deviceId,
+      platform: 'android',
+      manufacturer: 'Google',
+      model: 'Pixel 8'
+    },
+    ...fields
+  };
+}
+
+export function respond(app: Express, student: TestUser, response: ChallengeResponse) {
+  return request(app)
+    .post('/api/challenges/respond')
+    .set('Authorization', `Bearer ${student.token}`)
+    .send(response);
+}
@@ -0,0 +1,5 @@
+// Every suite runs on process-local storage, so no Firebase or Redis is needed
+process.env.STORAGE_BACKEND = 'memory';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+process.env.DEVICE_KEY_ENCRYPTION_KEY = 'test-device-key-encryption-key';
@@ -0,0 +1,97 @@
+import express, { Express } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import compression from 'compression';
+import morgan from 'morgan';
+import rateLimit from 'express-rate-limit';
+
+import { errorHandler, notFound } from './middleware/errorMiddleware';
+import { getRateLimits } from './config/rateLimits';
+import { logger } from './utils/logger';
+import authRoutes from './routes/authRoutes';
+import challengeRoutes from './routes/challengeRoutes';
+import sessionRoutes from './routes/sessionRoutes';
+import attendanceRoutes from './routes/attendanceRoutes';
+import analyticsRoutes from './routes/analyticsRoutes';
+import deviceRoutes from './routes/deviceRoutes';
+import policyRoutes from './routes/policyRoutes';
+import calibrationRoutes from './routes/calibrationRoutes';
+
+export interface AppOptions {
+  /** Off for tests, which send every request from the same address */
+  rateLimits?: boolean;
+}
+
+/**
+ * The HTTP API: middleware, routes and error handling. Storage and the
+ * websocket server are brought up separately by server.ts.
+ */
+export function createApp({ rateLimits = true }: AppOptions = {}): Express {
+  const app = express();
+
+  app.use(helmet({
+    contentSecurityPolicy: {
+      directives: {
+        defaultSrc: ["'self'"],
+        styleSrc: ["'self'", "'unsafe-inline'"],
+        scriptSrc: ["'self'"],
+        imgSrc: ["'self'", "data:", "https:"],
+      },
+    },
+  }));
+
+  app.use(cors({
+    origin: process.env.CLIENT_URL || "http://localhost:3000",
+    credentials: true
+  }));
+
+  app.use(compression());
+  app.use(morgan('combined', { stream: { write: message => logger.info(message.trim()) } }));
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+  // Rate limiting
+  const limits = getRateLimits();
+  const limiter = rateLimit({
+    windowMs: limits.windowMs,
+    max: limits.maxRequests, // Per IP per windowMs
+    message: 'Too many requests from this IP, please try again later.',
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+  if (rateLimits) {
+    app.use(limiter);
+  }
+
+  // Challenge endpoint with stricter rate limiting
+  const challengeLimiter = rateLimit({
+    windowMs: 1 * 60 * 1000, // 1 minute
+    max: limits.challengeMax,
+    message: 'Too many challenge requests, please try again later.',
+  });
+
+  // Health check
+  app.get('/health', (req, res) => {
+    res.status(200).json({
+      status: 'OK',
+      timestamp: new Date().toISOString(),
+      version: process.env.npm_package_version || '1.0.0'
+    });
+  });
+
+  // API Routes
+  app.use('/api/auth', authRoutes);
+  app.use('/api/challenges', rateLimits ? [challengeLimiter] : [], challengeRoutes);
+  app.use('/api/sessions', sessionRoutes);
+  app.use('/api/attendance', attendanceRoutes);
+  app.use('/api/analytics', analyticsRoutes);
+  app.use('/api/devices', deviceRoutes);
+  app.use('/api/policies', policyRoutes);
+  app.use('/api/calibration', calibrationRoutes);
+
+  // Error handling middleware (must be last)
+  app.use(notFound);
+  app.use(errorHandler);
+
+  return app;
+}
@@ -0,0 +1,18 @@
+import { firebaseConfigured } from './firebase';
+
+export type AuthProvider = 'firebase' | 'local';
+
+const AUTH_PROVIDERS: AuthProvider[] = ['firebase', 'local'];
+
+/**
+ * How POST /api/auth/login checks credentials, from AUTH_PROVIDER: Firebase ID
+ * tokens, or email and password against the user's stored hash. Defaults to
+ * Firebase when it is configured and to local passwords otherwise.
+ */
+export function getAuthProvider(): AuthProvider {
+  const provider = (process.env.AUTH_PROVIDER || (firebaseConfigured() ? 'firebase' : 'local')).toLowerCase() as AuthProvider;
+  if (!AUTH_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown AUTH_PROVIDER "${provider}", expected one of ${AUTH_PROVIDERS.join(', ')}`);
+  }
+  return provider;
+}
@@ -0,0 +1,45 @@
+import { initializeApp, cert, getApps } from 'firebase-admin/app';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
+import { logger } from '../utils/logger';
+
+let firestore: Firestore | null = null;
+
+/**
+ * Initialize the Firebase Admin SDK from the service account environment variables
+ */
+export async function initializeFirebase(): Promise<void> {
+  if (getApps().length > 0) {
+    return;
+  }
+
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+  if (!projectId || !clientEmail || !privateKey) {
+    throw new Error('Firebase service account environment variables are not configured');
+  }
+
+  initializeApp({
+    credential: cert({ projectId, clientEmail, privateKey })
+  });
+
+  firestore = getFirestore();
+  logger.debug(`Firebase Admin connected to project ${projectId}`);
+}
+
+/**
+ * Whether the Firebase service account environment variables are set
+ */
+export function firebaseConfigured(): boolean {
+  return Boolean(
+    process.env.FIREBASE_PROJECT_ID && process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY
+  );
+}
+
+export function getDb(): Firestore {
+  if (!firestore) {
+    throw new Error('Firebase has not been initialized');
+  }
+  return firestore;
+}
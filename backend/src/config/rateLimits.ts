@@ -0,0 +1,38 @@
+export interface RateLimits {
+  /** Window of the per-IP limit on every request */
+  windowMs: number;
+  maxRequests: number;
+  /** Challenge requests per IP per minute */
+  challengeMax: number;
+}
+
+const DEFAULT_RATE_LIMITS: RateLimits = {
+  windowMs: 15 * 60 * 1000,
+  maxRequests: 100,
+  challengeMax: 10
+};
+
+function positiveInteger(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive whole number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Per-IP request limits, from RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX_REQUESTS and
+ * CHALLENGE_RATE_LIMIT_MAX. Load tests such as the classroom simulator send a
+ * whole class from one address and need them raised.
+ */
+export function getRateLimits(): RateLimits {
+  return {
+    windowMs: positiveInteger('RATE_LIMIT_WINDOW_MS', DEFAULT_RATE_LIMITS.windowMs),
+    maxRequests: positiveInteger('RATE_LIMIT_MAX_REQUESTS', DEFAULT_RATE_LIMITS.maxRequests),
+    challengeMax: positiveInteger('CHALLENGE_RATE_LIMIT_MAX', DEFAULT_RATE_LIMITS.challengeMax)
+  };
+}
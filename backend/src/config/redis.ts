@@ -0,0 +1,21 @@
+import { createClient } from 'redis';
+import { logger } from '../utils/logger';
+
+export const redisClient = createClient({
+  url: process.env.REDIS_URL || 'redis://localhost:6379',
+  password: process.env.REDIS_PASSWORD || undefined,
+  database: parseInt(process.env.REDIS_DB || '0', 10)
+});
+
+redisClient.on('error', (error) => {
+  logger.error('Redis client error:', error);
+});
+
+/**
+ * Connect the shared Redis client
+ */
+export async function initializeRedis(): Promise<void> {
+  if (!redisClient.isOpen) {
+    await redisClient.connect();
+  }
+}
@@ -0,0 +1,48 @@
+import { logger } from '../utils/logger';
+import { firebaseConfigured, initializeFirebase } from './firebase';
+import { initializeRedis } from './redis';
+import { seedStorage } from '../storage/seed';
+
+export type StorageBackend = 'memory' | 'redis' | 'firestore';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['memory', 'redis', 'firestore'];
+
+/**
+ * Where sessions, records, devices and analysis history live, from STORAGE_BACKEND
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'firestore').toLowerCase() as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return backend;
+}
+
+/**
+ * Connect the services the storage backend needs, then load SEED_FILE if set.
+ * Firebase is also brought up when configured, for login, but is not required
+ * by the other backends.
+ */
+export async function initializeStorage(): Promise<StorageBackend> {
+  const backend = getStorageBackend();
+
+  if (backend === 'firestore' || firebaseConfigured()) {
+    await initializeFirebase();
+    logger.info('Firebase Admin initialized');
+  }
+
+  if (backend === 'redis') {
+    await initializeRedis();
+    logger.info('Redis initialized');
+  }
+
+  if (backend === 'memory') {
+    logger.warn('Using in-memory storage; all data is lost on restart');
+  }
+
+  if (process.env.SEED_FILE) {
+    await seedStorage(process.env.SEED_FILE);
+  }
+
+  return backend;
+}
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/authService';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { AttendanceSession, UserRole } from '../types/attendance';
+import { AuthUser } from '../types/auth';
+
+const authService = new AuthService();
+
+/**
+ * Require a valid Bearer access token and attach its identity to req.user
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return next(new UnauthorizedError());
+  }
+
+  try {
+    req.user = authService.verifyAccessToken(header.slice('Bearer '.length));
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Only let the given roles through. Must run after authenticate.
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError());
+    }
+    if (!roles.includes(req.user.role)) {
+      return next(new ForbiddenError(`Requires role: ${roles.join(' or ')}`));
+    }
+    next();
+  };
+};
+
+/**
+ * Narrow req.user after authenticate has run
+ */
+export const currentUser = (req: Request): AuthUser => {
+  if (!req.user) {
+    throw new UnauthorizedError();
+  }
+  return req.user;
+};
+
+/**
+ * Sessions are visible to everyone in the same institution
+ */
+export const assertSameInstitution = (user: AuthUser, session: AttendanceSession) => {
+  if (session.institutionId !== user.institutionId) {
+    throw new ForbiddenError('Session belongs to another institution');
+  }
+};
+
+/**
+ * Only the session's own instructor, or an admin of its institution, may run it
+ */
+export const assertCanManageSession = (user: AuthUser, session: AttendanceSession) => {
+  assertSameInstitution(user, session);
+  if (user.role === 'admin') {
+    return;
+  }
+  if (user.role !== 'instructor' || session.instructorId !== user.id) {
+    throw new ForbiddenError('Only the session instructor can do this');
+  }
+};
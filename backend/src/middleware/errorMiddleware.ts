@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const notFound = (req: Request, res: Response, next: NextFunction) => {
+  next(new NotFoundError(`Route not found: ${req.method} ${req.originalUrl}`));
+};
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const errorHandler = (error: Error, req: Request, res: Response, next: NextFunction) => {
+  if (error instanceof AppError) {
+    if (error.statusCode >= 500) {
+      logger.error(`${req.method} ${req.originalUrl} failed:`, error);
+    }
+
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details
+      }
+    });
+  }
+
+  logger.error(`Unhandled error on ${req.method} ${req.originalUrl}:`, error);
+
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: process.env.NODE_ENV === 'production' ? 'Internal server error' : error.message
+    }
+  });
+};
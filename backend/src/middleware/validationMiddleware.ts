@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Reject the request if any express-validator chain before it failed
+ */
+export const validateRequest = (req: Request, res: Response, next: NextFunction) => {
+  const result = validationResult(req);
+  if (!result.isEmpty()) {
+    return next(new ValidationError('Request validation failed', { errors: result.array() }));
+  }
+  next();
+};
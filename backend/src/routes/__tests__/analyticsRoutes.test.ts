@@ -0,0 +1,74 @@
+import moment from 'moment';
+import request from 'supertest';
+import { getRepositories } from '../../storage';
+import {
+  TestUser,
+  createActiveSession,
+  createUser,
+  issueChallenge,
+  registerDevice,
+  respond,
+  signResponse,
+  testApp
+} from '../../__tests__/helpers';
+
+describe('analytics routes', () => {
+  const app = testApp();
+
+  const get = (user: TestUser, path: string) =>
+    request(app)
+      .get(`/api/analytics${path}`)
+      .set('Authorization', `Bearer ${user.token}`);
+
+  it('counts the institution\'s check-ins and flags from stored records', async () => {
+    const instructor = await createUser('instructor');
+    const present = await createUser('student', { name: 'Ada Present' });
+    const flagged = await createUser('student', { name: 'Bo Flagged' });
+    const session = await createActiveSession(app, instructor, { metadata: { totalStudents: 3 } });
+
+    const device = await registerDevice(app, present);
+    await respond(app, present, signResponse(await issueChallenge(app, instructor, session), present, device)).expect(200);
+    await getRepositories().records.save({
+      studentId: flagged.user.id,
+      sessionId: session.id,
+      institutionId: session.institutionId,
+      status: 'flagged',
+      timestamp: new Date().toISOString(),
+      rssi: -60,
+      antiProxyData: {},
+      suspiciousFlags: ['outsideGeofence']
+    });
+
+    const trends = (await get(instructor, '/trends').expect(200)).body.data;
+    expect(trends).toEqual([
+      { date: moment(session.startTime).format('YYYY-MM-DD'), present: 1, absent: 1, flagged: 1 }
+    ]);
+
+    const flags = (await get(instructor, '/flags').expect(200)).body.data;
+    // The seated check-in may be flagged as answered too fast, since the test answers at once
+    expect(flags).toEqual(expect.arrayContaining([{ flag: 'outsideGeofence', label: 'Outside Geofence', count: 1 }]));
+
+    const sessions = (await get(instructor, '/sessions').expect(200)).body.data;
+    expect(sessions).toEqual([
+      expect.objectContaining({ id: session.id, studentsPresent: 1, totalStudents: 3, flaggedCount: 1, status: 'active' })
+    ]);
+
+    const students = (await get(instructor, '/flagged').expect(200)).body.data;
+    expect(students).toEqual([
+      expect.objectContaining({ name: 'Bo Flagged', session: session.className, flagReason: 'Outside Geofence' })
+    ]);
+  });
+
+  it('is for staff only', async () => {
+    const student = await createUser('student');
+
+    await get(student, '/trends').expect(403);
+    await request(app).get('/api/analytics/trends').expect(401);
+  });
+
+  it('rejects an out of range period', async () => {
+    const instructor = await createUser('instructor');
+
+    await get(instructor, '/trends?days=0').expect(400);
+  });
+});
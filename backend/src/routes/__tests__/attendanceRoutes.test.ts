@@ -0,0 +1,139 @@
+import request from 'supertest';
+import {
+  TestUser,
+  createActiveSession,
+  createUser,
+  issueChallenge,
+  registerDevice,
+  respond,
+  signResponse,
+  testApp
+} from '../../__tests__/helpers';
+
+describe('attendance routes', () => {
+  const app = testApp();
+
+  const getRecord = (user: TestUser, sessionId: string, studentId: string) =>
+    request(app)
+      .get(`/api/attendance/sessions/${sessionId}/students/${studentId}`)
+      .set('Authorization', `Bearer ${user.token}`);
+
+  it('keeps an accepted record when its response is replayed and logs the replay', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const response = signResponse(await issueChallenge(app, instructor, session), student, device);
+
+    await respond(app, student, response).expect(200);
+    const replay = await respond(app, student, response).expect(200);
+    expect(replay.body.data.status).toBe('present');
+
+    const record = (await getRecord(instructor, session.id, student.user.id).expect(200)).body.data;
+    expect(record.status).toBe('present');
+    expect(record.antiProxyData.verification.isValid).toBe(true);
+    expect(record.attempts).toHaveLength(1);
+    expect(record.attempts[0]).toMatchObject({
+      isValid: false,
+      errorReason: 'Nonce already used',
+      decision: { status: 'absent' }
+    });
+  });
+
+  it('lets a verified response replace a record from one that failed', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+
+    await respond(app, student, signResponse(challenge, student, { ...device, secret: 'stale' })).expect(200);
+    expect((await getRecord(instructor, session.id, student.user.id)).body.data.status).toBe('absent');
+
+    await respond(app, student, signResponse(challenge, student, device)).expect(200);
+    const record = (await getRecord(instructor, session.id, student.user.id)).body.data;
+    expect(record.status).toBe('present');
+    expect(record.attempts).toEqual([expect.objectContaining({
+      replaced: true,
+      isValid: false,
+      decision: expect.objectContaining({ status: 'absent' })
+    })]);
+  });
+
+  it('keeps a flagged record in the audit trail when a resubmission replaces it', async () => {
+    const institutionId = 'resubmission-institution';
+    const admin = await createUser('admin', { institutionId });
+    const instructor = await createUser('instructor', { institutionId });
+    const student = await createUser('student', { institutionId });
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const setAcceptBelow = (acceptBelow: number) =>
+      request(app)
+        .put('/api/policies')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ changes: { decision: { acceptBelow } } })
+        .expect(200);
+
+    // Nothing is accepted outright, so the first check-in goes to review
+    await setAcceptBelow(0);
+    await respond(app, student, signResponse(await issueChallenge(app, instructor, session), student, device))
+      .expect(200);
+    const flagged = (await getRecord(instructor, session.id, student.user.id)).body.data;
+    expect(flagged.status).toBe('flagged');
+
+    await setAcceptBelow(30);
+    await respond(app, student, signResponse(await issueChallenge(app, instructor, session), student, device))
+      .expect(200);
+    const record = (await getRecord(instructor, session.id, student.user.id)).body.data;
+    expect(record.status).toBe('present');
+    expect(record.attempts).toEqual([expect.objectContaining({
+      replaced: true,
+      isValid: true,
+      timestamp: flagged.timestamp,
+      decision: flagged.decision,
+      antiProxyData: flagged.antiProxyData
+    })]);
+  });
+
+  it('lets admins override a record and keeps the override against later responses', async () => {
+    const admin = await createUser('admin');
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+
+    await respond(app, student, signResponse(challenge, student, { ...device, secret: 'stale' })).expect(200);
+
+    const override = (path: string, user: TestUser) =>
+      request(app)
+        .post(path)
+        .set('Authorization', `Bearer ${user.token}`)
+        .send({ status: 'present', reason: 'Seen in class' });
+    const path = `/api/attendance/sessions/${session.id}/students/${student.user.id}/override`;
+
+    await override(path, instructor).expect(403);
+    const overridden = (await override(path, admin).expect(200)).body.data;
+    expect(overridden).toMatchObject({ status: 'present', manualOverride: true, originalStatus: 'absent' });
+
+    await respond(app, student, signResponse(challenge, student, device)).expect(200);
+    expect((await getRecord(admin, session.id, student.user.id)).body.data).toMatchObject({
+      status: 'present',
+      manualOverride: true
+    });
+  });
+
+  it('only lets students read their own records', async () => {
+    const student = await createUser('student');
+    const other = await createUser('student');
+
+    await request(app)
+      .get(`/api/attendance/students/${other.user.id}`)
+      .set('Authorization', `Bearer ${student.token}`)
+      .expect(403);
+    await request(app)
+      .get(`/api/attendance/students/${student.user.id}`)
+      .set('Authorization', `Bearer ${student.token}`)
+      .expect(200);
+  });
+});
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { seedStorage } from '../../storage/seed';
+import { INSTITUTION_ID, createActiveSession, createUser, testApp } from '../../__tests__/helpers';
+
+describe('auth routes with local passwords', () => {
+  const app = testApp();
+  const seedFile = path.join(os.tmpdir(), `seed-${process.pid}.json`);
+
+  beforeAll(async () => {
+    fs.writeFileSync(seedFile, JSON.stringify({
+      users: [
+        { id: 'ins-1', email: 'Instructor@Example.edu', password: 'correct horse', name: 'Ins', role: 'instructor', institutionId: INSTITUTION_ID },
+        { id: 'stu-1', email: 'student@example.edu', password: 'battery staple', name: 'Stu', role: 'student', institutionId: INSTITUTION_ID },
+        { id: 'gone-1', email: 'gone@example.edu', password: 'pw', name: 'Gone', role: 'student', institutionId: INSTITUTION_ID, isActive: false }
+      ]
+    }));
+    expect(await seedStorage(seedFile)).toBe(3);
+  });
+
+  afterAll(() => fs.unlinkSync(seedFile));
+
+  const login = (body: Record<string, unknown>) => request(app).post('/api/auth/login').send(body);
+
+  it('uses local passwords when Firebase is not configured', async () => {
+    const res = await request(app).get('/api/auth/provider').expect(200);
+    expect(res.body.data.provider).toBe('local');
+  });
+
+  it('logs a seeded user in by email and password', async () => {
+    const res = await login({ email: 'instructor@example.edu', password: 'correct horse' }).expect(200);
+    expect(res.body.data.user).toEqual({ id: 'ins-1', role: 'instructor', institutionId: INSTITUTION_ID });
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${res.body.data.accessToken}`)
+      .expect(200);
+    expect(me.body.data.id).toBe('ins-1');
+  });
+
+  it('rejects wrong passwords, unknown emails and disabled accounts alike', async () => {
+    await login({ email: 'instructor@example.edu', password: 'wrong' }).expect(401);
+    await login({ email: 'nobody@example.edu', password: 'correct horse' }).expect(401);
+    await login({ email: 'gone@example.edu', password: 'pw' }).expect(401);
+  });
+
+  it('refuses Firebase ID tokens and requires some credentials', async () => {
+    await login({ idToken: 'a-firebase-token' }).expect(401);
+    await login({ email: 'instructor@example.edu' }).expect(400);
+  });
+
+  it('trades a refresh token once', async () => {
+    const tokens = (await login({ email: 'student@example.edu', password: 'battery staple' }).expect(200)).body.data;
+
+    await request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken }).expect(200);
+    await request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken }).expect(401);
+  });
+
+  it('lets a seeded student check in with no cloud services', async () => {
+    const instructor = (await login({ email: 'instructor@example.edu', password: 'correct horse' })).body.data;
+    const student = (await login({ email: 'student@example.edu', password: 'battery staple' })).body.data;
+    const as = (tokens: { accessToken: string }) => ({ Authorization: `Bearer ${tokens.accessToken}` });
+
+    await request(app)
+      .post('/api/devices/register')
+      .set(as(student))
+      .send({ deviceId: 'seeded-phone' })
+      .expect(201);
+    const session = (await request(app)
+      .post('/api/sessions')
+      .set(as(instructor))
+      .send({
+        classId: 'CS101',
+        className: 'Algorithms',
+        subject: 'Computer Science',
+        startTime: new Date().toISOString(),
+        endTime: new Date(Date.now() + 3600 * 1000).toISOString(),
+        geofence: { latitude: 52.2, longitude: 0.12, radiusMeters: 50 },
+        timeWindowMinutes: 15
+      })
+      .expect(201)).body.data;
+    await request(app).post(`/api/sessions/${session.id}/activate`).set(as(instructor)).expect(200);
+    const challenge = (await request(app)
+      .post('/api/challenges')
+      .set(as(instructor))
+      .send({ sessionId: session.id })
+      .expect(201)).body.data;
+
+    // Unsigned, so verification fails, but the student and device are known
+    const res = await request(app)
+      .post('/api/challenges/respond')
+      .set(as(student))
+      .send({
+        sessionId: session.id,
+        studentId: 'stu-1',
+        challengeCode: challenge.challengeCode,
+        signedResponse: 'not-signed',
+        respondedAt: new Date().toISOString(),
+        rssi: -60,
+        deviceContext: { deviceId: 'seeded-phone' }
+      })
+      .expect(200);
+    expect(res.body.data.verification.errorReason).toBe('Malformed signed response');
+  });
+});
+
+describe('authorization', () => {
+  const app = testApp();
+
+  it('requires a valid access token', async () => {
+    const student = await createUser('student');
+
+    await request(app).get('/api/auth/me').expect(401);
+    await request(app).get('/api/auth/me').set('Authorization', 'Bearer not-a-token').expect(401);
+    const me = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${student.token}`).expect(200);
+    expect(me.body.data).toMatchObject({ id: student.user.id, role: 'student', institutionId: INSTITUTION_ID });
+  });
+
+  it('keeps staff routes from students', async () => {
+    const student = await createUser('student');
+
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${student.token}`)
+      .send({})
+      .expect(403);
+    expect(res.body.error.code).toBe('FORBIDDEN');
+  });
+
+  it('keeps sessions within their institution', async () => {
+    const instructor = await createUser('instructor');
+    const session = await createActiveSession(app, instructor);
+    const outsider = await createUser('admin', { institutionId: 'other-institution' });
+
+    await request(app)
+      .get(`/api/sessions/${session.id}`)
+      .set('Authorization', `Bearer ${outsider.token}`)
+      .expect(403);
+    await request(app)
+      .post(`/api/sessions/${session.id}/complete`)
+      .set('Authorization', `Bearer ${outsider.token}`)
+      .expect(403);
+  });
+
+  it('lets an admin of the institution run any of its sessions', async () => {
+    const instructor = await createUser('instructor');
+    const session = await createActiveSession(app, instructor);
+    const admin = await createUser('admin');
+
+    const res = await request(app)
+      .post(`/api/sessions/${session.id}/complete`)
+      .set('Authorization', `Bearer ${admin.token}`)
+      .expect(200);
+    expect(res.body.data.status).toBe('completed');
+  });
+});
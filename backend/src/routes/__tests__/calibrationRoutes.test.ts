@@ -0,0 +1,58 @@
+import request from 'supertest';
+import { AttendanceSession } from '../../types/attendance';
+import { TestUser, createActiveSession, createUser, testApp } from '../../__tests__/helpers';
+
+describe('calibration routes', () => {
+  const app = testApp();
+  let instructor: TestUser;
+  let session: AttendanceSession;
+
+  beforeAll(async () => {
+    instructor = await createUser('instructor');
+    session = await createActiveSession(app, instructor);
+  });
+
+  const calibrate = (body: Record<string, unknown>) =>
+    request(app)
+      .put(`/api/calibration/sessions/${session.id}`)
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .send(body);
+
+  it('takes measured parameters within the path loss exponent range', async () => {
+    const res = await calibrate({ measuredPower: -65, pathLossExponent: 2.7 }).expect(200);
+    expect(res.body.data).toMatchObject({ measuredPower: -65, pathLossExponent: 2.7, samples: 0 });
+  });
+
+  it.each([0.5, 7, -2])('rejects a path loss exponent of %d in the request', async (pathLossExponent) => {
+    const res = await calibrate({ measuredPower: -65, pathLossExponent }).expect(400);
+    expect(res.body.error.message).toBe('Request validation failed');
+    expect(res.body.error.details.errors.map((error: { path: string }) => error.path)).toEqual(['pathLossExponent']);
+  });
+
+  it('fits readings taken at known distances', async () => {
+    const res = await calibrate({
+      readings: [
+        { distanceMeters: 1, rssi: -60 },
+        { distanceMeters: 10, rssi: -90 }
+      ]
+    }).expect(200);
+    expect(res.body.data.measuredPower).toBeCloseTo(-60);
+    expect(res.body.data.pathLossExponent).toBeCloseTo(3);
+  });
+
+  it('reports the fit it rejected', async () => {
+    // Stronger further away, as when someone stood between phone and beacon at 1m
+    const res = await calibrate({
+      readings: [
+        { distanceMeters: 1, rssi: -80 },
+        { distanceMeters: 10, rssi: -70 }
+      ]
+    }).expect(400);
+
+    expect(res.body.error.message).toBe('Invalid calibration');
+    expect(res.body.error.details.errors).toEqual(['pathLossExponent must be between 1 and 6']);
+    expect(res.body.error.details.fitted.measuredPower).toBeCloseTo(-80);
+    expect(res.body.error.details.fitted.pathLossExponent).toBeCloseTo(-1);
+    expect(res.body.error.details.fitted.samples).toBe(2);
+  });
+});
@@ -0,0 +1,149 @@
+import request from 'supertest';
+import { createApp } from '../../app';
+import {
+  createActiveSession,
+  createUser,
+  issueChallenge,
+  registerDevice,
+  respond,
+  signResponse,
+  testApp
+} from '../../__tests__/helpers';
+
+describe('challenge routes', () => {
+  const app = testApp();
+
+  it('lets only the session instructor issue a challenge', async () => {
+    const instructor = await createUser('instructor');
+    const other = await createUser('instructor');
+    const session = await createActiveSession(app, instructor);
+
+    await request(app)
+      .post('/api/challenges')
+      .set('Authorization', `Bearer ${other.token}`)
+      .send({ sessionId: session.id })
+      .expect(403);
+
+    const challenge = await issueChallenge(app, instructor, session);
+    expect(challenge.sessionId).toBe(session.id);
+    expect(challenge.nonce).toEqual(expect.any(String));
+    expect(new Date(challenge.expiresAt).getTime()).toBeGreaterThan(new Date(challenge.issuedAt).getTime());
+  });
+
+  it('refuses challenges for sessions that are not active', async () => {
+    const instructor = await createUser('instructor');
+    const created = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .send({
+        classId: 'CS101',
+        className: 'Algorithms',
+        subject: 'Computer Science',
+        startTime: new Date().toISOString(),
+        endTime: new Date(Date.now() + 3600 * 1000).toISOString(),
+        geofence: { latitude: 52.2, longitude: 0.12, radiusMeters: 50 },
+        timeWindowMinutes: 15
+      })
+      .expect(201);
+
+    await request(app)
+      .post('/api/challenges')
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .send({ sessionId: created.body.data.id })
+      .expect(409);
+  });
+
+  it('records a verified response from the seat as present', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+
+    const res = await respond(app, student, signResponse(challenge, student, device)).expect(200);
+
+    expect(res.body.data.verification.isValid).toBe(true);
+    expect(res.body.data.status).toBe('present');
+  });
+
+  it('accepts every student answering the same challenge', async () => {
+    const instructor = await createUser('instructor');
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+
+    for (let i = 0; i < 3; i++) {
+      const student = await createUser('student');
+      const device = await registerDevice(app, student);
+      const res = await respond(app, student, signResponse(challenge, student, device)).expect(200);
+
+      expect(res.body.data.verification.isValid).toBe(true);
+      expect(res.body.data.status).toBe('present');
+    }
+  });
+
+  it('rejects a student replaying their own response', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+    const response = signResponse(challenge, student, device);
+
+    await respond(app, student, response).expect(200);
+    const replay = await respond(app, student, response).expect(200);
+
+    expect(replay.body.data.verification).toMatchObject({ isValid: false, errorReason: 'Nonce already used' });
+  });
+
+  it('rejects a response signed with the wrong secret', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+
+    const res = await respond(app, student, signResponse(challenge, student, { ...device, secret: 'forged' })).expect(200);
+
+    expect(res.body.data.verification).toMatchObject({ isValid: false, errorReason: 'Invalid signature' });
+    expect(res.body.data.status).toBe('absent');
+  });
+
+  it('only lets students respond for themselves', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const other = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+
+    await respond(app, other, signResponse(challenge, student, device)).expect(403);
+  });
+});
+
+describe('challenge rate limits', () => {
+  afterEach(() => {
+    delete process.env.CHALLENGE_RATE_LIMIT_MAX;
+  });
+
+  it('limits challenge requests per minute as CHALLENGE_RATE_LIMIT_MAX sets', async () => {
+    process.env.CHALLENGE_RATE_LIMIT_MAX = '2';
+    const app = createApp();
+    const instructor = await createUser('instructor');
+    const session = await createActiveSession(app, instructor);
+
+    await issueChallenge(app, instructor, session);
+    await issueChallenge(app, instructor, session);
+    const limited = await request(app)
+      .post('/api/challenges')
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .send({ sessionId: session.id })
+      .expect(429);
+
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('refuses a limit that is not a positive whole number', () => {
+    process.env.CHALLENGE_RATE_LIMIT_MAX = 'lots';
+    expect(() => createApp()).toThrow('CHALLENGE_RATE_LIMIT_MAX must be a positive whole number');
+  });
+});
@@ -0,0 +1,215 @@
+import request from 'supertest';
+import {
+  TestUser,
+  createActiveSession,
+  createUser,
+  issueChallenge,
+  registerDevice,
+  respond,
+  signResponse,
+  testApp
+} from '../../__tests__/helpers';
+
+describe('device routes', () => {
+  const app = testApp();
+
+  it('issues a secret on registration and never shows it again', async () => {
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    expect(device.secret).toEqual(expect.any(String));
+
+    const status = await request(app)
+      .get(`/api/devices/${device.deviceId}`)
+      .set('Authorization', `Bearer ${student.token}`)
+      .expect(200);
+
+    expect(status.body.data).toMatchObject({ deviceId: device.deviceId, userId: student.user.id, status: 'active' });
+    expect(JSON.stringify(status.body.data)).not.toContain(device.secret);
+  });
+
+  it('keeps devices to their owner', async () => {
+    const student = await createUser('student');
+    const other = await createUser('student');
+    const device = await registerDevice(app, student);
+
+    await request(app)
+      .get(`/api/devices/${device.deviceId}`)
+      .set('Authorization', `Bearer ${other.token}`)
+      .expect(403);
+    await request(app)
+      .post('/api/devices/register')
+      .set('Authorization', `Bearer ${other.token}`)
+      .send({ deviceId: device.deviceId })
+      .expect(409);
+  });
+
+  it('lets admins register devices only for users of their institution', async () => {
+    const admin = await createUser('admin');
+    const student = await createUser('student');
+    const outsider = await createUser('student', { institutionId: 'other-institution' });
+    const registerFor = (userId: string, deviceId: string) =>
+      request(app)
+        .post('/api/devices/register')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ deviceId, userId });
+
+    const registered = await registerFor(student.user.id, `admin-issued-${student.user.id}`).expect(201);
+    expect(registered.body.data.secret).toEqual(expect.any(String));
+    await registerFor('no-such-user', 'admin-issued-missing').expect(404);
+    await registerFor(outsider.user.id, `admin-issued-${outsider.user.id}`).expect(403);
+  });
+
+  it('accepts the rotated secret and the previous one until it lapses', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+
+    const rotated = await request(app)
+      .post(`/api/devices/${device.deviceId}/rotate`)
+      .set('Authorization', `Bearer ${student.token}`)
+      .expect(200);
+    const secret: string = rotated.body.data.secret;
+    expect(secret).not.toBe(device.secret);
+
+    // Signed before the app picked up the new secret
+    const challenge = await issueChallenge(app, instructor, session);
+    const inFlight = await respond(app, student, signResponse(challenge, student, device)).expect(200);
+    expect(inFlight.body.data.verification.isValid).toBe(true);
+
+    const next = await createActiveSession(app, instructor, { classId: 'CS102' });
+    const current = await respond(app, student, signResponse(await issueChallenge(app, instructor, next), student, {
+      ...device,
+      secret
+    })).expect(200);
+    expect(current.body.data.verification.isValid).toBe(true);
+  });
+
+  it('rejects responses from a revoked device', async () => {
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+    const session = await createActiveSession(app, instructor);
+
+    const revoked = await request(app)
+      .post(`/api/devices/${device.deviceId}/revoke`)
+      .set('Authorization', `Bearer ${student.token}`)
+      .send({ reason: 'Lost phone' })
+      .expect(200);
+    expect(revoked.body.data.status).toBe('revoked');
+
+    const challenge = await issueChallenge(app, instructor, session);
+    const res = await respond(app, student, signResponse(challenge, student, device)).expect(200);
+    expect(res.body.data.verification).toMatchObject({
+      isValid: false,
+      errorReason: 'Device is not registered or its key was revoked'
+    });
+  });
+});
+
+describe('device binding', () => {
+  const app = testApp();
+  const institutionId = 'binding-institution';
+  let admin: TestUser;
+  let instructor: TestUser;
+
+  beforeAll(async () => {
+    admin = await createUser('admin', { institutionId });
+    instructor = await createUser('instructor', { institutionId });
+    // Approved rebinds take effect at once
+    await request(app)
+      .put('/api/policies')
+      .set('Authorization', `Bearer ${admin.token}`)
+      .send({ changes: { devices: { rebindCooldownHours: 0 } } })
+      .expect(200);
+  });
+
+  const checkIn = async (student: TestUser, device: { deviceId: string; secret: string }) => {
+    const session = await createActiveSession(app, instructor);
+    const challenge = await issueChallenge(app, instructor, session);
+    return (await respond(app, student, signResponse(challenge, student, device)).expect(200)).body.data;
+  };
+
+  const requestRebind = async (student: TestUser, deviceId: string) =>
+    (await request(app)
+      .post('/api/devices/rebind-requests')
+      .set('Authorization', `Bearer ${student.token}`)
+      .send({ deviceId, reason: 'New phone' })
+      .expect(201)).body.data;
+
+  const approve = (user: TestUser, requestId: string) =>
+    request(app)
+      .post(`/api/devices/rebind-requests/${requestId}/approve`)
+      .set('Authorization', `Bearer ${user.token}`);
+
+  it('binds the first device and flags check-ins from any other', async () => {
+    const student = await createUser('student', { institutionId });
+    const phone = await registerDevice(app, student, `phone-${student.user.id}`);
+    const tablet = await registerDevice(app, student, `tablet-${student.user.id}`);
+
+    expect((await checkIn(student, phone)).flags.unboundDevice).toBe(false);
+    expect((await checkIn(student, tablet)).flags.unboundDevice).toBe(true);
+  });
+
+  it('moves the binding once an admin approves a rebind', async () => {
+    const student = await createUser('student', { institutionId });
+    await registerDevice(app, student, `phone-${student.user.id}`);
+    const tablet = await registerDevice(app, student, `tablet-${student.user.id}`);
+
+    const rebind = await requestRebind(student, tablet.deviceId);
+    await request(app)
+      .post('/api/devices/rebind-requests')
+      .set('Authorization', `Bearer ${student.token}`)
+      .send({ deviceId: tablet.deviceId })
+      .expect(409);
+
+    const outsider = await createUser('admin', { institutionId: 'other-institution' });
+    await approve(outsider, rebind.id).expect(403);
+    await approve(admin, rebind.id).expect(200);
+
+    expect((await checkIn(student, tablet)).flags.unboundDevice).toBe(false);
+  });
+
+  it('revokes a device taken over from another student', async () => {
+    const owner = await createUser('student', { institutionId });
+    const taker = await createUser('student', { institutionId });
+    const shared = await registerDevice(app, owner, `shared-${owner.user.id}`);
+
+    const rebind = await requestRebind(taker, shared.deviceId);
+    expect(rebind.currentOwnerId).toBe(owner.user.id);
+    await approve(admin, rebind.id).expect(200);
+
+    const taken = await registerDevice(app, taker, shared.deviceId);
+    expect((await checkIn(taker, taken)).flags.unboundDevice).toBe(false);
+    expect((await checkIn(owner, shared)).verification.isValid).toBe(false);
+  });
+
+  it('moves a revoked device to another student only through a rebind', async () => {
+    const owner = await createUser('student', { institutionId });
+    const taker = await createUser('student', { institutionId });
+    const old = await registerDevice(app, owner, `old-${owner.user.id}`);
+    await request(app)
+      .post(`/api/devices/${old.deviceId}/revoke`)
+      .set('Authorization', `Bearer ${owner.token}`)
+      .expect(200);
+
+    await request(app)
+      .post('/api/devices/register')
+      .set('Authorization', `Bearer ${taker.token}`)
+      .send({ deviceId: old.deviceId })
+      .expect(409);
+
+    const rebind = await requestRebind(taker, old.deviceId);
+    expect(rebind.currentOwnerId).toBe(owner.user.id);
+    await approve(admin, rebind.id).expect(200);
+
+    const taken = await registerDevice(app, taker, old.deviceId);
+    expect((await checkIn(taker, taken)).flags.unboundDevice).toBe(false);
+    await request(app)
+      .post('/api/devices/register')
+      .set('Authorization', `Bearer ${owner.token}`)
+      .send({ deviceId: old.deviceId })
+      .expect(409);
+  });
+});
+
@@ -0,0 +1,113 @@
+import request from 'supertest';
+import { PolicyReplayService } from '../../services/policyReplayService';
+import { PolicyService } from '../../services/policyService';
+import { createMemoryRepositories } from '../../storage/memoryStore';
+import { ReplayInput, ReplayPolicy } from '../../types/replay';
+import {
+  GEOFENCE,
+  TestUser,
+  createActiveSession,
+  createUser,
+  issueChallenge,
+  registerDevice,
+  respond,
+  signResponse,
+  testApp
+} from '../../__tests__/helpers';
+
+describe('policy routes', () => {
+  const app = testApp();
+  const defaults: ReplayPolicy = { version: 0, policy: PolicyService.DEFAULT_POLICY };
+
+  it('exports the check-ins it analyzed so they replay with the same history', async () => {
+    const admin = await createUser('admin');
+    const instructor = await createUser('instructor');
+    const student = await createUser('student');
+    const device = await registerDevice(app, student);
+
+    // Two classes across town at the same time
+    const across = { ...GEOFENCE, latitude: GEOFENCE.latitude + 0.1, buildingName: 'Annex' };
+    const here = await createActiveSession(app, instructor);
+    const there = await createActiveSession(app, instructor, { classId: 'CS102', geofence: across });
+
+    for (const [session, geofence] of [[here, GEOFENCE], [there, across]] as const) {
+      const challenge = await issueChallenge(app, instructor, session);
+      const response = signResponse(challenge, student, device, {
+        location: { latitude: geofence.latitude, longitude: geofence.longitude, accuracy: 8, timestamp: Date.now() }
+      });
+      await respond(app, student, response).expect(200);
+    }
+
+    await request(app)
+      .get('/api/policies/replay-input')
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .expect(403);
+    const exported = await request(app)
+      .get('/api/policies/replay-input')
+      .set('Authorization', `Bearer ${admin.token}`)
+      .expect(200);
+    const input: ReplayInput = exported.body.data;
+
+    expect(input.checkIns.map(checkIn => checkIn.session.id).sort()).toEqual([here.id, there.id].sort());
+    expect(input.records).toHaveLength(2);
+    expect(input.checkIns[0]).toEqual(expect.objectContaining({
+      verification: expect.objectContaining({ isValid: true }),
+      receivedAt: expect.any(String)
+    }));
+
+    const repositories = createMemoryRepositories();
+    const replay = new PolicyReplayService(repositories.sessions, repositories.analyses, repositories.records);
+    const report = await replay.replay(input.checkIns, input.records, defaults, defaults);
+
+    expect(report.checkIns).toBe(2);
+    const travel = report.baseline.detectors.find(metrics => metrics.name === 'travel');
+    expect(travel).toEqual(expect.objectContaining({ checked: 2, flagged: 1 }));
+    expect(report.changes).toHaveLength(0);
+  });
+
+  it('saves each change as a new version and restores earlier ones', async () => {
+    const admin = await createUser('admin', { institutionId: 'policy-institution' });
+    const instructor = await createUser('instructor', { institutionId: 'policy-institution' });
+    const put = (user: TestUser, changes: Record<string, unknown>) =>
+      request(app).put('/api/policies').set('Authorization', `Bearer ${user.token}`).send({ changes });
+
+    const initial = await request(app).get('/api/policies').set('Authorization', `Bearer ${instructor.token}`).expect(200);
+    expect(initial.body.data).toMatchObject({ version: 0, policy: PolicyService.DEFAULT_POLICY });
+
+    await put(instructor, { decision: { acceptBelow: 25 } }).expect(403);
+    const invalid = await put(admin, { weights: { weakSignal: 2 } }).expect(400);
+    expect(invalid.body.error.details.errors).toContain('weights.weakSignal cannot exceed 1');
+
+    const updated = await put(admin, { decision: { acceptBelow: 25 } }).expect(200);
+    expect(updated.body.data).toMatchObject({ version: 1, createdBy: admin.user.id });
+    expect(updated.body.data.policy.decision).toEqual({ ...PolicyService.DEFAULT_POLICY.decision, acceptBelow: 25 });
+
+    const restored = await request(app)
+      .post('/api/policies/versions/0/restore')
+      .set('Authorization', `Bearer ${admin.token}`)
+      .expect(200);
+    expect(restored.body.data).toMatchObject({ version: 2, policy: PolicyService.DEFAULT_POLICY });
+
+    const versions = await request(app).get('/api/policies/versions').set('Authorization', `Bearer ${admin.token}`).expect(200);
+    expect(versions.body.data.map((version: { version: number }) => version.version)).toEqual([2, 1, 0]);
+  });
+
+  it('scores a session under its own overrides on top of the institution policy', async () => {
+    const instructor = await createUser('instructor');
+    const session = await createActiveSession(app, instructor);
+    const sessionPolicy = (overrides?: Record<string, unknown>) => {
+      const req = overrides
+        ? request(app).put(`/api/policies/sessions/${session.id}`).send({ overrides })
+        : request(app).get(`/api/policies/sessions/${session.id}`);
+      return req.set('Authorization', `Bearer ${instructor.token}`);
+    };
+
+    await sessionPolicy({ decision: { acceptBelow: 90, rejectFrom: 80 } }).expect(400);
+    const resolved = await sessionPolicy({ location: { suspiciousJumpMeters: 500 } }).expect(200);
+    expect(resolved.body.data).toMatchObject({ sessionOverride: true, policy: { location: { suspiciousJumpMeters: 500 } } });
+
+    const shown = await sessionPolicy().expect(200);
+    expect(shown.body.data.overrides).toEqual({ location: { suspiciousJumpMeters: 500 } });
+  });
+});
+
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import { GEOFENCE, createActiveSession, createUser, testApp } from '../../__tests__/helpers';
+
+describe('session routes', () => {
+  const app = testApp();
+  const hour = 3600 * 1000;
+
+  const sessionFields = () => ({
+    classId: 'CS101',
+    className: 'Algorithms',
+    subject: 'Computer Science',
+    startTime: new Date(Date.now() + hour).toISOString(),
+    endTime: new Date(Date.now() + 2 * hour).toISOString(),
+    geofence: GEOFENCE,
+    timeWindowMinutes: 15
+  });
+
+  const createSession = (token: string, fields: Record<string, unknown> = {}) =>
+    request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`).send({ ...sessionFields(), ...fields });
+
+  it('creates sessions in the created state', async () => {
+    const instructor = await createUser('instructor');
+    const res = await createSession(instructor.token).expect(201);
+
+    expect(res.body.data).toMatchObject({ status: 'created', instructorId: instructor.user.id, geofence: GEOFENCE });
+  });
+
+  it('rejects sessions that end before they start', async () => {
+    const instructor = await createUser('instructor');
+    const startTime = new Date(Date.now() + hour).toISOString();
+
+    await createSession(instructor.token, { startTime, endTime: startTime }).expect(400);
+  });
+
+  it('rejects a partial geofence on update and keeps the stored one', async () => {
+    const instructor = await createUser('instructor');
+    const created = await createSession(instructor.token).expect(201);
+    const sessionId = created.body.data.id;
+
+    await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .send({ geofence: { latitude: 10 } })
+      .expect(400);
+
+    const stored = await request(app)
+      .get(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .expect(200);
+    expect(stored.body.data.geofence).toEqual(GEOFENCE);
+  });
+
+  it('replaces the geofence when a complete one is sent', async () => {
+    const instructor = await createUser('instructor');
+    const created = await createSession(instructor.token).expect(201);
+    const geofence = { latitude: 10, longitude: 20, radiusMeters: 30 };
+
+    const res = await request(app)
+      .patch(`/api/sessions/${created.body.data.id}`)
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .send({ geofence })
+      .expect(200);
+
+    expect(res.body.data.geofence).toEqual(geofence);
+  });
+
+  it('rejects an update that moves the end before the stored start', async () => {
+    const instructor = await createUser('instructor');
+    const created = await createSession(instructor.token).expect(201);
+
+    await request(app)
+      .patch(`/api/sessions/${created.body.data.id}`)
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .send({ endTime: new Date(Date.now()).toISOString() })
+      .expect(400);
+  });
+
+  it('only allows the status transitions of the state machine', async () => {
+    const instructor = await createUser('instructor');
+    const created = await createSession(instructor.token).expect(201);
+    const sessionId = created.body.data.id;
+    const post = (action: string) =>
+      request(app).post(`/api/sessions/${sessionId}/${action}`).set('Authorization', `Bearer ${instructor.token}`);
+
+    await post('complete').expect(409);
+    await post('activate').expect(200);
+    await post('activate').expect(409);
+    await post('complete').expect(200);
+    await post('cancel').expect(409);
+  });
+
+  it('does not let other instructors edit the session', async () => {
+    const instructor = await createUser('instructor');
+    const other = await createUser('instructor');
+    const session = await createActiveSession(app, instructor);
+
+    await request(app)
+      .patch(`/api/sessions/${session.id}`)
+      .set('Authorization', `Bearer ${other.token}`)
+      .send({ className: 'Renamed' })
+      .expect(403);
+  });
+});
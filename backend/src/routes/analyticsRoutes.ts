@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import { authenticate, requireRole, currentUser, assertCanManageSession } from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AnalyticsService } from '../services/analyticsService';
+import { AntiProxyService } from '../services/antiProxyService';
+import { SessionService } from '../services/sessionService';
+import { PolicyService } from '../services/policyService';
+
+const router = Router();
+const analyticsService = new AnalyticsService();
+const antiProxyService = new AntiProxyService();
+const sessionService = new SessionService();
+const policyService = new PolicyService();
+
+const DEFAULT_DAYS = 7;
+const DEFAULT_LIMIT = 20;
+
+const daysValidator = query('days').optional().isInt({ min: 1, max: 365 }).toInt();
+const limitValidator = query('limit').optional().isInt({ min: 1, max: 200 }).toInt();
+
+router.use(authenticate, requireRole('instructor', 'admin'));
+
+/**
+ * Daily present/absent/flagged counts
+ */
+router.get(
+  '/trends',
+  [daysValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const days = Number(req.query.days) || DEFAULT_DAYS;
+    const trend = await analyticsService.getAttendanceTrend(currentUser(req).institutionId, days);
+    res.status(200).json({ success: true, data: trend });
+  })
+);
+
+router.get(
+  '/flags',
+  [daysValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const days = Number(req.query.days) || DEFAULT_DAYS;
+    const distribution = await analyticsService.getFlagDistribution(currentUser(req).institutionId, days);
+    res.status(200).json({ success: true, data: distribution });
+  })
+);
+
+router.get(
+  '/sessions',
+  [daysValidator, limitValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const days = Number(req.query.days) || DEFAULT_DAYS;
+    const limit = Number(req.query.limit) || DEFAULT_LIMIT;
+    const summaries = await analyticsService.getSessionSummaries(currentUser(req).institutionId, days, limit);
+    res.status(200).json({ success: true, data: summaries });
+  })
+);
+
+router.get(
+  '/flagged',
+  [limitValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const limit = Number(req.query.limit) || DEFAULT_LIMIT;
+    const flagged = await analyticsService.getFlaggedStudents(currentUser(req).institutionId, limit);
+    res.status(200).json({ success: true, data: flagged });
+  })
+);
+
+/**
+ * Anti-proxy report for a single session
+ */
+router.get(
+  '/sessions/:sessionId/report',
+  [param('sessionId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(currentUser(req), session);
+
+    const { policy } = await policyService.resolve(session);
+    const report = await antiProxyService.generateSessionReport(session.id, policy);
+    res.status(200).json({ success: true, data: report });
+  })
+);
+
+export default router;
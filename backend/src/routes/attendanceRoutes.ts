@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import {
+  authenticate,
+  requireRole,
+  currentUser,
+  assertCanManageSession,
+  assertSameInstitution
+} from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { ForbiddenError } from '../utils/errors';
+import { AttendanceService } from '../services/attendanceService';
+import { SessionService } from '../services/sessionService';
+import { TravelService } from '../services/travelService';
+import { AttendanceStatus } from '../types/attendance';
+import { AuthUser } from '../types/auth';
+
+const router = Router();
+const attendanceService = new AttendanceService();
+const sessionService = new SessionService();
+const travelService = new TravelService();
+
+const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'flagged', 'pending'];
+const OVERRIDE_STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'flagged'];
+
+/**
+ * Students may only read their own records
+ */
+const assertCanReadStudent = (user: AuthUser, studentId: string) => {
+  if (user.role === 'student' && user.id !== studentId) {
+    throw new ForbiddenError('Students can only view their own attendance');
+  }
+};
+
+router.use(authenticate);
+
+router.get(
+  '/sessions/:sessionId',
+  requireRole('instructor', 'admin'),
+  [
+    param('sessionId').isString().notEmpty(),
+    query('status').optional().isIn(ATTENDANCE_STATUSES),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    assertCanManageSession(currentUser(req), await sessionService.getSession(req.params.sessionId));
+    const records = await attendanceService.listBySession(
+      req.params.sessionId,
+      req.query.status as AttendanceStatus | undefined
+    );
+    res.status(200).json({ success: true, data: records });
+  })
+);
+
+router.get(
+  '/students/:studentId',
+  [
+    param('studentId').isString().notEmpty(),
+    query('status').optional().isIn(ATTENDANCE_STATUSES),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    assertCanReadStudent(user, req.params.studentId);
+
+    const records = await attendanceService.listByStudent(
+      req.params.studentId,
+      user.institutionId,
+      req.query.status as AttendanceStatus | undefined
+    );
+    res.status(200).json({ success: true, data: records });
+  })
+);
+
+/**
+ * Pairs of the student's check-ins they could not have made both of, newest first
+ */
+router.get(
+  '/students/:studentId/travel',
+  requireRole('instructor', 'admin'),
+  [param('studentId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const findings = (await travelService.getFindings(req.params.studentId))
+      .filter(finding => finding.institutionId === currentUser(req).institutionId);
+    res.status(200).json({ success: true, data: findings });
+  })
+);
+
+router.get(
+  '/sessions/:sessionId/students/:studentId',
+  [param('sessionId').isString().notEmpty(), param('studentId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const session = await sessionService.getSession(req.params.sessionId);
+    if (user.role === 'student') {
+      assertCanReadStudent(user, req.params.studentId);
+      assertSameInstitution(user, session);
+    } else {
+      assertCanManageSession(user, session);
+    }
+
+    const record = await attendanceService.getRecord(req.params.sessionId, req.params.studentId);
+    res.status(200).json({ success: true, data: record });
+  })
+);
+
+/**
+ * Manually override the status of a record, e.g. after reviewing a flagged check-in. Admins only.
+ */
+router.post(
+  '/sessions/:sessionId/students/:studentId/override',
+  requireRole('admin'),
+  [
+    param('sessionId').isString().notEmpty(),
+    param('studentId').isString().notEmpty(),
+    body('status').isIn(OVERRIDE_STATUSES),
+    body('reason').isString().trim().notEmpty(),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    assertSameInstitution(user, await sessionService.getSession(req.params.sessionId));
+
+    const record = await attendanceService.overrideRecord(req.params.sessionId, req.params.studentId, {
+      status: req.body.status,
+      reason: req.body.reason,
+      overrideByUserId: user.id
+    });
+    res.status(200).json({ success: true, data: record });
+  })
+);
+
+export default router;
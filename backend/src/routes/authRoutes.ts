@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { body, oneOf } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import { authenticate, currentUser } from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AuthService } from '../services/authService';
+
+const router = Router();
+const authService = new AuthService();
+
+/**
+ * Which credentials /login takes, so clients can show the right sign-in form
+ */
+router.get('/provider', (req, res) => {
+  res.status(200).json({ success: true, data: { provider: authService.provider } });
+});
+
+/**
+ * Exchange a Firebase ID token, or an email and password with AUTH_PROVIDER=local, for API tokens
+ */
+router.post(
+  '/login',
+  [
+    oneOf([
+      body('idToken').isString().notEmpty(),
+      [body('email').isEmail(), body('password').isString().notEmpty()]
+    ]),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    const tokens = req.body.idToken
+      ? await authService.login(req.body.idToken)
+      : await authService.loginWithPassword(req.body.email, req.body.password);
+    res.status(200).json({ success: true, data: tokens });
+  })
+);
+
+router.post(
+  '/refresh',
+  [body('refreshToken').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const tokens = await authService.refresh(req.body.refreshToken);
+    res.status(200).json({ success: true, data: tokens });
+  })
+);
+
+router.post(
+  '/logout',
+  [body('refreshToken').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    await authService.logout(req.body.refreshToken);
+    res.status(204).send();
+  })
+);
+
+router.get('/me', authenticate, (req, res) => {
+  res.status(200).json({ success: true, data: currentUser(req) });
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import { authenticate, requireRole, currentUser, assertCanManageSession } from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CalibrationService } from '../services/calibrationService';
+import { SessionService } from '../services/sessionService';
+
+const router = Router();
+const calibrationService = new CalibrationService();
+const sessionService = new SessionService();
+
+const sessionIdValidator = param('sessionId').isString().notEmpty();
+
+router.use(authenticate, requireRole('instructor', 'admin'));
+
+/**
+ * Calibration profiles of the session's room
+ */
+router.get(
+  '/sessions/:sessionId',
+  [sessionIdValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(currentUser(req), session);
+
+    const profiles = await calibrationService.listProfiles(session);
+    res.status(200).json({ success: true, data: profiles });
+  })
+);
+
+/**
+ * Calibrate the session's room, once per room and optionally per device model.
+ * Send readings taken at known distances, or measuredPower and pathLossExponent.
+ */
+router.put(
+  '/sessions/:sessionId',
+  [
+    sessionIdValidator,
+    body(['manufacturer', 'model']).optional().isString(),
+    body('readings').optional().isArray({ min: 2 }),
+    body('readings.*.distanceMeters').isFloat({ gt: 0 }).toFloat(),
+    body('readings.*.rssi').isFloat({ min: -127, max: 0 }).toFloat(),
+    body('measuredPower').if(body('readings').not().exists()).isFloat({ min: -127, max: 0 }).toFloat(),
+    body('pathLossExponent')
+      .if(body('readings').not().exists())
+      .isFloat({ min: CalibrationService.MIN_PATH_LOSS_EXPONENT, max: CalibrationService.MAX_PATH_LOSS_EXPONENT })
+      .toFloat(),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(user, session);
+
+    const profile = await calibrationService.calibrate(session, {
+      device: { manufacturer: req.body.manufacturer, model: req.body.model },
+      readings: req.body.readings,
+      measuredPower: req.body.measuredPower,
+      pathLossExponent: req.body.pathLossExponent,
+      calibratedBy: user.id
+    });
+    res.status(200).json({ success: true, data: profile });
+  })
+);
+
+router.delete(
+  '/sessions/:sessionId',
+  [sessionIdValidator, query(['manufacturer', 'model']).optional().isString(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(currentUser(req), session);
+
+    await calibrationService.removeProfile(session, {
+      manufacturer: req.query.manufacturer as string | undefined,
+      model: req.query.model as string | undefined
+    });
+    res.status(204).send();
+  })
+);
+
+export default router;
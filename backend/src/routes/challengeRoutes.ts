@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import {
+  authenticate,
+  requireRole,
+  currentUser,
+  assertCanManageSession,
+  assertSameInstitution
+} from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { ConflictError, ForbiddenError } from '../utils/errors';
+import { ChallengeService } from '../services/challengeService';
+import { AntiProxyService } from '../services/antiProxyService';
+import { AttendanceService } from '../services/attendanceService';
+import { SessionService } from '../services/sessionService';
+import { PolicyService } from '../services/policyService';
+import { DeviceBindingService } from '../services/deviceBindingService';
+import { DecisionEngine } from '../services/decisionEngine';
+import { TravelService } from '../services/travelService';
+import { logger } from '../utils/logger';
+import { AttendanceSession, ChallengeResponse } from '../types/attendance';
+
+const router = Router();
+const challengeService = new ChallengeService();
+const antiProxyService = new AntiProxyService();
+const attendanceService = new AttendanceService();
+const sessionService = new SessionService();
+const policyService = new PolicyService();
+const deviceBindingService = new DeviceBindingService();
+const travelService = new TravelService();
+
+const assertActive = (session: AttendanceSession) => {
+  if (session.status !== 'active') {
+    throw new ConflictError(`Session is ${session.status}, not active`, { sessionId: session.id });
+  }
+};
+
+router.use(authenticate);
+
+/**
+ * Issue a challenge for a session. Only the session's instructor (or an admin) may do this.
+ */
+router.post(
+  '/',
+  requireRole('instructor', 'admin'),
+  [
+    body('sessionId').isString().notEmpty(),
+    body('metadata').optional().isObject(),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const session = await sessionService.getSession(req.body.sessionId);
+    assertCanManageSession(user, session);
+    assertActive(session);
+
+    const challenge = await challengeService.issueChallenge({
+      sessionId: session.id,
+      instructorId: user.id,
+      metadata: req.body.metadata
+    });
+
+    res.status(201).json({ success: true, data: challenge });
+  })
+);
+
+/**
+ * Verify a signed challenge response, run anti-proxy analysis on it and record attendance
+ */
+router.post(
+  '/respond',
+  requireRole('student'),
+  [
+    body('sessionId').isString().notEmpty(),
+    body('studentId').isString().notEmpty(),
+    body('challengeCode').isString().notEmpty(),
+    body('signedResponse').isString().notEmpty(),
+    body('respondedAt').isISO8601(),
+    body('rssi').isNumeric(),
+    body('location').optional().isObject(),
+    body('wifiNetworks').optional().isArray(),
+    body('wifiScan').optional().isArray(),
+    body('wifiScan.*.bssid').isString().notEmpty(),
+    body('wifiScan.*.level').optional().isNumeric(),
+    body('deviceContext.deviceId').isString().notEmpty(),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    // Taken first, so lookups below do not count towards the response time
+    const receivedAt = new Date();
+    const user = currentUser(req);
+    const response = req.body as ChallengeResponse;
+    if (response.studentId !== user.id) {
+      throw new ForbiddenError('Students can only respond for themselves');
+    }
+
+    const session = await sessionService.getSession(response.sessionId);
+    assertSameInstitution(user, session);
+    assertActive(session);
+
+    // Checked before verification so a refused response does not use up the challenge
+    const policy = await policyService.resolve(session);
+    const binding = await deviceBindingService.checkBinding(user.id, response.deviceContext.deviceId);
+    if (binding.status !== 'bound' && policy.policy.devices.refuseUnbound) {
+      throw new ForbiddenError('Responses must come from the device bound to this account', {
+        deviceId: binding.deviceId,
+        status: binding.status
+      });
+    }
+
+    const verification = await challengeService.verifyResponse(response, receivedAt);
+    const flags = await antiProxyService.analyzeResponse(response, {
+      session,
+      policy,
+      verification,
+      binding,
+      clientIp: req.ip,
+      receivedAt
+    });
+    const decision = DecisionEngine.decide(
+      { flags, riskScore: flags.breakdown.score, partial: flags.partial, checkedInAt: receivedAt.toISOString() },
+      session,
+      policy
+    );
+    const recorded = await attendanceService.recordResponse(session, response, verification, flags, decision);
+    let record = recorded.record;
+
+    // The check-in stands flagged even if linking it to the student's other check-ins fails.
+    // A response only logged as an attempt is not linked.
+    if (flags.impossibleTravel && recorded.applied) {
+      try {
+        await travelService.link(session, response.studentId, flags.details.travel.conflicts);
+        record = await attendanceService.getRecord(session.id, response.studentId);
+      } catch (error) {
+        logger.error(`Linking impossible travel for ${response.studentId} failed:`, error);
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        verification: {
+          isValid: verification.isValid,
+          errorReason: verification.errorReason,
+          responseLatencyMs: verification.responseLatencyMs
+        },
+        flags,
+        status: record.status,
+        decision: record.decision
+      }
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,211 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import { authenticate, requireRole, currentUser } from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { ForbiddenError } from '../utils/errors';
+import { DeviceKeyService } from '../services/deviceKeyService';
+import { DeviceBindingService } from '../services/deviceBindingService';
+import { PolicyService } from '../services/policyService';
+import { UserService } from '../services/userService';
+import { AuthUser } from '../types/auth';
+import { RebindRequestStatus } from '../types/device';
+
+const router = Router();
+const deviceKeyService = new DeviceKeyService();
+const deviceBindingService = new DeviceBindingService();
+const policyService = new PolicyService();
+const userService = new UserService();
+
+const REBIND_STATUSES: RebindRequestStatus[] = ['pending', 'approved', 'rejected', 'completed'];
+
+/**
+ * Devices are managed by their owner or by an admin of the owner's institution
+ */
+const assertCanManageDevice = async (user: AuthUser, deviceId: string) => {
+  const status = await deviceKeyService.getStatus(deviceId);
+  const isOwner = status.userId === user.id;
+  const isAdmin = user.role === 'admin' && status.institutionId === user.institutionId;
+  if (!isOwner && !isAdmin) {
+    throw new ForbiddenError('Not allowed to manage this device');
+  }
+};
+
+/**
+ * Users register devices for themselves; admins may also register one for a
+ * user of their own institution
+ */
+const assertCanRegisterFor = async (user: AuthUser, userId: string) => {
+  if (userId === user.id) {
+    return;
+  }
+  if (user.role !== 'admin') {
+    throw new ForbiddenError('Only admins can register devices for other users');
+  }
+  const owner = await userService.getUser(userId);
+  if (owner.institutionId !== user.institutionId) {
+    throw new ForbiddenError('User belongs to another institution');
+  }
+};
+
+/**
+ * Admins decide rebind requests from their own institution only
+ */
+const assertCanDecideRequest = async (user: AuthUser, requestId: string) => {
+  const request = await deviceBindingService.getRequest(requestId);
+  if (request.institutionId !== user.institutionId) {
+    throw new ForbiddenError('Rebind request belongs to another institution');
+  }
+};
+
+router.use(authenticate);
+
+/**
+ * Register a device and provision its signing secret.
+ * The secret is only ever returned here and from /rotate.
+ * Students register their own devices; admins may register one for a user of
+ * their institution.
+ */
+router.post(
+  '/register',
+  [
+    body('deviceId').isString().notEmpty(),
+    body('userId').optional().isString().notEmpty(),
+    body(['platform', 'model', 'manufacturer', 'osVersion', 'appVersion', 'bleUuid', 'deviceFingerprint'])
+      .optional()
+      .isString(),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const userId = req.body.userId || user.id;
+    await assertCanRegisterFor(user, userId);
+
+    // A device taken over through an approved rebind is released from its old owner first
+    await deviceBindingService.applyDueRebinds(userId);
+
+    const issued = await deviceKeyService.registerDevice({
+      deviceId: req.body.deviceId,
+      userId,
+      institutionId: user.institutionId,
+      platform: req.body.platform,
+      model: req.body.model,
+      manufacturer: req.body.manufacturer,
+      osVersion: req.body.osVersion,
+      appVersion: req.body.appVersion,
+      bleUuid: req.body.bleUuid,
+      deviceFingerprint: req.body.deviceFingerprint
+    });
+
+    const bound = await deviceBindingService.bindIfUnbound(userId, issued.deviceId);
+    res.status(201).json({ success: true, data: { ...issued, bound } });
+  })
+);
+
+/**
+ * Students ask to check in from a different device, or to take over a device
+ * registered to another account
+ */
+router.post(
+  '/rebind-requests',
+  requireRole('student'),
+  [body('deviceId').isString().notEmpty(), body('reason').optional().isString(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const request = await deviceBindingService.requestRebind({
+      studentId: user.id,
+      institutionId: user.institutionId,
+      deviceId: req.body.deviceId,
+      reason: req.body.reason
+    });
+    res.status(201).json({ success: true, data: request });
+  })
+);
+
+/**
+ * Admins see their institution's requests; students see their own
+ */
+router.get(
+  '/rebind-requests',
+  [query('status').optional().isIn(REBIND_STATUSES), validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const requests = await deviceBindingService.listRequests({
+      institutionId: user.institutionId,
+      studentId: user.role === 'admin' ? undefined : user.id,
+      status: req.query.status as RebindRequestStatus | undefined
+    });
+    res.status(200).json({ success: true, data: requests });
+  })
+);
+
+/**
+ * Approve a rebind. It takes effect after the institution's cooldown.
+ */
+router.post(
+  '/rebind-requests/:requestId/approve',
+  requireRole('admin'),
+  [param('requestId').isString().notEmpty(), body('note').optional().isString(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    await assertCanDecideRequest(user, req.params.requestId);
+
+    const { policy } = await policyService.getPolicy(user.institutionId);
+    const request = await deviceBindingService.approve(
+      req.params.requestId,
+      user.id,
+      policy.devices.rebindCooldownHours,
+      req.body.note
+    );
+    res.status(200).json({ success: true, data: request });
+  })
+);
+
+router.post(
+  '/rebind-requests/:requestId/reject',
+  requireRole('admin'),
+  [param('requestId').isString().notEmpty(), body('note').optional().isString(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    await assertCanDecideRequest(user, req.params.requestId);
+
+    const request = await deviceBindingService.reject(req.params.requestId, user.id, req.body.note);
+    res.status(200).json({ success: true, data: request });
+  })
+);
+
+router.get(
+  '/:deviceId',
+  [param('deviceId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    await assertCanManageDevice(currentUser(req), req.params.deviceId);
+    const status = await deviceKeyService.getStatus(req.params.deviceId);
+    res.status(200).json({ success: true, data: status });
+  })
+);
+
+router.post(
+  '/:deviceId/rotate',
+  [param('deviceId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    await assertCanManageDevice(currentUser(req), req.params.deviceId);
+    const issued = await deviceKeyService.rotateKey(req.params.deviceId);
+    res.status(200).json({ success: true, data: issued });
+  })
+);
+
+router.post(
+  '/:deviceId/revoke',
+  [
+    param('deviceId').isString().notEmpty(),
+    body('reason').optional().isString(),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    await assertCanManageDevice(currentUser(req), req.params.deviceId);
+    const status = await deviceKeyService.revokeKey(req.params.deviceId, req.body.reason);
+    res.status(200).json({ success: true, data: status });
+  })
+);
+
+export default router;
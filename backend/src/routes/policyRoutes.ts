@@ -0,0 +1,141 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import { authenticate, requireRole, currentUser, assertCanManageSession } from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { PolicyReplayService } from '../services/policyReplayService';
+import { PolicyService } from '../services/policyService';
+import { SessionService } from '../services/sessionService';
+
+const router = Router();
+const policyService = new PolicyService();
+const sessionService = new SessionService();
+const policyReplayService = new PolicyReplayService();
+
+const DEFAULT_REPLAY_DAYS = 30;
+
+const versionValidator = param('version').isInt({ min: 0 }).toInt();
+const sessionIdValidator = param('sessionId').isString().notEmpty();
+
+router.use(authenticate, requireRole('instructor', 'admin'));
+
+/**
+ * The institution's current anti-proxy policy
+ */
+router.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const policy = await policyService.getPolicy(currentUser(req).institutionId);
+    res.status(200).json({ success: true, data: policy });
+  })
+);
+
+/**
+ * Change some settings; the merged result becomes a new version
+ */
+router.put(
+  '/',
+  requireRole('admin'),
+  [body('changes').isObject(), body('note').optional().isString(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const policy = await policyService.updatePolicy(user.institutionId, {
+      changes: req.body.changes,
+      updatedBy: user.id,
+      note: req.body.note
+    });
+    res.status(200).json({ success: true, data: policy });
+  })
+);
+
+router.get(
+  '/versions',
+  requireRole('admin'),
+  asyncHandler(async (req, res) => {
+    const versions = await policyService.listVersions(currentUser(req).institutionId);
+    res.status(200).json({ success: true, data: versions });
+  })
+);
+
+router.get(
+  '/versions/:version',
+  requireRole('admin'),
+  [versionValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const version = await policyService.getVersion(currentUser(req).institutionId, Number(req.params.version));
+    res.status(200).json({ success: true, data: version });
+  })
+);
+
+router.post(
+  '/versions/:version/restore',
+  requireRole('admin'),
+  [versionValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const policy = await policyService.restoreVersion(user.institutionId, Number(req.params.version), user.id);
+    res.status(200).json({ success: true, data: policy });
+  })
+);
+
+/**
+ * Recorded check-ins and records of recent sessions, the input of npm run replay:policy
+ */
+router.get(
+  '/replay-input',
+  requireRole('admin'),
+  [query('days').optional().isInt({ min: 1, max: 365 }).toInt(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const days = Number(req.query.days) || DEFAULT_REPLAY_DAYS;
+    const input = await policyReplayService.exportInput(currentUser(req).institutionId, days);
+    res.status(200).json({ success: true, data: input });
+  })
+);
+
+/**
+ * The policy a session's responses are scored under, with its overrides
+ */
+router.get(
+  '/sessions/:sessionId',
+  [sessionIdValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(currentUser(req), session);
+
+    const resolved = await policyService.resolve(session);
+    res.status(200).json({
+      success: true,
+      data: { ...resolved, overrides: session.policyOverrides || {} }
+    });
+  })
+);
+
+/**
+ * Replace a session's overrides. They apply on top of whatever institution version is current.
+ */
+router.put(
+  '/sessions/:sessionId',
+  [sessionIdValidator, body('overrides').isObject(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(currentUser(req), session);
+
+    await policyService.assertValidOverrides(session.institutionId, req.body.overrides);
+    const updated = await sessionService.updateSession(session.id, { policyOverrides: req.body.overrides });
+    res.status(200).json({ success: true, data: await policyService.resolve(updated) });
+  })
+);
+
+router.delete(
+  '/sessions/:sessionId',
+  [sessionIdValidator, validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(currentUser(req), session);
+
+    await sessionService.updateSession(session.id, { policyOverrides: undefined });
+    res.status(204).send();
+  })
+);
+
+export default router;
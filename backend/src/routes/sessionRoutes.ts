@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validationMiddleware';
+import {
+  authenticate,
+  requireRole,
+  currentUser,
+  assertCanManageSession,
+  assertSameInstitution
+} from '../middleware/authMiddleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+import { SessionService } from '../services/sessionService';
+import { RssiSeriesService } from '../services/rssiSeriesService';
+import { CollusionService } from '../services/collusionService';
+import { PolicyService } from '../services/policyService';
+import { RssiReading, SessionStatus } from '../types/attendance';
+
+const router = Router();
+const sessionService = new SessionService();
+const rssiSeriesService = new RssiSeriesService();
+const collusionService = new CollusionService();
+const policyService = new PolicyService();
+
+const SESSION_STATUSES: SessionStatus[] = ['created', 'active', 'completed', 'cancelled'];
+
+/**
+ * A geofence is always replaced whole, so its position and radius are
+ * required whenever one is sent, on updates too
+ */
+const sessionFieldValidators = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  const geofenceField = (name: string) => (optional ? body(name).if(body('geofence').exists()) : body(name));
+  return [
+    field('classId').isString().notEmpty(),
+    field('className').isString().notEmpty(),
+    field('subject').isString().notEmpty(),
+    field('startTime').isISO8601(),
+    field('endTime').isISO8601(),
+    field('geofence').isObject(),
+    geofenceField('geofence.latitude').isFloat({ min: -90, max: 90 }).toFloat(),
+    geofenceField('geofence.longitude').isFloat({ min: -180, max: 180 }).toFloat(),
+    geofenceField('geofence.radiusMeters').isFloat({ gt: 0 }).toFloat(),
+    field('timeWindowMinutes').isInt({ min: 1 }),
+    body('metadata').optional().isObject()
+  ];
+};
+
+router.use(authenticate);
+
+router.get(
+  '/',
+  [
+    query('instructorId').optional().isString(),
+    query('classId').optional().isString(),
+    query('status').optional().isIn(SESSION_STATUSES),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    const sessions = await sessionService.listSessions({
+      institutionId: currentUser(req).institutionId,
+      instructorId: req.query.instructorId as string | undefined,
+      classId: req.query.classId as string | undefined,
+      status: req.query.status as SessionStatus | undefined
+    });
+    res.status(200).json({ success: true, data: sessions });
+  })
+);
+
+/**
+ * Instructors create their own sessions; admins may create one on an instructor's behalf
+ */
+router.post(
+  '/',
+  requireRole('instructor', 'admin'),
+  [body('instructorId').optional().isString().notEmpty(), ...sessionFieldValidators(false), validateRequest],
+  asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const session = await sessionService.createSession({
+      institutionId: user.institutionId,
+      instructorId: user.role === 'admin' && req.body.instructorId ? req.body.instructorId : user.id,
+      classId: req.body.classId,
+      className: req.body.className,
+      subject: req.body.subject,
+      startTime: req.body.startTime,
+      endTime: req.body.endTime,
+      geofence: req.body.geofence,
+      timeWindowMinutes: req.body.timeWindowMinutes,
+      metadata: req.body.metadata
+    });
+    res.status(201).json({ success: true, data: session });
+  })
+);
+
+router.get(
+  '/:sessionId',
+  [param('sessionId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertSameInstitution(currentUser(req), session);
+    res.status(200).json({ success: true, data: session });
+  })
+);
+
+router.patch(
+  '/:sessionId',
+  [param('sessionId').isString().notEmpty(), ...sessionFieldValidators(true), validateRequest],
+  asyncHandler(async (req, res) => {
+    assertCanManageSession(currentUser(req), await sessionService.getSession(req.params.sessionId));
+
+    const { classId, className, subject, startTime, endTime, geofence, timeWindowMinutes, metadata } = req.body;
+    const changes = Object.fromEntries(
+      Object.entries({ classId, className, subject, startTime, endTime, geofence, timeWindowMinutes, metadata })
+        .filter(([, value]) => value !== undefined)
+    );
+
+    const session = await sessionService.updateSession(req.params.sessionId, changes);
+    res.status(200).json({ success: true, data: session });
+  })
+);
+
+router.delete(
+  '/:sessionId',
+  [param('sessionId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    assertCanManageSession(currentUser(req), await sessionService.getSession(req.params.sessionId));
+    await sessionService.deleteSession(req.params.sessionId);
+    res.status(204).send();
+  })
+);
+
+/**
+ * Status transitions: created → active → completed, or → cancelled
+ */
+const transitions: Record<string, SessionStatus> = {
+  activate: 'active',
+  complete: 'completed',
+  cancel: 'cancelled'
+};
+
+for (const [action, status] of Object.entries(transitions)) {
+  router.post(
+    `/:sessionId/${action}`,
+    [param('sessionId').isString().notEmpty(), validateRequest],
+    asyncHandler(async (req, res) => {
+      assertCanManageSession(currentUser(req), await sessionService.getSession(req.params.sessionId));
+      const session = await sessionService.transition(req.params.sessionId, status);
+
+      // A failed collusion pass must not undo completing the session; it can be rerun
+      if (status === 'completed') {
+        try {
+          await collusionService.analyzeSession(session, await policyService.resolve(session));
+        } catch (error) {
+          logger.error(`Collusion pass failed for session ${session.id}:`, error);
+        }
+      }
+
+      res.status(200).json({ success: true, data: session });
+    })
+  );
+}
+
+/**
+ * Collusion findings from the session's last cross-response pass
+ */
+router.get(
+  '/:sessionId/collusion',
+  [param('sessionId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    assertCanManageSession(currentUser(req), await sessionService.getSession(req.params.sessionId));
+    const findings = await collusionService.getFindings(req.params.sessionId);
+    res.status(200).json({ success: true, data: findings });
+  })
+);
+
+/**
+ * Rerun the collusion pass, e.g. after a policy change. It runs on its own when a session completes.
+ */
+router.post(
+  '/:sessionId/collusion',
+  [param('sessionId').isString().notEmpty(), validateRequest],
+  asyncHandler(async (req, res) => {
+    const session = await sessionService.getSession(req.params.sessionId);
+    assertCanManageSession(currentUser(req), session);
+
+    const findings = await collusionService.analyzeSession(session, await policyService.resolve(session));
+    res.status(200).json({ success: true, data: findings });
+  })
+);
+
+/**
+ * Readings from the instructor's BLE scan, any number per student, for the
+ * time-series check that runs when each student responds
+ */
+router.post(
+  '/:sessionId/rssi',
+  [
+    param('sessionId').isString().notEmpty(),
+    body('readings').isArray({ min: 1 }),
+    body('readings.*.studentId').isString().notEmpty(),
+    body('readings.*.rssi').isFloat({ min: -127, max: 20 }).toFloat(),
+    body('readings.*.observedAt').isISO8601(),
+    validateRequest
+  ],
+  asyncHandler(async (req, res) => {
+    assertCanManageSession(currentUser(req), await sessionService.getSession(req.params.sessionId));
+
+    const byStudent = new Map<string, RssiReading[]>();
+    for (const { studentId, rssi, observedAt } of req.body.readings) {
+      byStudent.set(studentId, [...(byStudent.get(studentId) || []), { rssi, observedAt }]);
+    }
+    for (const [studentId, readings] of byStudent) {
+      await rssiSeriesService.record(req.params.sessionId, studentId, readings);
+    }
+
+    res.status(200).json({ success: true, data: { students: byStudent.size, readings: req.body.readings.length } });
+  })
+);
+
+export default router;
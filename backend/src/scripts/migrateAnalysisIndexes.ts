@@ -0,0 +1,22 @@
+/**
+ * One-off migration of anti-proxy analyses from the old
+ * analysis:{studentId}:{timestamp} keys to the indexed Redis layout.
+ *
+ *   npm run build && npm run migrate:analyses
+ */
+import 'dotenv/config';
+import { logger } from '../utils/logger';
+import { initializeRedis, redisClient } from '../config/redis';
+import { RedisAnalysisRepository } from '../storage/redisStore';
+
+async function main() {
+  await initializeRedis();
+  const migrated = await new RedisAnalysisRepository().migrateLegacyKeys();
+  logger.info(`Migrated ${migrated} analyses to the indexed layout`);
+  await redisClient.quit();
+}
+
+main().catch((error) => {
+  logger.error('Analysis migration failed:', error);
+  process.exit(1);
+});
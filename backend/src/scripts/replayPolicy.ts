@@ -0,0 +1,165 @@
+/**
+ * Replay recorded check-ins under a candidate anti-proxy policy and compare
+ * its decisions with the baseline's, scoring both against manual overrides.
+ *
+ *   npm run build && npm run replay:policy -- \
+ *     --input replay-input.json | --responses checkins.ndjson --records records.ndjson \
+ *     --candidate candidate.json [--baseline current.json] [--out report.json]
+ *
+ * --input is what GET /api/policies/replay-input returns: the check-ins the
+ * server recorded for recent sessions and their attendance records. The
+ * classroom simulator writes the same as --responses, one recorded check-in
+ * per line: the ChallengeResponse with its session, and the verification,
+ * binding check, client IP and receipt time it was analyzed with, and
+ * --records, the attendance records of the same sessions, one per line.
+ * A policy file is either a saved policy version, as GET /api/policies
+ * returns it, or policy changes; the baseline's changes apply to the
+ * built-in defaults and the candidate's to the baseline.
+ *
+ * Detectors that look at the current time, such as device usage windows, see
+ * the time of the replay rather than of the check-in. Set LOG_LEVEL=warn to
+ * leave out the per-response analysis log.
+ */
+import 'dotenv/config';
+import fs from 'fs';
+import readline from 'readline';
+import { logger } from '../utils/logger';
+import { AttendanceRecord } from '../types/attendance';
+import { PolicyOverrides } from '../types/policy';
+import { DetectionMetrics, RecordedCheckIn, ReplayInput, ReplayPolicy, ReplayReport } from '../types/replay';
+import { PolicyReplayService } from '../services/policyReplayService';
+import { PolicyService } from '../services/policyService';
+
+const MAX_LISTED_CHANGES = 20;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const [name, value] = [argv[i], argv[i + 1]];
+    if (!name.startsWith('--') || value === undefined) {
+      throw new Error(`Expected --option value pairs, got ${name}`);
+    }
+    args[name.slice(2)] = value;
+  }
+  if (!args.candidate) {
+    throw new Error('--candidate is required');
+  }
+  if (!args.input && !(args.responses && args.records)) {
+    throw new Error('--input, or --responses with --records, is required');
+  }
+  return args;
+}
+
+async function readNdjson<T>(path: string): Promise<T[]> {
+  const lines = readline.createInterface({ input: fs.createReadStream(path), crlfDelay: Infinity });
+  const entries: T[] = [];
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`${path}:${lineNumber} is not valid JSON`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * A JSON file, unwrapped from the { success, data } envelope if it was saved from the API
+ */
+function readJson(path: string): any {
+  const saved = JSON.parse(fs.readFileSync(path, 'utf8'));
+  return saved && saved.success === true && 'data' in saved ? saved.data : saved;
+}
+
+async function readInput(args: Record<string, string>): Promise<ReplayInput> {
+  if (args.input) {
+    const { checkIns, records } = readJson(args.input);
+    if (!Array.isArray(checkIns) || !Array.isArray(records)) {
+      throw new Error(`${args.input} has no checkIns and records`);
+    }
+    return { checkIns, records };
+  }
+  return {
+    checkIns: await readNdjson<RecordedCheckIn>(args.responses),
+    records: await readNdjson<AttendanceRecord>(args.records)
+  };
+}
+
+function readPolicy(path: string, base: ReplayPolicy): ReplayPolicy {
+  const saved = readJson(path);
+  const replayPolicy = saved.policy && typeof saved.policy === 'object'
+    ? { version: Number(saved.version) || 0, policy: PolicyService.normalize(saved.policy) }
+    : { version: base.version, policy: PolicyService.merge(base.policy, saved as PolicyOverrides) };
+  PolicyService.assertValid(replayPolicy.policy);
+  return replayPolicy;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatMetrics(baseline: DetectionMetrics, candidate?: DetectionMetrics): string {
+  const columns = (metrics?: DetectionMetrics) => metrics
+    ? [formatRate(metrics.flagRate), formatRate(metrics.precision), formatRate(metrics.recall)]
+    : ['-', '-', '-'];
+  return [
+    baseline.name.padEnd(12),
+    ...columns(baseline).map(column => column.padStart(8)),
+    '  ->',
+    ...columns(candidate).map(column => column.padStart(8))
+  ].join(' ');
+}
+
+function printReport(report: ReplayReport): void {
+  const { baseline, candidate } = report;
+  const lines = [
+    `Replayed ${report.checkIns} check-ins, ${report.labeled.proxy} labeled proxy and ${report.labeled.genuine} genuine`,
+    `Baseline v${baseline.policyVersion}: ${baseline.outcomes.accept} accepted, ` +
+      `${baseline.outcomes.review} reviewed, ${baseline.outcomes.reject} rejected`,
+    `Candidate v${candidate.policyVersion}: ${candidate.outcomes.accept} accepted, ` +
+      `${candidate.outcomes.review} reviewed, ${candidate.outcomes.reject} rejected`,
+    '',
+    `${''.padEnd(12)} ${['flagged', 'precis.', 'recall'].map(h => h.padStart(8)).join(' ')}` +
+      `     ${['flagged', 'precis.', 'recall'].map(h => h.padStart(8)).join(' ')}`,
+    formatMetrics(baseline.decisions, candidate.decisions),
+    ...baseline.detectors.map(metrics =>
+      formatMetrics(metrics, candidate.detectors.find(other => other.name === metrics.name))
+    ),
+    '',
+    `${report.changes.length} decisions changed`,
+    ...report.changes.slice(0, MAX_LISTED_CHANGES).map(change =>
+      `  ${change.sessionId} ${change.studentId}${change.label ? ` (${change.label})` : ''}: ` +
+      `${change.baseline.status} ${change.baseline.riskScore.toFixed(0)} -> ` +
+      `${change.candidate.status} ${change.candidate.riskScore.toFixed(0)}, ${change.candidate.reason}`
+    )
+  ];
+  if (report.changes.length > MAX_LISTED_CHANGES) {
+    lines.push(`  ... and ${report.changes.length - MAX_LISTED_CHANGES} more; see --out for all of them`);
+  }
+  console.log(lines.join('\n'));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const defaults: ReplayPolicy = { version: 0, policy: PolicyService.DEFAULT_POLICY };
+  const baseline = args.baseline ? readPolicy(args.baseline, defaults) : defaults;
+  const candidate = readPolicy(args.candidate, baseline);
+
+  const { checkIns, records } = await readInput(args);
+  const report = await new PolicyReplayService().replay(checkIns, records, baseline, candidate);
+
+  printReport(report);
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+  }
+}
+
+main().catch((error) => {
+  logger.error('Policy replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+/**
+ * Generate labeled challenge traffic for a simulated classroom, either as
+ * NDJSON for the policy replay tool or sent to a running backend.
+ *
+ *   npm run build && npm run simulate:classroom -- \
+ *     --out checkins.ndjson --records records.ndjson [--config simulation.json]
+ *     [--seed 7] [--sessions 10] [--students 40]
+ *
+ *   npm run simulate:classroom -- \
+ *     --api http://localhost:5000 --roster roster.json --session <sessionId> [--out outcomes.ndjson]
+ *
+ * --config holds simulation options over the defaults below; its classroom
+ * and attack rates are merged field by field. Written check-ins are recorded
+ * check-ins with their label and attack, and the records are overridden to
+ * the label, so both files can be passed straight to replay:policy.
+ *
+ * With --api the check-ins go to POST /api/challenges/respond. The roster
+ * holds the instructor's and students' access tokens; the session's geofence
+ * replaces the configured one. Sending needs Node 18 or later.
+ *
+ * Every request comes from one address, so a class is more than the server's
+ * default per-IP limits allow. Run the backend with them raised, e.g.
+ * RATE_LIMIT_MAX_REQUESTS=1000 CHALLENGE_RATE_LIMIT_MAX=200; otherwise the
+ * driver waits for the limits to reset and responses it holds back arrive late.
+ */
+import 'dotenv/config';
+import fs from 'fs';
+import { logger } from '../utils/logger';
+import { SimulationOptions } from '../types/simulation';
+import { ClassroomSimulator } from '../simulator/classroomSimulator';
+import { ApiDriver, SimulatorRoster } from '../simulator/apiDriver';
+
+const DEFAULT_OPTIONS: SimulationOptions = {
+  seed: 1,
+  sessions: 10,
+  students: 40,
+  attendanceRate: 0.85,
+  attackRates: {
+    remoteProxy: 0.03,
+    emulator: 0.01,
+    mockedGps: 0.02,
+    sharedDevice: 0.02,
+    relayedBle: 0.01
+  },
+  startTime: '2026-09-07T09:00:00.000Z',
+  classroom: {
+    institutionId: 'sim-institution',
+    geofence: { latitude: 52.2053, longitude: 0.1218, radiusMeters: 50, buildingName: 'Main', roomNumber: '101' },
+    roomSizeMeters: 12,
+    accessPoints: 8,
+    measuredPower: -52,
+    pathLossExponent: 2,
+    signalNoiseDb: 4
+  }
+};
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const [name, value] = [argv[i], argv[i + 1]];
+    if (!name.startsWith('--') || value === undefined) {
+      throw new Error(`Expected --option value pairs, got ${name}`);
+    }
+    args[name.slice(2)] = value;
+  }
+  if (args.api ? !args.roster || !args.session : !args.out) {
+    throw new Error(args.api ? '--roster and --session are required with --api' : '--out is required');
+  }
+  return args;
+}
+
+function readOptions(args: Record<string, string>): SimulationOptions {
+  const config: Partial<SimulationOptions> = args.config ? JSON.parse(fs.readFileSync(args.config, 'utf8')) : {};
+  const options: SimulationOptions = {
+    ...DEFAULT_OPTIONS,
+    ...config,
+    attackRates: { ...DEFAULT_OPTIONS.attackRates, ...config.attackRates },
+    classroom: { ...DEFAULT_OPTIONS.classroom, ...config.classroom }
+  };
+  for (const name of ['seed', 'sessions', 'students'] as const) {
+    if (args[name] !== undefined) {
+      options[name] = Number(args[name]);
+      if (!Number.isInteger(options[name])) {
+        throw new Error(`--${name} must be a whole number`);
+      }
+    }
+  }
+  return options;
+}
+
+function writeNdjson(path: string, entries: unknown[]): void {
+  fs.writeFileSync(path, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+}
+
+/**
+ * Counts by label, or attack for proxies
+ */
+function tally(entries: { label: string; attack?: string }[]): string {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const key = entry.attack || entry.label;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return [...counts.entries()].map(([key, count]) => `${count} ${key}`).join(', ');
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const options = readOptions(args);
+
+  if (args.api) {
+    const roster: SimulatorRoster = JSON.parse(fs.readFileSync(args.roster, 'utf8'));
+    const driver = new ApiDriver(args.api.replace(/\/$/, ''), roster);
+    const session = await driver.getSession(args.session);
+    const simulator = new ClassroomSimulator({
+      ...options,
+      classroom: { ...options.classroom, institutionId: session.institutionId, geofence: session.geofence }
+    });
+
+    const outcomes = await driver.run(simulator, session);
+    logger.info(`Sent ${outcomes.length} check-ins to session ${session.id}: ${tally(outcomes)}`);
+    for (const outcome of outcomes) {
+      logger.info(
+        `${outcome.studentId} (${outcome.attack || outcome.label}): ` +
+        (outcome.error ? `${outcome.httpStatus} ${outcome.error}` : `${outcome.status}, ${outcome.decision?.reason}`)
+      );
+    }
+    if (args.out) {
+      writeNdjson(args.out, outcomes);
+    }
+    return;
+  }
+
+  const result = new ClassroomSimulator(options).run();
+  writeNdjson(args.out, result.checkIns);
+  if (args.records) {
+    writeNdjson(args.records, result.records);
+  }
+  logger.info(
+    `Simulated ${result.sessions.length} sessions with ${result.checkIns.length} check-ins: ${tally(result.checkIns)}`
+  );
+}
+
+main().catch((error) => {
+  logger.error('Classroom simulation failed:', error);
+  process.exit(1);
+});
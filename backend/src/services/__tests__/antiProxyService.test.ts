@@ -0,0 +1,133 @@
+import { createMemoryRepositories } from '../../storage/memoryStore';
+import { AnalysisRepository } from '../../storage/types';
+import { AttendanceSession, ChallengeResponse } from '../../types/attendance';
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName, AntiProxyPolicy, ResolvedPolicy } from '../../types/policy';
+import { AntiProxyService } from '../antiProxyService';
+import { DetectorRegistry } from '../detectors';
+import { Detector, DetectorResult } from '../detectors/types';
+import { PolicyService } from '../policyService';
+
+const session = {
+  id: 'session-1',
+  institutionId: 'test-institution',
+  startTime: new Date().toISOString(),
+  geofence: { latitude: 52.2053, longitude: 0.1218, radiusMeters: 50, buildingName: 'Main', roomNumber: '101' }
+} as AttendanceSession;
+
+const response = {
+  sessionId: session.id,
+  studentId: 'student-1',
+  respondedAt: new Date().toISOString(),
+  rssi: -60,
+  deviceContext: { deviceId: 'phone-1', platform: 'android' }
+} as ChallengeResponse;
+
+/**
+ * A detector that answers with a fixed result, or with whatever its detect does
+ */
+const detector = (
+  name: string,
+  flags: AntiProxyFlagName[],
+  detect: () => Promise<DetectorResult>,
+  inputs: DetectorInput[] = []
+): Detector => ({ name, flags, inputs, detect });
+
+const resolved = (changes: Partial<AntiProxyPolicy['detectors']> = {}): ResolvedPolicy => ({
+  institutionId: session.institutionId,
+  version: 0,
+  sessionOverride: false,
+  policy: PolicyService.merge(PolicyService.DEFAULT_POLICY, { detectors: changes })
+});
+
+describe('AntiProxyService pipeline', () => {
+  let analyses: AnalysisRepository;
+  let registry: DetectorRegistry;
+  let service: AntiProxyService;
+
+  beforeEach(() => {
+    analyses = createMemoryRepositories().analyses;
+    registry = new DetectorRegistry();
+    service = new AntiProxyService(analyses, registry);
+  });
+
+  it('runs the registered detectors and reports what each raised', async () => {
+    registry.register(detector('far', ['outsideGeofence'], async () => ({
+      flags: { outsideGeofence: true },
+      findings: { outsideGeofence: { reason: 'Far away', evidence: { meters: 500 } } }
+    })));
+    registry.register(detector('signal', ['weakSignal'], async () => ({ flags: { weakSignal: false } })));
+
+    const flags = await service.analyzeResponse(response, { session, policy: resolved() });
+
+    expect(flags.outsideGeofence).toBe(true);
+    expect(flags.partial).toBe(false);
+    expect(flags.detectors.map(report => [report.name, report.status, report.flags])).toEqual([
+      ['far', 'fired', ['outsideGeofence']],
+      ['signal', 'clear', []]
+    ]);
+    expect(flags.breakdown.factors.find(factor => factor.flag === 'outsideGeofence')?.reason).toBe('Far away');
+  });
+
+  it('ignores flags a detector did not declare', async () => {
+    registry.register(detector('greedy', ['weakSignal'], async () => ({
+      flags: { weakSignal: false, collusion: true, rootedDevice: true }
+    })));
+
+    const flags = await service.analyzeResponse(response, { session, policy: resolved() });
+
+    expect(flags.rootedDevice).toBe(false);
+    expect(flags.breakdown.score).toBe(0);
+  });
+
+  it('keeps the analysis when a detector fails or times out, and marks it partial', async () => {
+    registry.register(detector('broken', ['rssiAnomaly'], async () => {
+      throw new Error('Redis connection lost');
+    }));
+    registry.register(detector('slow', ['clockManipulation'], () => new Promise(() => undefined)));
+    registry.register(detector('far', ['outsideGeofence'], async () => ({ flags: { outsideGeofence: true } })));
+
+    const flags = await service.analyzeResponse(response, { session, policy: resolved({ timeoutMs: 20 }) });
+
+    expect(flags.partial).toBe(true);
+    expect(flags.outsideGeofence).toBe(true);
+    expect(flags.detectors).toEqual([
+      expect.objectContaining({ name: 'broken', status: 'failed', error: 'Redis connection lost' }),
+      expect.objectContaining({ name: 'slow', status: 'failed', error: 'Detector slow timed out after 20ms' }),
+      expect.objectContaining({ name: 'far', status: 'fired' })
+    ]);
+    expect(flags.breakdown.factors.find(factor => factor.flag === 'rssiAnomaly')?.reason)
+      .toBe('Signal Anomaly: not checked, the broken detector failed');
+  });
+
+  it('skips detectors the policy disables or whose inputs the response lacks', async () => {
+    const detect = jest.fn(async () => ({ flags: { outsideGeofence: true } }));
+    registry.register(detector('off', ['outsideGeofence'], detect));
+    registry.register(detector('needsLocation', ['invalidLocation'], detect, ['location']));
+
+    const flags = await service.analyzeResponse(response, { session, policy: resolved({ disabled: ['off'] }) });
+
+    expect(detect).not.toHaveBeenCalled();
+    expect(flags.detectors).toEqual([
+      expect.objectContaining({ name: 'off', status: 'disabled' }),
+      expect.objectContaining({ name: 'needsLocation', status: 'skipped', missingInputs: ['location'] })
+    ]);
+    expect(flags.partial).toBe(false);
+  });
+
+  it('stores the analysis with the check-in it ran on', async () => {
+    registry.register(detector('signal', ['weakSignal'], async () => ({ flags: { weakSignal: false } })));
+    const receivedAt = new Date();
+
+    await service.analyzeResponse(response, { session, policy: resolved(), clientIp: '203.0.113.7', receivedAt });
+
+    const [stored] = await analyses.listBySession(session.id);
+    expect(stored.detectors).toEqual([expect.objectContaining({ name: 'signal', status: 'clear' })]);
+    expect(stored.checkIn).toEqual({
+      response,
+      session,
+      clientIp: '203.0.113.7',
+      receivedAt: receivedAt.toISOString()
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { createMemoryRepositories } from '../../storage/memoryStore';
+import { TestDevice, TestUser, signResponse } from '../../__tests__/helpers';
+import { ChallengeService } from '../challengeService';
+import { DeviceKeyService } from '../deviceKeyService';
+import { NonceLedger } from '../nonceLedger';
+
+describe('ChallengeService', () => {
+  const student = { user: { id: 'student-1' } } as TestUser;
+  const device: TestDevice = { deviceId: 'phone-1', secret: 'device-secret' };
+  let service: ChallengeService;
+
+  beforeEach(() => {
+    const { cache } = createMemoryRepositories();
+    const deviceKeys = {
+      getVerificationKeys: async () => ({ userId: student.user.id, secrets: [device.secret] })
+    } as unknown as DeviceKeyService;
+    service = new ChallengeService(deviceKeys, new NonceLedger(), cache);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const issue = () => service.issueChallenge({ sessionId: 'session-1', instructorId: 'instructor-1' });
+
+  it('accepts a response received before the challenge expires', async () => {
+    const challenge = await issue();
+    const result = await service.verifyResponse(signResponse(challenge, student, device));
+
+    expect(result.isValid).toBe(true);
+    expect(result.flags).toEqual({});
+  });
+
+  it('flags a genuine response that arrives after expiry as late, not invalid', async () => {
+    const challenge = await issue();
+    const response = signResponse(challenge, student, device);
+    const late = new Date(challenge.expiresAt).getTime() + 5000;
+    jest.spyOn(Date, 'now').mockReturnValue(late);
+
+    const result = await service.verifyResponse(response, new Date(late));
+
+    expect(result).toMatchObject({
+      isValid: false,
+      errorReason: 'Response timeout',
+      flags: { lateResponse: true },
+      responseLatencyMs: late - new Date(challenge.issuedAt).getTime()
+    });
+    expect(result.flags.invalidChallenge).toBeUndefined();
+  });
+
+  it('still refuses a second use of the nonce after a late response', async () => {
+    const challenge = await issue();
+    const response = signResponse(challenge, student, device);
+    const late = new Date(challenge.expiresAt).getTime() + 5000;
+    jest.spyOn(Date, 'now').mockReturnValue(late);
+
+    await service.verifyResponse(response, new Date(late));
+    const replay = await service.verifyResponse(response, new Date(late));
+
+    expect(replay).toMatchObject({ isValid: false, errorReason: 'Nonce already used', flags: { invalidChallenge: true } });
+  });
+
+  it('checks the signature against the payload exactly as the app encoded it', async () => {
+    const challenge = await issue();
+    const response = signResponse(challenge, student, device);
+    // Dart's jsonEncode keeps the decimal point on whole doubles, which JSON.stringify drops
+    const signedPayload = JSON.stringify({
+      challengeCode: challenge.challengeCode,
+      nonce: challenge.nonce,
+      studentId: student.user.id,
+      deviceId: device.deviceId,
+      sessionId: challenge.sessionId,
+      timestamp: Date.now(),
+      additionalData: {}
+    }).replace('"additionalData":{}', '"additionalData":{"accuracy":1.0}');
+    const sign = (payload: string) => Buffer.from(JSON.stringify({
+      payload,
+      signature: crypto.createHmac('sha256', device.secret).update(signedPayload, 'utf8').digest('hex')
+    }), 'utf8').toString('base64url');
+
+    const tampered = await service.verifyResponse({
+      ...response,
+      signedResponse: sign(signedPayload.replace('1.0', '2.0'))
+    });
+    expect(tampered).toMatchObject({ isValid: false, errorReason: 'Invalid signature' });
+
+    const result = await service.verifyResponse({ ...response, signedResponse: sign(signedPayload) });
+    expect(result).toMatchObject({ isValid: true, additionalData: { accuracy: 1 } });
+  });
+});
@@ -0,0 +1,179 @@
+import { createMemoryRepositories } from '../../storage/memoryStore';
+import { Repositories } from '../../storage/types';
+import { AttendanceRecord, AttendanceSession, StoredAnalysis } from '../../types/attendance';
+import { ResolvedPolicy } from '../../types/policy';
+import { AttendanceService } from '../attendanceService';
+import { CollusionService } from '../collusionService';
+import { PolicyService } from '../policyService';
+
+const START = new Date('2026-03-02T09:00:00Z').getTime();
+const CAMPUS_NAT = '203.0.113.7';
+
+const session = {
+  id: 'session-1',
+  institutionId: 'test-institution',
+  startTime: new Date(START).toISOString()
+} as AttendanceSession;
+
+const resolved: ResolvedPolicy = {
+  institutionId: session.institutionId,
+  version: 0,
+  sessionOverride: false,
+  policy: PolicyService.DEFAULT_POLICY
+};
+
+describe('CollusionService', () => {
+  let repositories: Repositories;
+  let service: CollusionService;
+
+  beforeEach(() => {
+    repositories = createMemoryRepositories();
+    service = new CollusionService(
+      repositories.analyses,
+      repositories.patterns,
+      new AttendanceService(repositories.records)
+    );
+  });
+
+  /**
+   * The analysis of a clean response from the student's own phone, somewhere in the room
+   */
+  const analyze = async (studentId: string, secondsIn: number, fields: Partial<StoredAnalysis['response']> = {}) => {
+    const timestamp = START + secondsIn * 1000;
+    const seat = Number(studentId.replace(/\D/g, '')) || 0;
+    await repositories.analyses.save({
+      studentId,
+      sessionId: session.id,
+      timestamp,
+      flags: {},
+      details: {},
+      policyVersion: 0,
+      response: {
+        deviceId: `phone-${studentId}`,
+        ip: `10.0.${seat}.1`,
+        rssi: -60,
+        responseTime: 2000,
+        location: { latitude: 52.2053 + seat * 0.00005, longitude: 0.1218, accuracy: 8, timestamp },
+        ...fields
+      }
+    });
+  };
+
+  /**
+   * A verified check-in and the record it made
+   */
+  const checkIn = async (studentId: string, secondsIn: number, fields: Partial<StoredAnalysis['response']> = {}) => {
+    await analyze(studentId, secondsIn, fields);
+    const timestamp = START + secondsIn * 1000;
+    const record: AttendanceRecord = {
+      studentId,
+      sessionId: session.id,
+      institutionId: session.institutionId,
+      status: 'present',
+      timestamp: new Date(timestamp).toISOString(),
+      antiProxyData: { flags: {}, verification: { isValid: true } },
+      suspiciousFlags: []
+    };
+    await repositories.records.save(record);
+  };
+
+  const record = async (studentId: string) => (await repositories.records.get(session.id, studentId))!;
+
+  it('does not flag students for sharing the campus network alone', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await checkIn(`s${i}`, i * 5, { ip: CAMPUS_NAT });
+    }
+
+    expect(await service.analyzeSession(session, resolved)).toEqual([]);
+    expect((await record('s1')).status).toBe('present');
+  });
+
+  it('flags the students that several signals tie together, and only them', async () => {
+    const sharedFix = { latitude: 52.2054, longitude: 0.1219, accuracy: 5, timestamp: START };
+    await checkIn('s1', 5, { ip: CAMPUS_NAT, location: sharedFix });
+    await checkIn('s2', 20, { ip: CAMPUS_NAT, location: sharedFix });
+    await checkIn('s3', 35, { ip: CAMPUS_NAT });
+
+    const findings = await service.analyzeSession(session, resolved);
+
+    expect(findings.map(finding => finding.signal).sort()).toEqual(['colocatedGps', 'sharedIp']);
+    for (const studentId of ['s1', 's2']) {
+      const flagged = await record(studentId);
+      expect(flagged.status).toBe('flagged');
+      expect(flagged.suspiciousFlags).toContain('collusion');
+      expect(flagged.collusionFindingIds).toHaveLength(2);
+    }
+    expect((await record('s3')).status).toBe('present');
+    expect((await record('s3')).collusionFindingIds).toBeUndefined();
+  });
+
+  it('flags the partners of a student whose check-in made no record', async () => {
+    const sharedFix = { latitude: 52.2054, longitude: 0.1219, accuracy: 5, timestamp: START };
+    await checkIn('s1', 5, { ip: CAMPUS_NAT, location: sharedFix });
+    await analyze('s2', 20, { ip: CAMPUS_NAT, location: sharedFix });
+
+    const findings = await service.analyzeSession(session, resolved);
+
+    expect(findings.map(finding => finding.studentIds)).toEqual([['s1', 's2'], ['s1', 's2']]);
+    expect((await record('s1')).status).toBe('flagged');
+    expect(await repositories.records.get(session.id, 's2')).toBeNull();
+  });
+
+  it('judges bursts against the class\'s own pace', async () => {
+    // A lecture of forty answering 400ms apart: no burst, though every gap is under 500ms
+    for (let i = 1; i <= 40; i++) {
+      await checkIn(`s${i}`, i * 0.4, i <= 3 ? { ip: CAMPUS_NAT } : {});
+    }
+    expect(await service.analyzeSession(session, resolved)).toEqual([]);
+
+    // Three arriving 10ms apart stand out, and share an IP too
+    await checkIn('s41', 20.000, { ip: '198.51.100.9' });
+    await checkIn('s42', 20.010, { ip: '198.51.100.9' });
+    await checkIn('s43', 20.020, { ip: '198.51.100.9' });
+    const findings = await service.analyzeSession(session, resolved);
+
+    const burst = findings.find(finding => finding.signal === 'clusteredTiming');
+    expect(burst?.studentIds).toEqual(['s41', 's42', 's43']);
+    expect((await record('s42')).status).toBe('flagged');
+    expect((await record('s1')).status).toBe('present');
+  });
+
+  it('clears flags an earlier pass raised once the evidence no longer holds', async () => {
+    const sharedFix = { latitude: 52.2054, longitude: 0.1219, accuracy: 5, timestamp: START };
+    await checkIn('s1', 5, { ip: CAMPUS_NAT, location: sharedFix });
+    await checkIn('s2', 20, { ip: CAMPUS_NAT, location: sharedFix });
+    await service.analyzeSession(session, resolved);
+    expect((await record('s2')).status).toBe('flagged');
+
+    // s2's later response, from their own seat, is the one that counts
+    await analyze('s2', 30, { ip: CAMPUS_NAT });
+    expect(await service.analyzeSession(session, resolved)).toEqual([]);
+
+    for (const studentId of ['s1', 's2']) {
+      const cleared = await record(studentId);
+      expect(cleared.status).toBe('present');
+      expect(cleared.suspiciousFlags).not.toContain('collusion');
+      expect(cleared.collusionFindingIds).toEqual([]);
+      expect(cleared.antiProxyData.flags.collusion).toBe(false);
+      expect(cleared.antiProxyData.flags.breakdown.score).toBe(0);
+    }
+  });
+
+  it('keeps a manual override when clearing', async () => {
+    const sharedFix = { latitude: 52.2054, longitude: 0.1219, accuracy: 5, timestamp: START };
+    await checkIn('s1', 5, { ip: CAMPUS_NAT, location: sharedFix });
+    await checkIn('s2', 20, { ip: CAMPUS_NAT, location: sharedFix });
+    await service.analyzeSession(session, resolved);
+    await new AttendanceService(repositories.records).overrideRecord(session.id, 's1', {
+      status: 'absent',
+      reason: 'Confirmed proxy',
+      overrideByUserId: 'admin-1'
+    });
+
+    await analyze('s2', 30, { ip: CAMPUS_NAT });
+    await service.analyzeSession(session, resolved);
+
+    expect((await record('s1')).status).toBe('absent');
+    expect((await record('s1')).suspiciousFlags).not.toContain('collusion');
+  });
+});
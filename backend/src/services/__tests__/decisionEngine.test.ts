@@ -0,0 +1,79 @@
+import { AntiProxyFlags, AttendanceSession } from '../../types/attendance';
+import { ResolvedPolicy } from '../../types/policy';
+import { DecisionEngine, DecisionInput } from '../decisionEngine';
+import { PolicyService } from '../policyService';
+
+const START = new Date('2026-03-02T09:00:00Z').getTime();
+const MINUTE_MS = 60 * 1000;
+
+const session = { startTime: new Date(START).toISOString() } as AttendanceSession;
+const resolved: ResolvedPolicy = {
+  institutionId: 'test-institution',
+  version: 4,
+  sessionOverride: false,
+  policy: PolicyService.DEFAULT_POLICY
+};
+
+const decide = (riskScore: number, flags: Partial<AntiProxyFlags> = {}, input: Partial<DecisionInput> = {}) =>
+  DecisionEngine.decide(
+    { flags, riskScore, checkedInAt: new Date(START + 5 * MINUTE_MS).toISOString(), ...input },
+    session,
+    resolved
+  );
+
+describe('DecisionEngine', () => {
+  it('maps the score bands to accept, review and reject', () => {
+    expect(decide(10)).toMatchObject({
+      outcome: 'accept',
+      status: 'present',
+      rule: 'band',
+      reason: 'Risk score 10 is below the acceptance threshold of 30',
+      policyVersion: 4
+    });
+    expect(decide(45)).toMatchObject({ outcome: 'review', status: 'flagged', reason: 'Risk score 45 is between 30 and 70' });
+    expect(decide(70)).toMatchObject({
+      outcome: 'reject',
+      status: 'absent',
+      reason: 'Risk score 70 is at or above the rejection threshold of 70'
+    });
+  });
+
+  it('rejects a hard-fail flag whatever the score', () => {
+    expect(decide(5, { invalidChallenge: true })).toMatchObject({
+      outcome: 'reject',
+      rule: 'rejectFlag',
+      reason: 'Invalid Challenge always rejects',
+      flags: ['invalidChallenge']
+    });
+  });
+
+  it('sends review flags to a person unless the score rejects outright', () => {
+    expect(decide(5, { impossibleTravel: true })).toMatchObject({
+      outcome: 'review',
+      rule: 'reviewFlag',
+      reason: 'Impossible Travel always needs review',
+      flags: ['impossibleTravel']
+    });
+    expect(decide(80, { impossibleTravel: true })).toMatchObject({ outcome: 'reject', rule: 'band' });
+  });
+
+  it('reviews a low score when not every detector ran', () => {
+    expect(decide(10, {}, { partial: true })).toMatchObject({ outcome: 'review', rule: 'partial' });
+
+    const lenient = { ...resolved, policy: PolicyService.merge(resolved.policy, { decision: { reviewPartial: false } }) };
+    const decision = DecisionEngine.decide(
+      { flags: {}, riskScore: 10, partial: true, checkedInAt: session.startTime },
+      session,
+      lenient
+    );
+    expect(decision.outcome).toBe('accept');
+  });
+
+  it('marks an accepted check-in late after the grace period', () => {
+    const at = (minutes: number) => ({ checkedInAt: new Date(START + minutes * MINUTE_MS).toISOString() });
+
+    expect(decide(10, {}, at(15)).status).toBe('present');
+    expect(decide(10, {}, at(16)).status).toBe('late');
+    expect(decide(45, {}, at(16)).status).toBe('flagged');
+  });
+});
@@ -0,0 +1,100 @@
+import { redisClient } from '../../config/redis';
+import { NonceLedger } from '../nonceLedger';
+
+/**
+ * The Redis commands the ledger uses, kept in memory. Expiry is not modelled;
+ * isReady and failing let the tests take Redis away.
+ */
+jest.mock('../../config/redis', () => {
+  class FakeRedis {
+    isReady = true;
+    failing = false;
+    strings = new Map<string, string>();
+
+    async get(key: string) {
+      this.check();
+      return this.strings.get(key) ?? null;
+    }
+
+    async set(key: string, value: string, options: { NX?: boolean } = {}) {
+      this.check();
+      if (options.NX && this.strings.has(key)) {
+        return null;
+      }
+      this.strings.set(key, value);
+      return 'OK';
+    }
+
+    async pTTL(key: string) {
+      return this.strings.has(key) ? 60000 : -2;
+    }
+
+    private check() {
+      if (this.failing) {
+        throw new Error('Connection lost');
+      }
+    }
+  }
+  return { redisClient: new FakeRedis() };
+});
+
+const fakeRedis = redisClient as unknown as { isReady: boolean; failing: boolean; strings: Map<string, string> };
+
+describe('NonceLedger', () => {
+  const inOneMinute = () => new Date(Date.now() + 60 * 1000);
+
+  beforeEach(() => {
+    fakeRedis.isReady = true;
+    fakeRedis.failing = false;
+    fakeRedis.strings.clear();
+  });
+
+  it('lets every student use a nonce once', async () => {
+    const ledger = new NonceLedger();
+    await ledger.record('nonce-1', inOneMinute());
+
+    expect(await ledger.consume('nonce-1', 'stu1')).toBe('consumed');
+    expect(await ledger.consume('nonce-1', 'stu2')).toBe('consumed');
+    expect(await ledger.consume('nonce-1', 'stu1')).toBe('reused');
+  });
+
+  it('rejects nonces it never issued', async () => {
+    const ledger = new NonceLedger();
+    expect(await ledger.consume('never-issued', 'stu1')).toBe('unknown');
+  });
+
+  it('reports nonces used after they expired', async () => {
+    const ledger = new NonceLedger();
+    await ledger.record('nonce-2', new Date(Date.now() - 1000));
+
+    expect(await ledger.consume('nonce-2', 'stu1')).toBe('expired');
+    expect(await ledger.consume('nonce-2', 'stu1')).toBe('reused');
+  });
+
+  it('shares used nonces between server instances through Redis', async () => {
+    await new NonceLedger().record('nonce-3', inOneMinute());
+
+    expect(await new NonceLedger().consume('nonce-3', 'stu1')).toBe('consumed');
+    expect(await new NonceLedger().consume('nonce-3', 'stu1')).toBe('reused');
+    expect(fakeRedis.strings.has('nonce:nonce-3:consumed:stu1')).toBe(true);
+  });
+
+  it('keeps nonces in memory while Redis is unavailable', async () => {
+    fakeRedis.isReady = false;
+    const ledger = new NonceLedger();
+    await ledger.record('nonce-4', inOneMinute());
+
+    expect(fakeRedis.strings.size).toBe(0);
+    expect(await ledger.consume('nonce-4', 'stu1')).toBe('consumed');
+    expect(await ledger.consume('nonce-4', 'stu1')).toBe('reused');
+  });
+
+  it('falls back to memory when a Redis command fails', async () => {
+    fakeRedis.failing = true;
+    const ledger = new NonceLedger();
+    await ledger.record('nonce-5', inOneMinute());
+
+    expect(await ledger.consume('nonce-5', 'stu1')).toBe('consumed');
+    expect(await ledger.consume('nonce-5', 'stu1')).toBe('reused');
+  });
+});
@@ -0,0 +1,119 @@
+import { AntiProxyFlags, AttendanceSession } from '../../types/attendance';
+import { AntiProxyPolicy, ResolvedPolicy } from '../../types/policy';
+import { DecisionEngine } from '../decisionEngine';
+import { PolicyService } from '../policyService';
+import { RiskScorer } from '../riskScorer';
+
+const policy = PolicyService.DEFAULT_POLICY;
+const session = { startTime: new Date().toISOString() } as AttendanceSession;
+const resolved: ResolvedPolicy = { institutionId: 'test-institution', version: 0, sessionOverride: false, policy };
+
+const score = (flags: Partial<AntiProxyFlags>, scoredWith: AntiProxyPolicy = policy) =>
+  RiskScorer.explain(flags, {}, scoredWith, 0);
+
+const decide = (flags: Partial<AntiProxyFlags>) =>
+  DecisionEngine.decide(
+    { flags, riskScore: score(flags).score, checkedInAt: new Date().toISOString() },
+    session,
+    resolved
+  );
+
+describe('RiskScorer', () => {
+  it('scores a clean check-in 0', () => {
+    expect(score({}).score).toBe(0);
+    expect(decide({}).outcome).toBe('accept');
+  });
+
+  it('scores a single flag at its own weight', () => {
+    expect(score({ weakSignal: true }).score).toBeCloseTo(20);
+    expect(score({ outsideGeofence: true }).score).toBeCloseTo(35);
+  });
+
+  it('does not auto-accept a remote proxy outside the geofence on foreign WiFi with a weak signal', () => {
+    const flags = { outsideGeofence: true, suspiciousWifi: true, weakSignal: true };
+
+    // 1 - 0.65 * 0.85 * 0.8
+    expect(score(flags).score).toBeCloseTo(55.8);
+    expect(policy.decision.acceptBelow).toBe(30);
+    expect(decide(flags)).toMatchObject({ outcome: 'review', rule: 'band', status: 'flagged' });
+  });
+
+  it('is not diluted by weights for flags that did not fire', () => {
+    const flags = { outsideGeofence: true, suspiciousWifi: true, weakSignal: true };
+    const moreDetectors = {
+      ...policy,
+      weights: { ...policy.weights, rssiAnomaly: 1, clockManipulation: 1, impossibleTravel: 1 }
+    };
+
+    expect(score(flags, moreDetectors).score).toBeCloseTo(score(flags).score);
+  });
+
+  it('credits each fired flag with a share of the score by weight', () => {
+    const breakdown = score({ outsideGeofence: true, weakSignal: true });
+    const contributions = Object.fromEntries(breakdown.factors.map(factor => [factor.flag, factor.contribution]));
+
+    expect(contributions.outsideGeofence + contributions.weakSignal).toBeCloseTo(breakdown.score);
+    expect(contributions.outsideGeofence / contributions.weakSignal).toBeCloseTo(0.35 / 0.2);
+    expect(contributions.suspiciousWifi).toBe(0);
+  });
+
+  it('reaches 100 only when a flag is certain', () => {
+    expect(score({ invalidChallenge: true }, { ...policy, weights: { ...policy.weights, invalidChallenge: 1 } }).score)
+      .toBe(100);
+    const everything = Object.fromEntries(Object.keys(policy.weights).map(flag => [flag, true]));
+    expect(score(everything).score).toBeLessThan(100);
+  });
+
+  it('explains every weighted check in policy order, fired or not', () => {
+    const breakdown = RiskScorer.explain(
+      { outsideGeofence: true, weakSignal: false },
+      {
+        outsideGeofence: {
+          reason: '150m outside the geofence, beyond the 10m accuracy',
+          evidence: { distanceToFenceMeters: 150 }
+        },
+        impossibleTravel: { reason: 'Impossible Travel: not checked (no other check-ins)', evidence: { ignored: true } }
+      },
+      policy,
+      3
+    );
+
+    expect(breakdown.policyVersion).toBe(3);
+    expect(breakdown.factors.map(factor => factor.flag)).toEqual(Object.keys(policy.weights));
+    expect(breakdown.factors.find(factor => factor.flag === 'outsideGeofence')).toEqual({
+      flag: 'outsideGeofence',
+      label: 'Outside Geofence',
+      fired: true,
+      weight: 0.35,
+      contribution: breakdown.score,
+      reason: '150m outside the geofence, beyond the 10m accuracy',
+      evidence: { distanceToFenceMeters: 150 }
+    });
+    expect(breakdown.factors.find(factor => factor.flag === 'weakSignal')).toMatchObject({
+      fired: false,
+      contribution: 0,
+      reason: 'Weak Signal: not detected',
+      evidence: {}
+    });
+    // A check that did not fire keeps only its reason
+    expect(breakdown.factors.find(factor => factor.flag === 'impossibleTravel')).toMatchObject({
+      reason: 'Impossible Travel: not checked (no other check-ins)',
+      evidence: {}
+    });
+  });
+
+  it('recovers the findings of a stored breakdown', () => {
+    const findings = { outsideGeofence: { reason: 'Far away', evidence: { distanceToFenceMeters: 150 } } };
+    const breakdown = RiskScorer.explain({ outsideGeofence: true }, findings, policy, 0);
+
+    expect(RiskScorer.findingsOf(breakdown).outsideGeofence).toEqual(findings.outsideGeofence);
+    expect(RiskScorer.findingsOf(undefined)).toEqual({});
+  });
+});
+
+describe('PolicyService weights', () => {
+  it('rejects weights above 1', () => {
+    expect(() => PolicyService.assertValid({ ...policy, weights: { ...policy.weights, weakSignal: 1.5 } }))
+      .toThrow('Invalid anti-proxy policy');
+  });
+});
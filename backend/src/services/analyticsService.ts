@@ -0,0 +1,150 @@
+import moment from 'moment';
+import { SessionService } from './sessionService';
+import { AttendanceService } from './attendanceService';
+import { UserService } from './userService';
+import { RiskScorer } from './riskScorer';
+import { AttendanceRecord, AttendanceSession } from '../types/attendance';
+import { AntiProxyFlagName } from '../types/policy';
+import {
+  AttendanceTrendPoint,
+  FlagDistributionEntry,
+  FlaggedStudent,
+  SessionSummary
+} from '../types/analytics';
+
+export class AnalyticsService {
+  constructor(
+    private readonly sessionService = new SessionService(),
+    private readonly attendanceService = new AttendanceService(),
+    private readonly userService = new UserService()
+  ) {}
+
+  /**
+   * Daily present/absent/flagged counts for sessions held in the last `days` days.
+   * Present includes late arrivals; absent is everyone expected who was neither present nor flagged.
+   */
+  async getAttendanceTrend(institutionId: string, days: number): Promise<AttendanceTrendPoint[]> {
+    const { sessions, recordsBySession } = await this.loadSince(institutionId, days);
+    const points = new Map<string, AttendanceTrendPoint>();
+
+    for (const session of sessions) {
+      const date = moment(session.startTime).format('YYYY-MM-DD');
+      const point = points.get(date) || { date, present: 0, absent: 0, flagged: 0 };
+      const counts = this.countStatuses(session, recordsBySession.get(session.id) || []);
+
+      point.present += counts.present;
+      point.flagged += counts.flagged;
+      point.absent += counts.absent;
+      points.set(date, point);
+    }
+
+    return [...points.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * How often each anti-proxy flag fired in the last `days` days
+   */
+  async getFlagDistribution(institutionId: string, days: number): Promise<FlagDistributionEntry[]> {
+    const { recordsBySession } = await this.loadSince(institutionId, days);
+    const counts = new Map<string, number>();
+
+    for (const records of recordsBySession.values()) {
+      for (const record of records) {
+        for (const flag of record.suspiciousFlags || []) {
+          counts.set(flag, (counts.get(flag) || 0) + 1);
+        }
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([flag, count]) => ({ flag, label: this.flagLabel(flag), count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Per-session attendance summaries for the most recent sessions
+   */
+  async getSessionSummaries(institutionId: string, days: number, limit: number): Promise<SessionSummary[]> {
+    const { sessions, recordsBySession } = await this.loadSince(institutionId, days, limit);
+    const instructors = await this.userService.getUsers(sessions.map(s => s.instructorId));
+
+    return sessions.map(session => {
+      const counts = this.countStatuses(session, recordsBySession.get(session.id) || []);
+      return {
+        id: session.id,
+        className: session.className,
+        instructor: instructors.get(session.instructorId)?.name || session.instructorId,
+        date: moment(session.startTime).format('YYYY-MM-DD'),
+        time: moment(session.startTime).format('hh:mm A'),
+        studentsPresent: counts.present,
+        totalStudents: counts.total,
+        flaggedCount: counts.flagged,
+        status: session.status
+      };
+    });
+  }
+
+  /**
+   * Most recent records still flagged for review
+   */
+  async getFlaggedStudents(institutionId: string, limit: number): Promise<FlaggedStudent[]> {
+    const records = await this.attendanceService.listRecentByStatus(institutionId, 'flagged', limit);
+    const students = await this.userService.getUsers(records.map(r => r.studentId));
+    const sessions = new Map<string, AttendanceSession>();
+
+    for (const sessionId of new Set(records.map(r => r.sessionId))) {
+      try {
+        sessions.set(sessionId, await this.sessionService.getSession(sessionId));
+      } catch {
+        // Session was deleted; fall back to its id below
+      }
+    }
+
+    return records.map(record => {
+      const student = students.get(record.studentId);
+      return {
+        id: `${record.sessionId}_${record.studentId}`,
+        name: student?.name || record.studentId,
+        studentId: student?.studentId || record.studentId,
+        session: sessions.get(record.sessionId)?.className || record.sessionId,
+        flagReason: (record.suspiciousFlags || []).map(flag => this.flagLabel(flag)).join(', ') || 'Flagged',
+        rssi: record.rssi ?? null,
+        riskScore: record.antiProxyData.flags?.details?.riskScore ?? null,
+        breakdown: record.antiProxyData.flags?.breakdown ?? null,
+        timestamp: moment(record.timestamp).format('YYYY-MM-DD hh:mm A')
+      };
+    });
+  }
+
+  private async loadSince(institutionId: string, days: number, limit?: number) {
+    const from = moment().subtract(days, 'days').startOf('day').toISOString();
+    const sessions = (await this.sessionService.listSessionsSince(institutionId, from, limit))
+      .filter(session => session.status !== 'cancelled');
+    const records = await this.attendanceService.listBySessions(sessions.map(s => s.id));
+
+    const recordsBySession = new Map<string, AttendanceRecord[]>();
+    for (const record of records) {
+      const list = recordsBySession.get(record.sessionId) || [];
+      list.push(record);
+      recordsBySession.set(record.sessionId, list);
+    }
+
+    return { sessions, recordsBySession };
+  }
+
+  /**
+   * Expected headcount comes from session metadata.totalStudents when the
+   * instructor set it, otherwise from the records we have.
+   */
+  private countStatuses(session: AttendanceSession, records: AttendanceRecord[]) {
+    const present = records.filter(r => r.status === 'present' || r.status === 'late').length;
+    const flagged = records.filter(r => r.status === 'flagged').length;
+    const total = Math.max(Number(session.metadata?.totalStudents) || 0, records.length);
+
+    return { present, flagged, absent: Math.max(total - present - flagged, 0), total };
+  }
+
+  private flagLabel(flag: string): string {
+    return RiskScorer.FLAG_LABELS[flag as AntiProxyFlagName] || flag;
+  }
+}
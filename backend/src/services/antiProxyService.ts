@@ -1,135 +1,118 @@
 import { logger } from '../utils/logger';
-import { ChallengeResponse, AntiProxyFlags, AttendanceAnalytics } from '../types/attendance';
-import { redisClient } from '../config/redis';
-import moment from 'moment';
-
-interface ProximityData {
-  rssi: number;
-  distance: number;
-  signalStrength: 'weak' | 'medium' | 'strong';
-}
-
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  accuracy: number;
-  timestamp: number;
-}
-
-interface WiFiData {
-  networks: string[];
-  count: number;
-  suspiciousNetworks: string[];
-}
-
-interface DevicePattern {
-  deviceId: string;
-  userId: string;
-  patterns: {
-    responseTimes: number[];
-    locations: LocationData[];
-    rssiValues: number[];
-    wifiNetworks: string[][];
-  };
-  riskScore: number;
+import {
+  ChallengeResponse,
+  AntiProxyFlags,
+  AttendanceSession,
+  ChallengeVerificationResult,
+  StoredAnalysis
+} from '../types/attendance';
+import { getRepositories } from '../storage';
+import { AnalysisRepository } from '../storage/types';
+import { AntiProxyFlagName, AntiProxyPolicy, ResolvedPolicy } from '../types/policy';
+import { RiskBreakdown, RiskFindings } from '../types/risk';
+import { DetectorInput, DetectorReport } from '../types/detector';
+import { BindingCheck } from '../types/device';
+import { RecordedCheckIn } from '../types/replay';
+import { roomKey } from '../utils/rooms';
+import { Detector, DetectorContext } from './detectors/types';
+import { DetectorRegistry, getDetectorRegistry } from './detectors';
+import { RiskScorer } from './riskScorer';
+
+/**
+ * What a response is analyzed against
+ */
+export interface AnalysisContext {
+  session: AttendanceSession;
+  policy: ResolvedPolicy;
+  verification?: ChallengeVerificationResult;
+  binding?: BindingCheck;
+  clientIp?: string;
+  /** When the server received the response, if not just now */
+  receivedAt?: Date;
 }
 
 export class AntiProxyService {
-  private static readonly RSSI_THRESHOLDS = {
-    VERY_WEAK: -90,
-    WEAK: -70,
-    MEDIUM: -50,
-    STRONG: -30
-  };
-
-  private static readonly RESPONSE_TIME_LIMITS = {
-    MIN_HUMAN_RESPONSE: 500, // 500ms minimum human response time
-    MAX_REASONABLE_RESPONSE: 10000, // 10s maximum reasonable response time
-    SUSPICIOUS_FAST: 200 // Under 200ms is likely automated
+  private static readonly INPUTS: Record<DetectorInput, (context: DetectorContext) => boolean> = {
+    verification: context => context.verification !== undefined,
+    timing: context => context.verification?.timing !== undefined,
+    location: context => Boolean(context.response.location),
+    binding: context => context.binding !== undefined
   };
 
-  private static readonly LOCATION_THRESHOLDS = {
-    MAX_ACCURACY_ERROR: 50, // 50m accuracy threshold
-    MIN_MOVEMENT_TIME: 30000, // 30s minimum time between significant location changes
-    SUSPICIOUS_JUMP_DISTANCE: 1000 // 1km suspicious movement distance
-  };
-
-  private static readonly WIFI_PATTERNS = {
-    MIN_EXPECTED_NETWORKS: 1,
-    MAX_REASONABLE_NETWORKS: 20,
-    SUSPICIOUS_NETWORKS: [
-      'MOCK_WIFI', 'TEST_AP', 'FAKE_NETWORK', 'EMULATOR_WIFI',
-      'SIMULATOR_AP', 'DEBUG_WIFI', 'PROXY_NETWORK'
-    ]
-  };
+  constructor(
+    private readonly analyses: AnalysisRepository = getRepositories().analyses,
+    private readonly detectors: DetectorRegistry = getDetectorRegistry()
+  ) {}
 
   /**
-   * Comprehensive anti-proxy analysis
+   * Comprehensive anti-proxy analysis, scored under the session's resolved
+   * policy. Each registered detector runs in turn; one that fails or times out
+   * is left out and the analysis marked partial.
    */
-  async analyzeResponse(response: ChallengeResponse): Promise<AntiProxyFlags> {
+  async analyzeResponse(response: ChallengeResponse, context: AnalysisContext): Promise<AntiProxyFlags> {
     try {
       logger.info(`Analyzing response for student: ${response.studentId}`);
       
-      const flags: Partial<AntiProxyFlags> = {};
-      const analysisDetails: any = {};
-
-      // 1. RSSI Analysis
-      const proximityAnalysis = this.analyzeProximity(response.rssi);
-      if (proximityAnalysis.signalStrength === 'weak') {
-        flags.weakSignal = true;
-        analysisDetails.proximity = proximityAnalysis;
-      }
-
-      // 2. Response Timing Analysis
-      const timingAnalysis = this.analyzeResponseTiming(response);
-      if (timingAnalysis.suspicious) {
-        flags.lateResponse = timingAnalysis.tooSlow;
-        flags.unusualPattern = timingAnalysis.tooFast;
-        analysisDetails.timing = timingAnalysis;
-      }
-
-      // 3. Location Analysis
-      if (response.location) {
-        const locationAnalysis = await this.analyzeLocation(response.location, response.studentId);
-        flags.invalidLocation = locationAnalysis.invalid;
-        flags.mockedLocation = locationAnalysis.mocked;
-        if (locationAnalysis.invalid || locationAnalysis.mocked) {
-          analysisDetails.location = locationAnalysis;
-        }
-      }
-
-      // 4. WiFi Environment Analysis
-      if (response.wifiNetworks && response.wifiNetworks.length > 0) {
-        const wifiAnalysis = this.analyzeWiFiEnvironment(response.wifiNetworks);
-        flags.suspiciousWifi = wifiAnalysis.suspicious;
-        if (wifiAnalysis.suspicious) {
-          analysisDetails.wifi = wifiAnalysis;
+      const { session, verification, binding, clientIp, receivedAt = new Date(), policy: resolvedPolicy } = context;
+      const { policy } = resolvedPolicy;
+      const detectorContext: DetectorContext = {
+        response,
+        session,
+        policy,
+        verification,
+        binding,
+        receivedAt,
+        verified: verification?.isValid !== false,
+        signals: {
+          rssi: response.rssi,
+          room: roomKey(session),
+          // By the server's clock when verification timed the response
+          responseTimeMs: verification?.timing
+            ? verification.timing.serverElapsedMs
+            : receivedAt.getTime() - new Date(response.respondedAt).getTime()
         }
-      }
-
-      // 5. Device Pattern Analysis
-      const deviceAnalysis = await this.analyzeDevicePattern(response);
-      flags.duplicateDevice = deviceAnalysis.duplicateDetected;
-      flags.rootedDevice = deviceAnalysis.rootedDetected;
-      if (deviceAnalysis.duplicateDetected || deviceAnalysis.rootedDetected) {
-        analysisDetails.device = deviceAnalysis;
-      }
+      };
+      const flags: Partial<AntiProxyFlags> = {};
+      const findings: RiskFindings = {};
+      const analysisDetails: any = {
+        policy: { version: resolvedPolicy.version, sessionOverride: resolvedPolicy.sessionOverride }
+      };
 
-      // 6. Behavioral Pattern Analysis
-      const behaviorAnalysis = await this.analyzeBehavioralPattern(response);
-      flags.unusualPattern = behaviorAnalysis.unusual;
-      if (behaviorAnalysis.unusual) {
-        analysisDetails.behavior = behaviorAnalysis;
+      const runs: [Detector, DetectorReport][] = [];
+      for (const detector of this.detectors.list()) {
+        const report = await this.runDetector(detector, detectorContext, flags, findings, analysisDetails);
+        runs.push([detector, report]);
       }
+      this.explainUnchecked(runs, flags, findings);
+      const reports = runs.map(([, report]) => report);
+      const partial = reports.some(report => report.status === 'failed');
 
       // Calculate overall risk score
-      const riskScore = this.calculateRiskScore(flags);
+      const breakdown = RiskScorer.explain(flags, findings, policy, resolvedPolicy.version);
+      const riskScore = breakdown.score;
       analysisDetails.riskScore = riskScore;
 
       // Store analysis for future pattern detection
-      await this.storeAnalysisData(response, flags, analysisDetails);
+      await this.storeAnalysisData(
+        response,
+        flags,
+        analysisDetails,
+        breakdown,
+        reports,
+        resolvedPolicy.version,
+        detectorContext.signals.responseTimeMs,
+        { response, session, verification, binding, clientIp, receivedAt: receivedAt.toISOString() }
+      );
+
+      for (const [detector, report] of runs) {
+        if (detector.learn && (report.status === 'fired' || report.status === 'clear')) {
+          await this.learn(detector, detectorContext, flags);
+        }
+      }
 
-      logger.info(`Anti-proxy analysis complete for ${response.studentId}. Risk score: ${riskScore}`);
+      logger.info(
+        `Anti-proxy analysis complete for ${response.studentId}. Risk score: ${riskScore}${partial ? ' (partial)' : ''}`
+      );
 
       return {
         weakSignal: flags.weakSignal || false,
@@ -141,7 +124,16 @@ export class AntiProxyService {
         rootedDevice: flags.rootedDevice || false,
         mockedLocation: flags.mockedLocation || false,
         unusualPattern: flags.unusualPattern || false,
-        details: analysisDetails
+        outsideGeofence: flags.outsideGeofence || false,
+        rssiAnomaly: flags.rssiAnomaly || false,
+        unboundDevice: flags.unboundDevice || false,
+        collusion: false,
+        clockManipulation: flags.clockManipulation || false,
+        impossibleTravel: flags.impossibleTravel || false,
+        details: analysisDetails,
+        breakdown,
+        partial,
+        detectors: reports
       };
 
     } catch (error) {
@@ -151,203 +143,123 @@ export class AntiProxyService {
   }
 
   /**
-   * Analyze Bluetooth signal strength and proximity
+   * Run one detector unless the policy disables it or the response lacks its
+   * inputs, and fold what it raised into the analysis. Only the flags it
+   * declares are taken, and a flag stays raised once any detector raises it.
    */
-  private analyzeProximity(rssi: number): ProximityData {
-    let signalStrength: 'weak' | 'medium' | 'strong';
-    
-    if (rssi <= AntiProxyService.RSSI_THRESHOLDS.WEAK) {
-      signalStrength = 'weak';
-    } else if (rssi <= AntiProxyService.RSSI_THRESHOLDS.MEDIUM) {
-      signalStrength = 'medium';
-    } else {
-      signalStrength = 'strong';
+  private async runDetector(
+    detector: Detector,
+    context: DetectorContext,
+    flags: Partial<AntiProxyFlags>,
+    findings: RiskFindings,
+    details: Record<string, unknown>
+  ): Promise<DetectorReport> {
+    const { name } = detector;
+    const startedAt = Date.now();
+    const report = (status: DetectorReport['status'], extra: Partial<DetectorReport> = {}): DetectorReport => ({
+      name,
+      status,
+      flags: [],
+      durationMs: Date.now() - startedAt,
+      ...extra
+    });
+
+    if (context.policy.detectors.disabled.includes(name)) {
+      return report('disabled');
     }
-
-    // Rough distance calculation (this is approximate)
-    const distance = Math.pow(10, (-69 - rssi) / 20);
-
-    return {
-      rssi,
-      distance,
-      signalStrength
-    };
-  }
-
-  /**
-   * Analyze response timing patterns
-   */
-  private analyzeResponseTiming(response: ChallengeResponse): any {
-    const responseTime = Date.now() - new Date(response.respondedAt).getTime();
-    
-    return {
-      responseTime,
-      tooFast: responseTime < AntiProxyService.RESPONSE_TIME_LIMITS.SUSPICIOUS_FAST,
-      tooSlow: responseTime > AntiProxyService.RESPONSE_TIME_LIMITS.MAX_REASONABLE_RESPONSE,
-      suspicious: responseTime < AntiProxyService.RESPONSE_TIME_LIMITS.MIN_HUMAN_RESPONSE ||
-                 responseTime > AntiProxyService.RESPONSE_TIME_LIMITS.MAX_REASONABLE_RESPONSE
-    };
-  }
-
-  /**
-   * Analyze GPS location for authenticity
-   */
-  private async analyzeLocation(location: any, studentId: string): Promise<any> {
-    const analysis = {
-      invalid: false,
-      mocked: false,
-      details: {} as any
-    };
-
-    // Check for obviously fake coordinates
-    if (location.latitude === 0 && location.longitude === 0) {
-      analysis.invalid = true;
-      analysis.details.reason = 'Zero coordinates';
+    const missingInputs = detector.inputs.filter(input => !AntiProxyService.INPUTS[input](context));
+    if (missingInputs.length > 0) {
+      return report('skipped', { missingInputs });
     }
 
-    // Check for unrealistic accuracy
-    if (location.accuracy && location.accuracy < 1) {
-      analysis.mocked = true;
-      analysis.details.suspiciousAccuracy = location.accuracy;
+    let result;
+    try {
+      result = await this.withTimeout(detector.detect(context), context.policy.detectors.timeoutMs, name);
+    } catch (error) {
+      logger.warn(`Detector ${name} failed for ${context.response.studentId}:`, error);
+      return report('failed', { error: error instanceof Error ? error.message : String(error) });
     }
 
-    // Check location movement patterns
-    const lastLocation = await this.getLastKnownLocation(studentId);
-    if (lastLocation) {
-      const distance = this.calculateDistance(lastLocation, location);
-      const timeDiff = location.timestamp - lastLocation.timestamp;
-      
-      if (distance > AntiProxyService.LOCATION_THRESHOLDS.SUSPICIOUS_JUMP_DISTANCE &&
-          timeDiff < AntiProxyService.LOCATION_THRESHOLDS.MIN_MOVEMENT_TIME) {
-        analysis.invalid = true;
-        analysis.details.suspiciousMovement = { distance, timeDiff };
+    const raised: AntiProxyFlagName[] = [];
+    for (const flag of detector.flags) {
+      const value = result.flags[flag];
+      if (value === undefined) {
+        continue;
+      }
+      flags[flag] = flags[flag] || value;
+      if (value) {
+        raised.push(flag);
+        findings[flag] = this.mergeFinding(findings[flag], result.findings?.[flag]);
       }
     }
+    if (result.details !== undefined) {
+      details[name] = result.details;
+    }
 
-    // Store current location for future analysis
-    await this.storeLocation(studentId, location);
-
-    return analysis;
+    return report(raised.length > 0 ? 'fired' : 'clear', { flags: raised });
   }
 
   /**
-   * Analyze WiFi environment for proxy detection
+   * Several detectors may raise the same flag; its reasons are listed together
    */
-  private analyzeWiFiEnvironment(networks: string[]): any {
-    const analysis = {
-      suspicious: false,
-      networkCount: networks.length,
-      suspiciousNetworks: [] as string[],
-      details: {} as any
-    };
-
-    // Check network count
-    if (networks.length < AntiProxyService.WIFI_PATTERNS.MIN_EXPECTED_NETWORKS ||
-        networks.length > AntiProxyService.WIFI_PATTERNS.MAX_REASONABLE_NETWORKS) {
-      analysis.suspicious = true;
-      analysis.details.unusualNetworkCount = networks.length;
+  private mergeFinding(existing: RiskFindings[AntiProxyFlagName], added: RiskFindings[AntiProxyFlagName]) {
+    if (!existing || !added) {
+      return existing || added;
     }
-
-    // Check for suspicious network names
-    for (const network of networks) {
-      for (const suspicious of AntiProxyService.WIFI_PATTERNS.SUSPICIOUS_NETWORKS) {
-        if (network.toUpperCase().includes(suspicious)) {
-          analysis.suspicious = true;
-          analysis.suspiciousNetworks.push(network);
-        }
-      }
-    }
-
-    return analysis;
+    return {
+      reason: `${existing.reason}; ${added.reason}`,
+      evidence: { ...existing.evidence, ...added.evidence }
+    };
   }
 
   /**
-   * Analyze device patterns for duplicates and tampering
+   * Say why flags no detector got to decide on were not raised
    */
-  private async analyzeDevicePattern(response: ChallengeResponse): Promise<any> {
-    const analysis = {
-      duplicateDetected: false,
-      rootedDetected: false,
-      details: {} as any
-    };
-
-    // Check for duplicate device usage
-    const deviceUsage = await this.getDeviceUsagePattern(response.deviceContext.deviceId);
-    if (deviceUsage && deviceUsage.userIds.length > 1) {
-      analysis.duplicateDetected = true;
-      analysis.details.multipleUsers = deviceUsage.userIds;
-    }
-
-    // Check for rooted/jailbroken device indicators
-    if (response.deviceContext.securityFlags) {
-      const flags = response.deviceContext.securityFlags;
-      if (flags.includes('rooted') || flags.includes('jailbroken') || flags.includes('emulator')) {
-        analysis.rootedDetected = true;
-        analysis.details.securityFlags = flags;
+  private explainUnchecked(
+    runs: [Detector, DetectorReport][],
+    flags: Partial<AntiProxyFlags>,
+    findings: RiskFindings
+  ): void {
+    for (const [detector, report] of runs) {
+      const why = report.status === 'disabled'
+        ? `the ${detector.name} detector is disabled`
+        : report.status === 'skipped'
+          ? `the response has no ${report.missingInputs!.join(' or ')}`
+          : report.status === 'failed'
+            ? `the ${detector.name} detector failed`
+            : undefined;
+      if (!why) {
+        continue;
+      }
+      for (const flag of detector.flags) {
+        if (flags[flag] === undefined && !findings[flag]) {
+          findings[flag] = { reason: `${RiskScorer.FLAG_LABELS[flag]}: not checked, ${why}`, evidence: {} };
+        }
       }
     }
-
-    return analysis;
   }
 
   /**
-   * Analyze behavioral patterns
+   * A detector that fails to learn from a check-in leaves the analysis as it is
    */
-  private async analyzeBehavioralPattern(response: ChallengeResponse): Promise<any> {
-    const pattern = await this.getUserBehaviorPattern(response.studentId);
-    
-    if (!pattern) {
-      return { unusual: false };
-    }
-
-    const analysis = {
-      unusual: false,
-      details: {} as any
-    };
-
-    // Analyze response time patterns
-    const avgResponseTime = pattern.responseTime.average;
-    const currentResponseTime = Date.now() - new Date(response.respondedAt).getTime();
-    
-    if (Math.abs(currentResponseTime - avgResponseTime) > (avgResponseTime * 0.5)) {
-      analysis.unusual = true;
-      analysis.details.responseTimeDeviation = {
-        current: currentResponseTime,
-        average: avgResponseTime,
-        deviation: Math.abs(currentResponseTime - avgResponseTime)
-      };
+  private async learn(detector: Detector, context: DetectorContext, flags: Partial<AntiProxyFlags>): Promise<void> {
+    try {
+      await this.withTimeout(detector.learn!(context, flags), context.policy.detectors.timeoutMs, detector.name);
+    } catch (error) {
+      logger.warn(`Detector ${detector.name} failed to learn from ${context.response.studentId}:`, error);
     }
-
-    return analysis;
   }
 
   /**
-   * Calculate overall risk score
+   * Stop waiting for a detector after the timeout. The detector itself cannot
+   * be cancelled, but its late result is ignored.
    */
-  private calculateRiskScore(flags: Partial<AntiProxyFlags>): number {
-    const weights = {
-      weakSignal: 0.2,
-      duplicateDevice: 0.3,
-      invalidLocation: 0.25,
-      suspiciousWifi: 0.15,
-      lateResponse: 0.1,
-      invalidChallenge: 0.4,
-      rootedDevice: 0.35,
-      mockedLocation: 0.3,
-      unusualPattern: 0.2
-    };
-
-    let totalScore = 0;
-    let totalWeight = 0;
-
-    for (const [flag, weight] of Object.entries(weights)) {
-      if (flags[flag as keyof AntiProxyFlags]) {
-        totalScore += weight;
-      }
-      totalWeight += weight;
-    }
-
-    return Math.min(totalScore / totalWeight * 100, 100);
+  private withTimeout<T>(work: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Detector ${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
   }
 
   /**
@@ -356,71 +268,43 @@ export class AntiProxyService {
   private async storeAnalysisData(
     response: ChallengeResponse,
     flags: Partial<AntiProxyFlags>,
-    details: any
+    details: any,
+    breakdown: RiskBreakdown,
+    detectors: DetectorReport[],
+    policyVersion: number,
+    responseTime: number,
+    checkIn: RecordedCheckIn
   ): Promise<void> {
-    const analysisData = {
+    const analysisData: StoredAnalysis = {
       studentId: response.studentId,
       sessionId: response.sessionId,
       timestamp: Date.now(),
       flags,
       details,
+      breakdown,
+      detectors,
+      policyVersion,
       response: {
+        deviceId: response.deviceContext.deviceId,
+        deviceFingerprint: response.deviceContext.deviceFingerprint,
+        ip: checkIn.clientIp,
         rssi: response.rssi,
-        responseTime: Date.now() - new Date(response.respondedAt).getTime(),
+        responseTime,
         location: response.location,
-        wifiNetworks: response.wifiNetworks
-      }
+        wifiNetworks: response.wifiNetworks,
+        wifiScan: response.wifiScan
+      },
+      checkIn
     };
 
-    const key = `analysis:${response.studentId}:${Date.now()}`;
-    await redisClient.setex(key, 86400 * 7, JSON.stringify(analysisData)); // Store for 7 days
+    await this.analyses.save(analysisData);
   }
 
   /**
-   * Helper methods for data retrieval and storage
+   * Generate anti-proxy report for session. Risk is bucketed by the policy's
+   * decision bands: low is accepted, medium reviewed, high rejected.
    */
-  private async getLastKnownLocation(studentId: string): Promise<LocationData | null> {
-    const key = `location:${studentId}:last`;
-    const data = await redisClient.get(key);
-    return data ? JSON.parse(data) : null;
-  }
-
-  private async storeLocation(studentId: string, location: LocationData): Promise<void> {
-    const key = `location:${studentId}:last`;
-    await redisClient.setex(key, 3600, JSON.stringify(location)); // Store for 1 hour
-  }
-
-  private calculateDistance(loc1: LocationData, loc2: LocationData): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = loc1.latitude * Math.PI / 180;
-    const φ2 = loc2.latitude * Math.PI / 180;
-    const Δφ = (loc2.latitude - loc1.latitude) * Math.PI / 180;
-    const Δλ = (loc2.longitude - loc1.longitude) * Math.PI / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  }
-
-  private async getDeviceUsagePattern(deviceId: string): Promise<any> {
-    const key = `device:${deviceId}:usage`;
-    const data = await redisClient.get(key);
-    return data ? JSON.parse(data) : null;
-  }
-
-  private async getUserBehaviorPattern(studentId: string): Promise<any> {
-    const key = `behavior:${studentId}:pattern`;
-    const data = await redisClient.get(key);
-    return data ? JSON.parse(data) : null;
-  }
-
-  /**
-   * Generate anti-proxy report for session
-   */
-  async generateSessionReport(sessionId: string): Promise<any> {
+  async generateSessionReport(sessionId: string, policy: AntiProxyPolicy): Promise<any> {
     const analyses = await this.getSessionAnalyses(sessionId);
     
     const report = {
@@ -439,8 +323,8 @@ export class AntiProxyService {
     // Analyze risk distribution
     for (const analysis of analyses) {
       const risk = analysis.details.riskScore || 0;
-      if (risk < 30) report.riskDistribution.low++;
-      else if (risk < 70) report.riskDistribution.medium++;
+      if (risk < policy.decision.acceptBelow) report.riskDistribution.low++;
+      else if (risk < policy.decision.rejectFrom) report.riskDistribution.medium++;
       else report.riskDistribution.high++;
     }
 
@@ -467,22 +351,8 @@ export class AntiProxyService {
     return report;
   }
 
-  private async getSessionAnalyses(sessionId: string): Promise<any[]> {
-    const pattern = `analysis:*:*`;
-    const keys = await redisClient.keys(pattern);
-    const analyses = [];
-
-    for (const key of keys) {
-      const data = await redisClient.get(key);
-      if (data) {
-        const analysis = JSON.parse(data);
-        if (analysis.sessionId === sessionId) {
-          analyses.push(analysis);
-        }
-      }
-    }
-
-    return analyses;
+  private getSessionAnalyses(sessionId: string): Promise<StoredAnalysis[]> {
+    return this.analyses.listBySession(sessionId);
   }
 
   private hasSuspiciousFlags(flags: Partial<AntiProxyFlags>): boolean {
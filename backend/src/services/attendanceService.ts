@@ -0,0 +1,346 @@
+import { logger } from '../utils/logger';
+import { getRepositories } from '../storage';
+import { AttendanceRecordRepository } from '../storage/types';
+import { NotFoundError } from '../utils/errors';
+import { emitToSession } from '../websocket/socketHandler';
+import {
+  AntiProxyFlags,
+  AttendanceAttempt,
+  AttendanceSession,
+  AttendanceRecord,
+  AttendanceStatus,
+  ChallengeResponse,
+  ChallengeVerificationResult
+} from '../types/attendance';
+import { RiskBreakdown } from '../types/risk';
+import { AttendanceDecision } from '../types/decision';
+import { AntiProxyFlagName } from '../types/policy';
+import { RiskScorer } from './riskScorer';
+
+export interface OverrideInput {
+  status: AttendanceStatus;
+  reason: string;
+  overrideByUserId: string;
+}
+
+/**
+ * A recorded response and whether it made the record, or was only logged as an attempt
+ */
+export interface RecordedResponse {
+  record: AttendanceRecord;
+  applied: boolean;
+}
+
+export class AttendanceService {
+  private static readonly ACCEPTED: AttendanceStatus[] = ['present', 'late'];
+  private static readonly MAX_ATTEMPTS = 20; // Per record, newest kept
+
+  constructor(private readonly records: AttendanceRecordRepository = getRepositories().records) {}
+
+  /**
+   * Create or refresh a student's record from an analyzed challenge response,
+   * with the status the decision stage chose. Records that were manually
+   * overridden are left untouched, and a response that may not replace the
+   * record (see replaces) is logged on it as an attempt instead. A record that
+   * is replaced is kept among the attempts, so a flagged check-in cannot be
+   * cleared from the audit trail by resubmitting.
+   */
+  async recordResponse(
+    session: AttendanceSession,
+    response: ChallengeResponse,
+    verification: ChallengeVerificationResult,
+    flags: AntiProxyFlags,
+    decision: AttendanceDecision
+  ): Promise<RecordedResponse> {
+    const existing = await this.records.get(response.sessionId, response.studentId);
+    if (existing?.manualOverride) {
+      logger.info(`Keeping manual override for ${response.studentId} in session ${response.sessionId}`);
+      return { record: existing, applied: false };
+    }
+
+    const suspiciousFlags = this.suspiciousFlagNames(flags);
+    if (existing && !this.replaces(existing, verification)) {
+      logger.warn(
+        `Keeping ${existing.status} record for ${response.studentId} in session ${response.sessionId}; ` +
+        `logged the ${decision.status} resubmission as an attempt`
+      );
+      const attempt: AttendanceAttempt = {
+        timestamp: new Date().toISOString(),
+        isValid: verification.isValid,
+        errorReason: verification.errorReason,
+        suspiciousFlags,
+        decision
+      };
+      return { record: await this.logAttempt(existing, attempt), applied: false };
+    }
+
+    const record: AttendanceRecord = {
+      studentId: response.studentId,
+      sessionId: response.sessionId,
+      institutionId: session.institutionId,
+      status: decision.status,
+      timestamp: new Date().toISOString(),
+      rssi: response.rssi,
+      gpsLocation: response.location,
+      wifiNetworks: response.wifiNetworks,
+      wifiScan: response.wifiScan,
+      challengeResponse: response.signedResponse,
+      faceToken: response.faceToken,
+      antiProxyData: {
+        flags,
+        verification: {
+          isValid: verification.isValid,
+          errorReason: verification.errorReason,
+          responseLatencyMs: verification.responseLatencyMs
+        }
+      },
+      suspiciousFlags,
+      decision,
+      attempts: existing
+        ? [...(existing.attempts || []), this.replacedAttempt(existing)].slice(-AttendanceService.MAX_ATTEMPTS)
+        : undefined
+    };
+
+    await this.records.save(record);
+    this.announce(record);
+    return { record, applied: true };
+  }
+
+  async getRecord(sessionId: string, studentId: string): Promise<AttendanceRecord> {
+    const record = await this.records.get(sessionId, studentId);
+    if (!record) {
+      throw new NotFoundError('Attendance record not found', { sessionId, studentId });
+    }
+    return record;
+  }
+
+  async listBySession(sessionId: string, status?: AttendanceStatus): Promise<AttendanceRecord[]> {
+    return this.records.list({ sessionIds: [sessionId], status });
+  }
+
+  async listByStudent(
+    studentId: string,
+    institutionId: string,
+    status?: AttendanceStatus
+  ): Promise<AttendanceRecord[]> {
+    return this.records.list({ studentId, institutionId, status });
+  }
+
+  /**
+   * An institution's most recent records with the given status across all sessions
+   */
+  async listRecentByStatus(
+    institutionId: string,
+    status: AttendanceStatus,
+    limit: number
+  ): Promise<AttendanceRecord[]> {
+    return this.records.list({ institutionId, status, limit });
+  }
+
+  /**
+   * Records for several sessions at once
+   */
+  async listBySessions(sessionIds: string[]): Promise<AttendanceRecord[]> {
+    return this.records.list({ sessionIds });
+  }
+
+  /**
+   * Manually set a record's status. The anti-proxy verdict (antiProxyData,
+   * suspiciousFlags and the first automatic status) is kept alongside it.
+   */
+  async overrideRecord(sessionId: string, studentId: string, input: OverrideInput): Promise<AttendanceRecord> {
+    const record = await this.records.update(sessionId, studentId, (current) => {
+      if (!current) {
+        throw new NotFoundError('Attendance record not found', { sessionId, studentId });
+      }
+
+      return {
+        ...current,
+        status: input.status,
+        manualOverride: true,
+        overrideReason: input.reason,
+        overrideByUserId: input.overrideByUserId,
+        overriddenAt: new Date().toISOString(),
+        originalStatus: current.originalStatus ?? current.status
+      };
+    });
+
+    logger.info(
+      `Attendance for ${studentId} in session ${sessionId} overridden to ${input.status} by ${input.overrideByUserId}`
+    );
+    this.announce(record);
+    return record;
+  }
+
+  /**
+   * Link a record to the session's collusion findings with its re-explained
+   * risk and the decision made from it. Records nobody has overridden take
+   * the decision's status.
+   */
+  async markCollusion(
+    sessionId: string,
+    studentId: string,
+    findingIds: string[],
+    breakdown: RiskBreakdown,
+    decision: AttendanceDecision
+  ): Promise<AttendanceRecord> {
+    return this.markFlag(sessionId, studentId, 'collusion', breakdown, decision, () => ({
+      collusionFindingIds: findingIds
+    }));
+  }
+
+  /**
+   * Drop a collusion flag that a later pass over the session no longer backs,
+   * with the risk and decision re-explained without it
+   */
+  async clearCollusion(
+    sessionId: string,
+    studentId: string,
+    breakdown: RiskBreakdown,
+    decision: AttendanceDecision
+  ): Promise<AttendanceRecord> {
+    const record = await this.records.update(sessionId, studentId, (current) => {
+      if (!current) {
+        throw new NotFoundError('Attendance record not found', { sessionId, studentId });
+      }
+
+      const flags = current.antiProxyData.flags || {};
+      return {
+        ...current,
+        collusionFindingIds: [],
+        status: current.manualOverride ? current.status : decision.status,
+        suspiciousFlags: (current.suspiciousFlags || []).filter(flag => flag !== 'collusion'),
+        decision,
+        antiProxyData: {
+          ...current.antiProxyData,
+          flags: {
+            ...flags,
+            collusion: false,
+            details: { ...flags.details, riskScore: breakdown.score },
+            breakdown
+          }
+        }
+      };
+    });
+
+    this.announce(record);
+    return record;
+  }
+
+  /**
+   * Link a record to impossible-travel findings, keeping those it already had,
+   * with its re-explained risk and decision as for collusion
+   */
+  async markImpossibleTravel(
+    sessionId: string,
+    studentId: string,
+    findingIds: string[],
+    breakdown: RiskBreakdown,
+    decision: AttendanceDecision
+  ): Promise<AttendanceRecord> {
+    return this.markFlag(sessionId, studentId, 'impossibleTravel', breakdown, decision, current => ({
+      travelFindingIds: [...new Set([...(current.travelFindingIds || []), ...findingIds])]
+    }));
+  }
+
+  /**
+   * Raise a flag a cross-check found after the record was made
+   */
+  private async markFlag(
+    sessionId: string,
+    studentId: string,
+    flag: AntiProxyFlagName,
+    breakdown: RiskBreakdown,
+    decision: AttendanceDecision,
+    links: (current: AttendanceRecord) => Partial<AttendanceRecord>
+  ): Promise<AttendanceRecord> {
+    const record = await this.records.update(sessionId, studentId, (current) => {
+      if (!current) {
+        throw new NotFoundError('Attendance record not found', { sessionId, studentId });
+      }
+
+      const flags = current.antiProxyData.flags || {};
+      return {
+        ...current,
+        ...links(current),
+        status: current.manualOverride ? current.status : decision.status,
+        suspiciousFlags: [...new Set([...(current.suspiciousFlags || []), flag])],
+        decision,
+        antiProxyData: {
+          ...current.antiProxyData,
+          flags: {
+            ...flags,
+            [flag]: true,
+            details: { ...flags.details, riskScore: breakdown.score },
+            breakdown
+          }
+        }
+      };
+    });
+
+    this.announce(record);
+    return record;
+  }
+
+  /**
+   * An accepted record stands, and a verified response's record is not
+   * replaced by one that failed verification, such as a replay of it
+   */
+  private replaces(existing: AttendanceRecord, verification: ChallengeVerificationResult): boolean {
+    if (AttendanceService.ACCEPTED.includes(existing.status)) {
+      return false;
+    }
+    return verification.isValid || existing.antiProxyData.verification?.isValid !== true;
+  }
+
+  private replacedAttempt(record: AttendanceRecord): AttendanceAttempt {
+    return {
+      timestamp: record.timestamp,
+      isValid: record.antiProxyData.verification?.isValid === true,
+      errorReason: record.antiProxyData.verification?.errorReason,
+      suspiciousFlags: record.suspiciousFlags || [],
+      decision: record.decision,
+      replaced: true,
+      antiProxyData: record.antiProxyData
+    };
+  }
+
+  private async logAttempt(existing: AttendanceRecord, attempt: AttendanceAttempt): Promise<AttendanceRecord> {
+    return this.records.update(existing.sessionId, existing.studentId, current => {
+      const record = current || existing;
+      return {
+        ...record,
+        attempts: [...(record.attempts || []), attempt].slice(-AttendanceService.MAX_ATTEMPTS)
+      };
+    });
+  }
+
+  /**
+   * Push the record's new state to clients watching the session
+   */
+  private announce(record: AttendanceRecord): void {
+    emitToSession(record.sessionId, 'attendance:marked', {
+      sessionId: record.sessionId,
+      studentId: record.studentId,
+      status: record.status,
+      manualOverride: record.manualOverride === true,
+      timestamp: record.timestamp
+    });
+
+    if (record.status === 'flagged') {
+      emitToSession(record.sessionId, 'record:flagged', {
+        sessionId: record.sessionId,
+        studentId: record.studentId,
+        suspiciousFlags: record.suspiciousFlags || [],
+        riskScore: record.antiProxyData.flags?.details?.riskScore ?? 0,
+        timestamp: record.timestamp
+      });
+    }
+  }
+
+  private suspiciousFlagNames(flags: AntiProxyFlags): string[] {
+    return Object.entries(flags)
+      .filter(([name, value]) => name in RiskScorer.FLAG_LABELS && value === true)
+      .map(([name]) => name);
+  }
+}
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import { getAuth } from 'firebase-admin/auth';
+import { logger } from '../utils/logger';
+import { UnauthorizedError } from '../utils/errors';
+import { UserService } from './userService';
+import { getRepositories } from '../storage';
+import { AuthProvider, getAuthProvider } from '../config/auth';
+import { KeyValueRepository } from '../storage/types';
+import { User, UserRole } from '../types/attendance';
+import { AuthTokens, AuthUser } from '../types/auth';
+
+interface AccessTokenClaims {
+  sub: string;
+  role: UserRole;
+  institutionId: string;
+}
+
+export class AuthService {
+  private static readonly ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+  private static readonly REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+  private static readonly ISSUER = 'attendance-backend';
+
+  constructor(
+    private readonly userService = new UserService(),
+    private readonly cache: KeyValueRepository = getRepositories().cache,
+    private readonly jwtSecret: string | undefined = process.env.JWT_SECRET,
+    readonly provider: AuthProvider = getAuthProvider()
+  ) {}
+
+  /**
+   * Exchange a Firebase Auth ID token for backend access and refresh tokens
+   */
+  async login(idToken: string): Promise<AuthTokens> {
+    this.assertProvider('firebase');
+
+    let uid: string;
+    try {
+      ({ uid } = await getAuth().verifyIdToken(idToken));
+    } catch (error) {
+      logger.warn('Rejected Firebase ID token:', error);
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    const user = await this.loadActiveUser(uid);
+    await this.userService.recordLogin(user.id);
+
+    logger.info(`User ${user.id} logged in as ${user.role}`);
+    return this.issueTokens(user);
+  }
+
+  /**
+   * Exchange an email and password, checked against the user's stored hash,
+   * for backend tokens. Unknown emails and wrong passwords look the same.
+   */
+  async loginWithPassword(email: string, password: string): Promise<AuthTokens> {
+    this.assertProvider('local');
+
+    const found = await this.userService.findByEmail(email);
+    if (!found?.passwordHash || !(await bcrypt.compare(password, found.passwordHash))) {
+      logger.warn(`Rejected password login for ${email}`);
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    const user = await this.loadActiveUser(found.id);
+    await this.userService.recordLogin(user.id);
+
+    logger.info(`User ${user.id} logged in as ${user.role} with a password`);
+    return this.issueTokens(user);
+  }
+
+  /**
+   * Trade a refresh token for a new token pair. Refresh tokens are single-use.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const key = this.refreshKey(refreshToken);
+    const userId = await this.cache.get<string>(key);
+    if (!userId) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
+
+    await this.cache.delete(key);
+    const user = await this.loadActiveUser(userId);
+    return this.issueTokens(user);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    await this.cache.delete(this.refreshKey(refreshToken));
+  }
+
+  verifyAccessToken(token: string): AuthUser {
+    try {
+      const claims = jwt.verify(token, this.secret(), { issuer: AuthService.ISSUER }) as AccessTokenClaims;
+      return { id: claims.sub, role: claims.role, institutionId: claims.institutionId };
+    } catch {
+      throw new UnauthorizedError('Invalid or expired access token');
+    }
+  }
+
+  private async issueTokens(user: User): Promise<AuthTokens> {
+    const authUser: AuthUser = { id: user.id, role: user.role, institutionId: user.institutionId };
+
+    const accessToken = jwt.sign(
+      { role: authUser.role, institutionId: authUser.institutionId },
+      this.secret(),
+      { subject: authUser.id, issuer: AuthService.ISSUER, expiresIn: AuthService.ACCESS_TOKEN_TTL_SECONDS }
+    );
+
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    await this.cache.set(this.refreshKey(refreshToken), authUser.id, AuthService.REFRESH_TOKEN_TTL_MS);
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: AuthService.ACCESS_TOKEN_TTL_SECONDS,
+      user: authUser
+    };
+  }
+
+  private assertProvider(provider: AuthProvider): void {
+    if (this.provider !== provider) {
+      throw new UnauthorizedError(`Sign-in with ${provider === 'local' ? 'a password' : 'Firebase'} is not enabled`);
+    }
+  }
+
+  private async loadActiveUser(userId: string): Promise<User> {
+    let user: User;
+    try {
+      user = await this.userService.getUser(userId);
+    } catch {
+      throw new UnauthorizedError('No profile for this account');
+    }
+
+    if (user.isActive === false) {
+      throw new UnauthorizedError('Account is disabled');
+    }
+    return user;
+  }
+
+  /**
+   * Only a hash of each refresh token is stored
+   */
+  private refreshKey(refreshToken: string): string {
+    const hash = crypto.createHash('sha256').update(refreshToken).digest('hex');
+    return `auth:refresh:${hash}`;
+  }
+
+  private secret(): string {
+    if (!this.jwtSecret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+    return this.jwtSecret;
+  }
+}
@@ -0,0 +1,168 @@
+import { getRepositories } from '../storage';
+import { KeyValueRepository } from '../storage/types';
+import { AntiProxyPolicy } from '../types/policy';
+
+export type BehaviorFeature = 'responseTimeMs' | 'rssi' | 'wifiSimilarity' | 'checkInOffsetMinutes';
+
+/**
+ * What one check-in looked like, as far as the baseline is concerned
+ */
+export interface BehaviorObservation {
+  responseTimeMs: number;
+  rssi: number;
+  room: string;
+  /** Only known once the room's WiFi fingerprint is established */
+  wifiSimilarity?: number;
+  /** Minutes between the session's start and the server receiving the response */
+  checkInOffsetMinutes: number;
+}
+
+interface FeatureStats {
+  mean: number;
+  variance: number;
+}
+
+interface BehaviorBaseline {
+  studentId: string;
+  samples: number;
+  features: Partial<Record<BehaviorFeature, FeatureStats>>;
+  /** Smoothed share of check-ins made from each room */
+  rooms: Record<string, number>;
+  updatedAt: string;
+}
+
+export interface BehaviorDeviation {
+  feature: BehaviorFeature | 'room';
+  value: number | string;
+  mean?: number;
+  stdDev?: number;
+  zScore?: number;
+  /** For rooms: how often the student checks in from this one */
+  frequency?: number;
+}
+
+export interface BehaviorAnalysis {
+  unusual: boolean;
+  samples: number;
+  deviations: BehaviorDeviation[];
+}
+
+/**
+ * Exponentially weighted per-student baselines of how their check-ins usually look
+ */
+export class BehaviorBaselineService {
+  /**
+   * Smallest standard deviation each feature is judged with, so a student
+   * whose history happens to be very consistent is not flagged for noise
+   */
+  private static readonly MIN_STD_DEV: Record<BehaviorFeature, number> = {
+    responseTimeMs: 250,
+    rssi: 3,
+    wifiSimilarity: 0.05,
+    checkInOffsetMinutes: 2
+  };
+  private static readonly MIN_ROOM_SHARE = 0.01; // Rooms visited less often than this are forgotten
+
+  constructor(private readonly patterns: KeyValueRepository = getRepositories().patterns) {}
+
+  /**
+   * Compare a check-in with the student's baseline. Nothing is unusual until
+   * the baseline has enough samples.
+   */
+  async evaluate(
+    studentId: string,
+    observation: BehaviorObservation,
+    thresholds: AntiProxyPolicy['behavior']
+  ): Promise<BehaviorAnalysis> {
+    const baseline = await this.getBaseline(studentId);
+    if (!baseline || baseline.samples < thresholds.minSamples) {
+      return { unusual: false, samples: baseline?.samples || 0, deviations: [] };
+    }
+
+    const deviations: BehaviorDeviation[] = [];
+    for (const [feature, value] of this.numericFeatures(observation)) {
+      const stats = baseline.features[feature];
+      if (!stats) {
+        continue;
+      }
+      const stdDev = Math.max(Math.sqrt(stats.variance), BehaviorBaselineService.MIN_STD_DEV[feature]);
+      const zScore = (value - stats.mean) / stdDev;
+      if (Math.abs(zScore) > thresholds.zScoreThreshold) {
+        deviations.push({ feature, value, mean: stats.mean, stdDev, zScore });
+      }
+    }
+
+    const roomShare = baseline.rooms[observation.room] || 0;
+    if (roomShare < thresholds.minRoomFrequency) {
+      deviations.push({ feature: 'room', value: observation.room, frequency: roomShare });
+    }
+
+    return { unusual: deviations.length > 0, samples: baseline.samples, deviations };
+  }
+
+  /**
+   * Fold a check-in into the student's baseline. Early samples are averaged
+   * evenly; after that each one weighs smoothingAlpha.
+   */
+  async update(
+    studentId: string,
+    observation: BehaviorObservation,
+    thresholds: AntiProxyPolicy['behavior']
+  ): Promise<void> {
+    const baseline = (await this.getBaseline(studentId)) || this.emptyBaseline(studentId);
+    const alpha = Math.max(thresholds.smoothingAlpha, 1 / (baseline.samples + 1));
+
+    for (const [feature, value] of this.numericFeatures(observation)) {
+      const stats = baseline.features[feature];
+      if (!stats) {
+        baseline.features[feature] = { mean: value, variance: 0 };
+        continue;
+      }
+      const delta = value - stats.mean;
+      stats.mean += alpha * delta;
+      stats.variance = (1 - alpha) * (stats.variance + alpha * delta * delta);
+    }
+
+    for (const room of new Set([...Object.keys(baseline.rooms), observation.room])) {
+      const current = baseline.rooms[room] || 0;
+      const share = current + alpha * ((room === observation.room ? 1 : 0) - current);
+      if (share < BehaviorBaselineService.MIN_ROOM_SHARE) {
+        delete baseline.rooms[room];
+      } else {
+        baseline.rooms[room] = share;
+      }
+    }
+
+    baseline.samples += 1;
+    baseline.updatedAt = new Date().toISOString();
+    await this.patterns.set(this.key(studentId), baseline);
+  }
+
+  private numericFeatures(observation: BehaviorObservation): [BehaviorFeature, number][] {
+    const features: [BehaviorFeature, number | undefined][] = [
+      ['responseTimeMs', observation.responseTimeMs],
+      ['rssi', observation.rssi],
+      ['wifiSimilarity', observation.wifiSimilarity],
+      ['checkInOffsetMinutes', observation.checkInOffsetMinutes]
+    ];
+    return features.filter((entry): entry is [BehaviorFeature, number] => Number.isFinite(entry[1]));
+  }
+
+  private getBaseline(studentId: string): Promise<BehaviorBaseline | null> {
+    return this.patterns.get<BehaviorBaseline>(this.key(studentId));
+  }
+
+  private emptyBaseline(studentId: string): BehaviorBaseline {
+    return {
+      studentId,
+      samples: 0,
+      features: {},
+      rooms: {},
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private key(studentId: string): string {
+    return `behavior:${studentId}:pattern`;
+  }
+}
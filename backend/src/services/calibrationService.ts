@@ -0,0 +1,173 @@
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { roomKey } from '../utils/rooms';
+import { getRepositories } from '../storage';
+import { KeyValueRepository } from '../storage/types';
+import { AttendanceSession, DeviceContext } from '../types/attendance';
+import { CalibrationProfile, CalibrationReading, DistanceEstimate } from '../types/calibration';
+
+type DeviceModel = Pick<DeviceContext, 'manufacturer' | 'model'>;
+
+export interface CalibrateRoomInput {
+  device?: DeviceModel;
+  /** Readings at known distances to fit the model from */
+  readings?: CalibrationReading[];
+  /** Or the model's parameters, measured elsewhere */
+  measuredPower?: number;
+  pathLossExponent?: number;
+  calibratedBy: string;
+}
+
+/**
+ * Per-room (and per device model) RSSI-to-distance calibration
+ */
+export class CalibrationService {
+  private static readonly ANY_MODEL = '*';
+  private static readonly DEFAULT_MEASURED_POWER = -69; // Typical phone advertisement 1m away
+  private static readonly DEFAULT_PATH_LOSS_EXPONENT = 2; // Free space
+  static readonly MIN_PATH_LOSS_EXPONENT = 1;
+  static readonly MAX_PATH_LOSS_EXPONENT = 6;
+
+  constructor(private readonly patterns: KeyValueRepository = getRepositories().patterns) {}
+
+  /**
+   * Normalized manufacturer and model, or null when the device did not report one
+   */
+  static deviceModelKey(device?: DeviceModel): string | null {
+    const key = [device?.manufacturer, device?.model]
+      .filter(Boolean)
+      .join(' ')
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, ' ');
+    return key || null;
+  }
+
+  async listProfiles(session: AttendanceSession): Promise<CalibrationProfile[]> {
+    return Object.values(await this.getRoomProfiles(roomKey(session)));
+  }
+
+  /**
+   * Save the room's profile for a device model, or for any device when none is given
+   */
+  async calibrate(session: AttendanceSession, input: CalibrateRoomInput): Promise<CalibrationProfile> {
+    const room = roomKey(session);
+    const deviceModel = CalibrationService.deviceModelKey(input.device) || CalibrationService.ANY_MODEL;
+
+    const fitted = input.readings && input.readings.length > 0
+      ? this.fit(input.readings)
+      : { measuredPower: input.measuredPower, pathLossExponent: input.pathLossExponent, samples: 0 };
+    this.assertValid(fitted);
+
+    const profile: CalibrationProfile = {
+      roomKey: room,
+      deviceModel,
+      measuredPower: fitted.measuredPower as number,
+      pathLossExponent: fitted.pathLossExponent as number,
+      samples: fitted.samples,
+      calibratedBy: input.calibratedBy,
+      calibratedAt: new Date().toISOString()
+    };
+
+    const profiles = await this.getRoomProfiles(room);
+    profiles[deviceModel] = profile;
+    await this.patterns.set(this.key(room), profiles);
+
+    logger.info(
+      `Calibrated room ${room} for ${deviceModel}: ` +
+      `${profile.measuredPower.toFixed(1)} dBm at 1m, exponent ${profile.pathLossExponent.toFixed(2)}`
+    );
+    return profile;
+  }
+
+  async removeProfile(session: AttendanceSession, device?: DeviceModel): Promise<void> {
+    const room = roomKey(session);
+    const deviceModel = CalibrationService.deviceModelKey(device) || CalibrationService.ANY_MODEL;
+
+    const profiles = await this.getRoomProfiles(room);
+    if (!profiles[deviceModel]) {
+      throw new NotFoundError('Calibration profile not found', { roomKey: room, deviceModel });
+    }
+    delete profiles[deviceModel];
+    await this.patterns.set(this.key(room), profiles);
+  }
+
+  /**
+   * Estimate how far a device is from the instructor, using the most specific
+   * profile available: the room's for this device model, then the room's for
+   * any device, then uncalibrated defaults
+   */
+  async estimateDistance(session: AttendanceSession, device: DeviceModel, rssi: number): Promise<DistanceEstimate> {
+    const profiles = await this.getRoomProfiles(roomKey(session));
+    const deviceModel = CalibrationService.deviceModelKey(device);
+
+    const specific = deviceModel ? profiles[deviceModel] : undefined;
+    const room = profiles[CalibrationService.ANY_MODEL];
+    const profile = specific || room;
+
+    const measuredPower = profile?.measuredPower ?? CalibrationService.DEFAULT_MEASURED_POWER;
+    const pathLossExponent = profile?.pathLossExponent ?? CalibrationService.DEFAULT_PATH_LOSS_EXPONENT;
+
+    return {
+      distanceMeters: Math.pow(10, (measuredPower - rssi) / (10 * pathLossExponent)),
+      source: specific ? 'room-device' : room ? 'room' : 'default',
+      measuredPower,
+      pathLossExponent
+    };
+  }
+
+  /**
+   * Least-squares fit of rssi against log10(distance). The intercept is the
+   * power at 1m and the slope is -10 times the path loss exponent.
+   */
+  private fit(readings: CalibrationReading[]): { measuredPower: number; pathLossExponent: number; samples: number } {
+    const points = readings.map(reading => ({ x: Math.log10(reading.distanceMeters), y: reading.rssi }));
+    if (new Set(points.map(point => point.x)).size < 2) {
+      throw new ValidationError('Calibration needs readings at two or more distances', {
+        errors: ['readings must cover at least two different distances']
+      });
+    }
+
+    const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+    const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+    const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+    const varianceX = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+    const slope = covariance / varianceX;
+
+    return {
+      measuredPower: meanY - slope * meanX,
+      pathLossExponent: -slope / 10,
+      samples: points.length
+    };
+  }
+
+  /**
+   * A fit the readings produced is echoed in the error, so the instructor can
+   * see how far off the measurements were
+   */
+  private assertValid(fitted: { measuredPower?: number; pathLossExponent?: number; samples: number }): void {
+    const { MIN_PATH_LOSS_EXPONENT, MAX_PATH_LOSS_EXPONENT } = CalibrationService;
+    const { measuredPower, pathLossExponent } = fitted;
+    const errors: string[] = [];
+
+    if (typeof measuredPower !== 'number' || !Number.isFinite(measuredPower) || measuredPower >= 0) {
+      errors.push('measuredPower must be a negative dBm value');
+    }
+    if (typeof pathLossExponent !== 'number' || !Number.isFinite(pathLossExponent) ||
+        pathLossExponent < MIN_PATH_LOSS_EXPONENT || pathLossExponent > MAX_PATH_LOSS_EXPONENT) {
+      errors.push(`pathLossExponent must be between ${MIN_PATH_LOSS_EXPONENT} and ${MAX_PATH_LOSS_EXPONENT}`);
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid calibration', fitted.samples > 0 ? { errors, fitted } : { errors });
+    }
+  }
+
+  private async getRoomProfiles(room: string): Promise<Record<string, CalibrationProfile>> {
+    return (await this.patterns.get<Record<string, CalibrationProfile>>(this.key(room))) || {};
+  }
+
+  private key(room: string): string {
+    return `calibration:${room}`;
+  }
+}
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { NonceLedger, NonceConsumeResult } from './nonceLedger';
+import { DeviceKeyService } from './deviceKeyService';
+import { getRepositories } from '../storage';
+import { KeyValueRepository } from '../storage/types';
+import { emitToSession } from '../websocket/socketHandler';
+import {
+  ChallengeData,
+  ChallengeResponse,
+  ChallengeVerificationResult,
+  ResponseTiming,
+  SignedChallengePayload
+} from '../types/attendance';
+
+interface IssueChallengeParams {
+  sessionId: string;
+  instructorId: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * What the app sends: the payload exactly as it signed it, and the signature
+ */
+interface SignedEnvelope {
+  signedPayload: string;
+  payload: SignedChallengePayload;
+  signature: string;
+}
+
+export class ChallengeService {
+  private static readonly CHALLENGE_TIMEOUT_MS = 15000; // Matches the app's _challengeTimeout
+  private static readonly LATE_RESPONSE_GRACE_MS = 60000; // Keep expired challenges around to report late responses
+
+  private static readonly NONCE_ERRORS: Record<Exclude<NonceConsumeResult, 'consumed' | 'expired'>, string> = {
+    reused: 'Nonce already used',
+    unknown: 'Unknown nonce'
+  };
+
+  constructor(
+    private readonly deviceKeyService: DeviceKeyService = new DeviceKeyService(),
+    private readonly nonceLedger: NonceLedger = new NonceLedger(),
+    private readonly cache: KeyValueRepository = getRepositories().cache
+  ) {}
+
+  /**
+   * Issue a new challenge for a session and remember it until it expires
+   */
+  async issueChallenge({ sessionId, instructorId, metadata }: IssueChallengeParams): Promise<ChallengeData> {
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + ChallengeService.CHALLENGE_TIMEOUT_MS);
+
+    const challenge: ChallengeData = {
+      sessionId,
+      challengeCode: crypto.randomBytes(32).toString('base64url'),
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      instructorId,
+      metadata: metadata || {}
+    };
+
+    await this.cache.set(
+      this.challengeKey(sessionId, challenge.challengeCode),
+      challenge,
+      ChallengeService.CHALLENGE_TIMEOUT_MS + ChallengeService.LATE_RESPONSE_GRACE_MS
+    );
+    await this.nonceLedger.record(challenge.nonce, expiresAt);
+
+    logger.info(`Issued challenge for session ${sessionId}, expires at ${challenge.expiresAt}`);
+    emitToSession(sessionId, 'challenge:issued', {
+      sessionId,
+      issuedAt: challenge.issuedAt,
+      expiresAt: challenge.expiresAt
+    });
+    return challenge;
+  }
+
+  /**
+   * Verify a student's signed response against the challenge the server issued.
+   * Timing is measured on the server's clock, from issue to receipt.
+   */
+  async verifyResponse(response: ChallengeResponse, receivedAt: Date = new Date()): Promise<ChallengeVerificationResult> {
+    const result = await this.verify(response, receivedAt);
+
+    emitToSession(response.sessionId, 'response:received', {
+      sessionId: response.sessionId,
+      studentId: response.studentId,
+      isValid: result.isValid,
+      errorReason: result.errorReason,
+      receivedAt: receivedAt.toISOString()
+    });
+
+    return result;
+  }
+
+  private async verify(response: ChallengeResponse, receivedAt: Date): Promise<ChallengeVerificationResult> {
+    const envelope = this.decodeEnvelope(response.signedResponse);
+    if (!envelope) {
+      return this.invalid('Malformed signed response');
+    }
+
+    const { signedPayload, payload, signature } = envelope;
+
+    if (payload.challengeCode !== response.challengeCode ||
+        payload.sessionId !== response.sessionId ||
+        payload.studentId !== response.studentId ||
+        payload.deviceId !== response.deviceContext?.deviceId) {
+      return this.invalid('Signed payload does not match submitted response');
+    }
+
+    const deviceKeys = await this.deviceKeyService.getVerificationKeys(payload.deviceId);
+    if (!deviceKeys) {
+      return this.invalid('Device is not registered or its key was revoked');
+    }
+
+    if (deviceKeys.userId !== payload.studentId) {
+      return this.invalid('Device is registered to a different student');
+    }
+
+    if (!deviceKeys.secrets.some(secret => this.verifySignature(signedPayload, signature, secret))) {
+      return this.invalid('Invalid signature');
+    }
+
+    const challenge = await this.getChallenge(payload.sessionId, payload.challengeCode);
+    if (!challenge) {
+      return this.invalid('Unknown or expired challenge');
+    }
+
+    if (payload.nonce !== challenge.nonce) {
+      return this.invalid('Nonce mismatch');
+    }
+
+    // An expired nonce is used up too, but its response is late rather than forged
+    const nonceResult = await this.nonceLedger.consume(payload.nonce, payload.studentId);
+    if (nonceResult === 'reused' || nonceResult === 'unknown') {
+      logger.warn(`Rejected ${nonceResult} nonce for student ${payload.studentId} in session ${payload.sessionId}`);
+      return this.invalid(ChallengeService.NONCE_ERRORS[nonceResult]);
+    }
+
+    const timing: ResponseTiming = {
+      issuedAt: challenge.issuedAt,
+      receivedAt: receivedAt.toISOString(),
+      serverElapsedMs: receivedAt.getTime() - new Date(challenge.issuedAt).getTime(),
+      deviceSignedAt: payload.timestamp
+    };
+    const responseLatencyMs = timing.serverElapsedMs;
+
+    // The device's own timestamp is not trusted for the deadline
+    if (nonceResult === 'expired' || receivedAt.getTime() > new Date(challenge.expiresAt).getTime()) {
+      return {
+        isValid: false,
+        studentId: payload.studentId,
+        deviceId: payload.deviceId,
+        responseLatencyMs,
+        timing,
+        errorReason: 'Response timeout',
+        flags: { lateResponse: true }
+      };
+    }
+
+    return {
+      isValid: true,
+      studentId: payload.studentId,
+      deviceId: payload.deviceId,
+      responseLatencyMs,
+      timing,
+      flags: {},
+      additionalData: payload.additionalData
+    };
+  }
+
+  /**
+   * The payload travels as the string the app signed, so the signature is
+   * checked against those bytes rather than a re-serialization that could
+   * format numbers differently from Dart's jsonEncode
+   */
+  private decodeEnvelope(signedResponse: string): SignedEnvelope | null {
+    try {
+      const decoded = JSON.parse(Buffer.from(signedResponse, 'base64url').toString('utf8'));
+      if (!decoded || typeof decoded.payload !== 'string' || typeof decoded.signature !== 'string') {
+        return null;
+      }
+      const payload = JSON.parse(decoded.payload);
+      if (!payload || typeof payload !== 'object') {
+        return null;
+      }
+      return { signedPayload: decoded.payload, payload, signature: decoded.signature };
+    } catch (error) {
+      logger.warn('Failed to decode signed challenge response:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The app signs jsonEncode(payload) with its device secret
+   */
+  private verifySignature(signedPayload: string, signature: string, secret: string): boolean {
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(signedPayload, 'utf8')
+      .digest('hex');
+
+    const expectedBuffer = Buffer.from(expected, 'utf8');
+    const actualBuffer = Buffer.from(signature, 'utf8');
+
+    return expectedBuffer.length === actualBuffer.length &&
+      crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+  }
+
+  private getChallenge(sessionId: string, challengeCode: string): Promise<ChallengeData | null> {
+    return this.cache.get<ChallengeData>(this.challengeKey(sessionId, challengeCode));
+  }
+
+  private challengeKey(sessionId: string, challengeCode: string): string {
+    return `challenge:${sessionId}:${challengeCode}`;
+  }
+
+  private invalid(errorReason: string): ChallengeVerificationResult {
+    return {
+      isValid: false,
+      errorReason,
+      flags: { invalidChallenge: true }
+    };
+  }
+}
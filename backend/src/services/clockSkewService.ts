@@ -0,0 +1,153 @@
+import { getRepositories } from '../storage';
+import { KeyValueRepository } from '../storage/types';
+import { ResponseTiming } from '../types/attendance';
+import { AntiProxyPolicy } from '../types/policy';
+
+interface ClockProfile {
+  deviceId: string;
+  samples: number;
+  /** Smoothed device clock minus server clock */
+  offsetMs: number;
+  variance: number;
+  /** Smoothed rate the offset changes at */
+  driftMsPerHour: number;
+  lastOffsetMs: number;
+  lastObservedAt: string;
+  updatedAt: string;
+}
+
+export type ClockAnomaly = 'offset' | 'jump' | 'drift';
+
+export interface ClockAnalysis {
+  samples: number;
+  /** This response's device clock minus server clock */
+  offsetMs: number;
+  /** What the device's history predicts the offset to be, once there is one */
+  expectedOffsetMs?: number;
+  stdDev?: number;
+  driftMsPerHour?: number;
+  /** Time from issue to signing, by the device's clock corrected for its usual offset */
+  correctedReactionMs?: number;
+  anomalies: ClockAnomaly[];
+  suspicious: boolean;
+}
+
+/**
+ * Per-device estimate of how far its clock is from the server's, learned from
+ * the timestamps it signs responses with
+ */
+export class ClockSkewService {
+  private static readonly HOUR_MS = 3600 * 1000;
+  private static readonly JUMP_STD_DEVS = 3; // Offsets further than this from the expected one are a jump
+  private static readonly MIN_DRIFT_INTERVAL_HOURS = 0.25; // Closer samples say more about latency than drift
+
+  constructor(private readonly patterns: KeyValueRepository = getRepositories().patterns) {}
+
+  /**
+   * Compare a response's signing time with the device's usual offset. Before
+   * the device has enough history only a grossly wrong clock is flagged; after
+   * that a clock that is steadily wrong is its usual offset, and only moving
+   * away from it counts.
+   */
+  async evaluate(
+    deviceId: string,
+    timing: ResponseTiming,
+    thresholds: AntiProxyPolicy['clock']
+  ): Promise<ClockAnalysis> {
+    const offsetMs = this.offsetOf(timing);
+    const anomalies: ClockAnomaly[] = [];
+
+    const profile = await this.getProfile(deviceId);
+    if (!profile || profile.samples < thresholds.minSamples) {
+      if (Math.abs(offsetMs) > thresholds.maxOffsetMs) {
+        anomalies.push('offset');
+      }
+      return { samples: profile?.samples || 0, offsetMs, anomalies, suspicious: anomalies.length > 0 };
+    }
+
+    const expectedOffsetMs = this.expectedOffset(profile, timing);
+    const stdDev = Math.sqrt(profile.variance);
+    if (Math.abs(offsetMs - expectedOffsetMs) >
+        Math.max(ClockSkewService.JUMP_STD_DEVS * stdDev, thresholds.jumpToleranceMs)) {
+      anomalies.push('jump');
+    }
+    if (Math.abs(profile.driftMsPerHour) > thresholds.maxDriftMsPerHour) {
+      anomalies.push('drift');
+    }
+
+    return {
+      samples: profile.samples,
+      offsetMs,
+      expectedOffsetMs,
+      stdDev,
+      driftMsPerHour: profile.driftMsPerHour,
+      correctedReactionMs: timing.deviceSignedAt - expectedOffsetMs - new Date(timing.issuedAt).getTime(),
+      anomalies,
+      suspicious: anomalies.length > 0
+    };
+  }
+
+  /**
+   * Fold a response's offset into the device's estimate. Early samples are
+   * averaged evenly; after that each one weighs smoothingAlpha.
+   */
+  async observe(deviceId: string, timing: ResponseTiming, thresholds: AntiProxyPolicy['clock']): Promise<void> {
+    const offsetMs = this.offsetOf(timing);
+    const profile = await this.getProfile(deviceId);
+    const now = new Date().toISOString();
+
+    if (!profile) {
+      await this.patterns.set(this.key(deviceId), {
+        deviceId,
+        samples: 1,
+        offsetMs,
+        variance: 0,
+        driftMsPerHour: 0,
+        lastOffsetMs: offsetMs,
+        lastObservedAt: timing.receivedAt,
+        updatedAt: now
+      } as ClockProfile);
+      return;
+    }
+
+    const alpha = Math.max(thresholds.smoothingAlpha, 1 / (profile.samples + 1));
+    const delta = offsetMs - profile.offsetMs;
+    profile.offsetMs += alpha * delta;
+    profile.variance = (1 - alpha) * (profile.variance + alpha * delta * delta);
+
+    const hours = this.hoursSince(profile.lastObservedAt, timing);
+    if (hours >= ClockSkewService.MIN_DRIFT_INTERVAL_HOURS) {
+      const rate = (offsetMs - profile.lastOffsetMs) / hours;
+      profile.driftMsPerHour += alpha * (rate - profile.driftMsPerHour);
+      profile.lastOffsetMs = offsetMs;
+      profile.lastObservedAt = timing.receivedAt;
+    }
+
+    profile.samples += 1;
+    profile.updatedAt = now;
+    await this.patterns.set(this.key(deviceId), profile);
+  }
+
+  private offsetOf(timing: ResponseTiming): number {
+    return timing.deviceSignedAt - new Date(timing.receivedAt).getTime();
+  }
+
+  /**
+   * The smoothed offset, carried forward by the device's drift since it was last sampled
+   */
+  private expectedOffset(profile: ClockProfile, timing: ResponseTiming): number {
+    return profile.offsetMs + profile.driftMsPerHour * this.hoursSince(profile.lastObservedAt, timing);
+  }
+
+  private hoursSince(observedAt: string, timing: ResponseTiming): number {
+    return (new Date(timing.receivedAt).getTime() - new Date(observedAt).getTime()) / ClockSkewService.HOUR_MS;
+  }
+
+  private getProfile(deviceId: string): Promise<ClockProfile | null> {
+    return this.patterns.get<ClockProfile>(this.key(deviceId));
+  }
+
+  private key(deviceId: string): string {
+    return `device:${deviceId}:clock`;
+  }
+}
@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { haversineDistance } from '../utils/geo';
+import { getRepositories } from '../storage';
+import { AnalysisRepository, KeyValueRepository } from '../storage/types';
+import { AttendanceRecord, AttendanceSession, StoredAnalysis } from '../types/attendance';
+import { CollusionFinding, CollusionSignal } from '../types/collusion';
+import { AttendanceDecision } from '../types/decision';
+import { AntiProxyPolicy, ResolvedPolicy } from '../types/policy';
+import { RiskBreakdown, RiskFinding } from '../types/risk';
+import { AttendanceService } from './attendanceService';
+import { RiskScorer } from './riskScorer';
+import { DecisionEngine } from './decisionEngine';
+
+interface Group {
+  signal: CollusionSignal;
+  studentIds: string[];
+  evidence: Record<string, any>;
+}
+
+/**
+ * Cross-response pass over a finished session looking for one person checking
+ * in several students: shared devices or IPs, the same GPS fix, the same WiFi
+ * scan, or responses arriving in a tight burst. Each of these happens by
+ * chance, so only students several of them tie together are flagged.
+ */
+export class CollusionService {
+  constructor(
+    private readonly analyses: AnalysisRepository = getRepositories().analyses,
+    private readonly patterns: KeyValueRepository = getRepositories().patterns,
+    private readonly attendanceService: AttendanceService = new AttendanceService()
+  ) {}
+
+  /**
+   * Find the session's collusion groups, replace its earlier findings and
+   * link every involved record to them. Students are only involved when
+   * several different signals group them with the same other student, and
+   * records an earlier pass flagged that this one does not are cleared.
+   */
+  async analyzeSession(session: AttendanceSession, resolved: ResolvedPolicy): Promise<CollusionFinding[]> {
+    const { policy } = resolved;
+    const responses = this.latestPerStudent(await this.analyses.listBySession(session.id));
+    const thresholds = policy.collusion;
+
+    const groups = [
+      ...this.groupBy(
+        'sharedDevice',
+        responses,
+        response => response.response.deviceFingerprint || response.response.deviceId,
+        device => ({ device })
+      ),
+      ...this.groupBy('sharedIp', responses, response => response.response.ip, ip => ({ ip }))
+        .filter(group => group.studentIds.length <= thresholds.maxSharedIpGroup),
+      ...this.groupBy(
+        'identicalWifi',
+        responses,
+        response => this.wifiSignature(response, thresholds),
+        signature => ({ networks: signature.split('|') })
+      ),
+      ...this.colocatedGps(responses, thresholds.gpsDistanceMeters),
+      ...this.clusteredTiming(responses, thresholds)
+    ];
+    const partners = this.corroboratedPartners(groups, thresholds.minSignals);
+    const backsAPair = (group: Group) =>
+      group.studentIds.some(id => group.studentIds.some(other => partners.get(id)?.has(other)));
+
+    const createdAt = new Date().toISOString();
+    const findings: CollusionFinding[] = groups.filter(backsAPair).map(group => ({
+      id: crypto.randomUUID(),
+      sessionId: session.id,
+      institutionId: session.institutionId,
+      ...group,
+      createdAt
+    }));
+    await this.patterns.set(this.key(session.id), findings);
+
+    const involvement = new Map<string, CollusionFinding[]>();
+    for (const [studentId, corroborating] of partners) {
+      involvement.set(studentId, findings.filter(finding =>
+        finding.studentIds.includes(studentId) && finding.studentIds.some(id => corroborating.has(id))
+      ));
+    }
+
+    const records = new Map(
+      (await this.attendanceService.listBySession(session.id)).map(record => [record.studentId, record])
+    );
+    for (const [studentId, involved] of involvement) {
+      // A check-in that failed before it made a record still counts as evidence against the others
+      const record = records.get(studentId);
+      if (!record) {
+        logger.info(`No attendance record to flag for ${studentId} in session ${session.id}`);
+        continue;
+      }
+      const { breakdown, decision } = this.rescore(session, resolved, responses, record, {
+        reason: `Grouped with other students by ${[...new Set(involved.map(finding => finding.signal))].join(', ')}`,
+        evidence: {
+          findingIds: involved.map(finding => finding.id),
+          studentIds: [...partners.get(studentId)!]
+        }
+      });
+      await this.attendanceService.markCollusion(
+        session.id,
+        studentId,
+        involved.map(finding => finding.id),
+        breakdown,
+        decision
+      );
+    }
+
+    const cleared = [...records.values()].filter(record =>
+      !involvement.has(record.studentId) &&
+      (record.antiProxyData.flags?.collusion === true || (record.collusionFindingIds || []).length > 0)
+    );
+    for (const record of cleared) {
+      const { breakdown, decision } = this.rescore(session, resolved, responses, record, null);
+      await this.attendanceService.clearCollusion(session.id, record.studentId, breakdown, decision);
+    }
+
+    logger.info(
+      `Collusion pass for session ${session.id}: ${findings.length} findings involving ${involvement.size} students` +
+      (cleared.length > 0 ? `, cleared ${cleared.length} earlier flags` : '')
+    );
+    return findings;
+  }
+
+  async getFindings(sessionId: string): Promise<CollusionFinding[]> {
+    return (await this.patterns.get<CollusionFinding[]>(this.key(sessionId))) || [];
+  }
+
+  /**
+   * A student may respond more than once; only their last response counts
+   */
+  private latestPerStudent(analyses: StoredAnalysis[]): StoredAnalysis[] {
+    const latest = new Map<string, StoredAnalysis>();
+    for (const analysis of analyses) {
+      latest.set(analysis.studentId, analysis);
+    }
+    return [...latest.values()];
+  }
+
+  private groupBy(
+    signal: CollusionSignal,
+    responses: StoredAnalysis[],
+    keyOf: (response: StoredAnalysis) => string | undefined,
+    describe: (key: string) => Record<string, any>
+  ): Group[] {
+    const byKey = new Map<string, string[]>();
+    for (const response of responses) {
+      const key = keyOf(response);
+      if (key) {
+        byKey.set(key, [...(byKey.get(key) || []), response.studentId]);
+      }
+    }
+
+    return [...byKey.entries()]
+      .filter(([, studentIds]) => studentIds.length > 1)
+      .map(([key, studentIds]) => ({ signal, studentIds, evidence: describe(key) }));
+  }
+
+  /**
+   * Each student's partners: the others that at least minSignals different
+   * signals grouped them with
+   */
+  private corroboratedPartners(groups: Group[], minSignals: number): Map<string, Set<string>> {
+    const signalsByPair = new Map<string, Set<CollusionSignal>>();
+    for (const group of groups) {
+      for (const a of group.studentIds) {
+        for (const b of group.studentIds) {
+          if (a < b) {
+            const pair = `${a}\n${b}`;
+            signalsByPair.set(pair, (signalsByPair.get(pair) || new Set()).add(group.signal));
+          }
+        }
+      }
+    }
+
+    const partners = new Map<string, Set<string>>();
+    for (const [pair, signals] of signalsByPair) {
+      if (signals.size >= minSignals) {
+        const [a, b] = pair.split('\n');
+        partners.set(a, (partners.get(a) || new Set()).add(b));
+        partners.set(b, (partners.get(b) || new Set()).add(a));
+      }
+    }
+    return partners;
+  }
+
+  /**
+   * Re-explain a record's risk with the collusion finding, or without it when
+   * there is none, and decide on it again. Starts from the record's flags so
+   * others raised after check-in, such as impossible travel, are kept.
+   */
+  private rescore(
+    session: AttendanceSession,
+    resolved: ResolvedPolicy,
+    responses: StoredAnalysis[],
+    record: AttendanceRecord,
+    collusion: RiskFinding | null
+  ): { breakdown: RiskBreakdown; decision: AttendanceDecision } {
+    const analysis = responses.find(response => response.studentId === record.studentId);
+    const current = record.antiProxyData.flags ?? analysis?.flags;
+    const flags = { ...current, collusion: collusion !== null };
+    const findings = RiskScorer.findingsOf(current?.breakdown ?? analysis?.breakdown);
+    delete findings.collusion;
+
+    const breakdown = RiskScorer.explain(
+      flags,
+      collusion ? { ...findings, collusion } : findings,
+      resolved.policy,
+      resolved.version
+    );
+    const decision = DecisionEngine.decide(
+      {
+        flags,
+        riskScore: breakdown.score,
+        partial: analysis?.detectors?.some(report => report.status === 'failed'),
+        checkedInAt: new Date(analysis?.timestamp ?? record.timestamp).toISOString()
+      },
+      session,
+      resolved
+    );
+    return { breakdown, decision };
+  }
+
+  /**
+   * Every access point and its level. Two phones rarely report the same levels
+   * for the same networks unless the scan was copied.
+   */
+  private wifiSignature(response: StoredAnalysis, thresholds: AntiProxyPolicy['collusion']): string | undefined {
+    const scan = response.response.wifiScan;
+    const entries = scan && scan.length > 0
+      ? scan.map(observation => `${observation.bssid.toLowerCase()}@${observation.level ?? ''}`)
+      : response.response.wifiNetworks || [];
+    if (entries.length < thresholds.minWifiNetworks) {
+      return undefined;
+    }
+    return [...entries].sort().join('|');
+  }
+
+  /**
+   * Students whose fixes are within the distance of each other, chained
+   */
+  private colocatedGps(responses: StoredAnalysis[], maxDistanceMeters: number): Group[] {
+    const located = responses.filter(response => response.response.location);
+    const groupOf = located.map((_, i) => i);
+    const find = (i: number): number => (groupOf[i] === i ? i : (groupOf[i] = find(groupOf[i])));
+
+    for (let i = 0; i < located.length; i++) {
+      for (let j = i + 1; j < located.length; j++) {
+        const distance = haversineDistance(located[i].response.location!, located[j].response.location!);
+        if (distance <= maxDistanceMeters) {
+          groupOf[find(j)] = find(i);
+        }
+      }
+    }
+
+    const members = new Map<number, StoredAnalysis[]>();
+    located.forEach((response, i) => members.set(find(i), [...(members.get(find(i)) || []), response]));
+
+    return [...members.values()]
+      .filter(group => group.length > 1)
+      .map(group => ({
+        signal: 'colocatedGps' as const,
+        studentIds: group.map(response => response.studentId),
+        evidence: {
+          maxDistanceMeters,
+          locations: group.map(response => ({
+            studentId: response.studentId,
+            latitude: response.response.location!.latitude,
+            longitude: response.response.location!.longitude,
+            accuracy: response.response.location!.accuracy
+          }))
+        }
+      }));
+  }
+
+  /**
+   * Runs of responses each received much sooner after the previous one than
+   * is usual in this session. The window scales with the class's own spread:
+   * forty students answering within a minute are close together by nature.
+   */
+  private clusteredTiming(responses: StoredAnalysis[], thresholds: AntiProxyPolicy['collusion']): Group[] {
+    const ordered = [...responses].sort((a, b) => a.timestamp - b.timestamp);
+    const gaps = ordered.slice(1).map((response, i) => response.timestamp - ordered[i].timestamp).sort((a, b) => a - b);
+    if (gaps.length === 0) {
+      return [];
+    }
+    const medianGapMs = gaps.length % 2 === 1
+      ? gaps[(gaps.length - 1) / 2]
+      : (gaps[gaps.length / 2 - 1] + gaps[gaps.length / 2]) / 2;
+    const windowMs = medianGapMs * thresholds.timingGapRatio;
+
+    const runs: StoredAnalysis[][] = [];
+    for (const response of ordered) {
+      const run = runs[runs.length - 1];
+      if (run && response.timestamp - run[run.length - 1].timestamp <= windowMs) {
+        run.push(response);
+      } else {
+        runs.push([response]);
+      }
+    }
+
+    return runs
+      .filter(run => run.length >= thresholds.minTimingGroup)
+      .map(run => ({
+        signal: 'clusteredTiming' as const,
+        studentIds: run.map(response => response.studentId),
+        evidence: {
+          spanMs: run[run.length - 1].timestamp - run[0].timestamp,
+          windowMs,
+          medianGapMs,
+          receivedAt: run.map(response => new Date(response.timestamp).toISOString())
+        }
+      }));
+  }
+
+  private key(sessionId: string): string {
+    return `collusion:${sessionId}:findings`;
+  }
+}
@@ -0,0 +1,81 @@
+import moment from 'moment';
+import { AntiProxyFlags, AttendanceSession, AttendanceStatus } from '../types/attendance';
+import { AttendanceDecision, DecisionOutcome, DecisionRule } from '../types/decision';
+import { AntiProxyFlagName, ResolvedPolicy } from '../types/policy';
+import { RiskScorer } from './riskScorer';
+
+/**
+ * What a decision is made from
+ */
+export interface DecisionInput {
+  flags: Partial<AntiProxyFlags>;
+  riskScore: number;
+  /** Whether a detector failed, so the analysis went on without it */
+  partial?: boolean;
+  /** When the server received the check-in */
+  checkedInAt: string;
+}
+
+/**
+ * Turns a scored analysis into an attendance outcome. Hard-fail flags and the
+ * rejection band come first, then flags that always need a person to look,
+ * then the review band and incomplete analyses.
+ */
+export class DecisionEngine {
+  private static readonly REVIEW_STATUS: AttendanceStatus = 'flagged';
+  private static readonly REJECT_STATUS: AttendanceStatus = 'absent';
+
+  static decide(input: DecisionInput, session: AttendanceSession, resolved: ResolvedPolicy): AttendanceDecision {
+    const rules = resolved.policy.decision;
+    const decision = (outcome: DecisionOutcome, rule: DecisionRule, reason: string, flags?: AntiProxyFlagName[]) => ({
+      outcome,
+      status: outcome === 'accept'
+        ? DecisionEngine.acceptedStatus(input.checkedInAt, session, rules.lateAfterMinutes)
+        : outcome === 'review' ? DecisionEngine.REVIEW_STATUS : DecisionEngine.REJECT_STATUS,
+      rule,
+      reason,
+      riskScore: input.riskScore,
+      flags,
+      policyVersion: resolved.version,
+      decidedAt: new Date().toISOString()
+    });
+    const score = input.riskScore.toFixed(0);
+
+    const rejecting = rules.rejectFlags.filter(flag => input.flags[flag] === true);
+    if (rejecting.length > 0) {
+      return decision('reject', 'rejectFlag', `${DecisionEngine.labels(rejecting)} always rejects`, rejecting);
+    }
+
+    if (input.riskScore >= rules.rejectFrom) {
+      return decision('reject', 'band', `Risk score ${score} is at or above the rejection threshold of ${rules.rejectFrom}`);
+    }
+
+    const reviewing = rules.reviewFlags.filter(flag => input.flags[flag] === true);
+    if (reviewing.length > 0) {
+      return decision('review', 'reviewFlag', `${DecisionEngine.labels(reviewing)} always needs review`, reviewing);
+    }
+
+    if (input.riskScore >= rules.acceptBelow) {
+      return decision('review', 'band', `Risk score ${score} is between ${rules.acceptBelow} and ${rules.rejectFrom}`);
+    }
+
+    if (input.partial && rules.reviewPartial) {
+      return decision('review', 'partial', `Risk score ${score} is low, but not every detector ran`);
+    }
+
+    return decision('accept', 'band', `Risk score ${score} is below the acceptance threshold of ${rules.acceptBelow}`);
+  }
+
+  private static acceptedStatus(
+    checkedInAt: string,
+    session: AttendanceSession,
+    lateAfterMinutes: number
+  ): AttendanceStatus {
+    const minutesIn = moment(checkedInAt).diff(moment(session.startTime), 'minutes', true);
+    return minutesIn > lateAfterMinutes ? 'late' : 'present';
+  }
+
+  private static labels(flags: AntiProxyFlagName[]): string {
+    return flags.map(flag => RiskScorer.FLAG_LABELS[flag]).join(', ');
+  }
+}
@@ -0,0 +1,81 @@
+import { createMemoryRepositories } from '../../../storage/memoryStore';
+import { AttendanceSession, ChallengeResponse } from '../../../types/attendance';
+import { BehaviorBaselineService } from '../../behaviorBaselineService';
+import { PolicyService } from '../../policyService';
+import { BehaviorDetector } from '../behaviorDetector';
+import { DetectorContext } from '../types';
+
+const START = new Date('2026-03-02T09:00:00Z').getTime();
+const minutesIn = (minutes: number) => new Date(START + minutes * 60 * 1000);
+
+describe('BehaviorDetector', () => {
+  let detector: BehaviorDetector;
+
+  beforeEach(() => {
+    detector = new BehaviorDetector(new BehaviorBaselineService(createMemoryRepositories().patterns));
+  });
+
+  const context = (
+    receivedAt: Date,
+    respondedAt = receivedAt,
+    verified = true,
+    room = 'Main-101'
+  ): DetectorContext => ({
+    response: { studentId: 'student-1', respondedAt: respondedAt.toISOString(), rssi: -60 } as ChallengeResponse,
+    session: { startTime: new Date(START).toISOString() } as AttendanceSession,
+    policy: PolicyService.DEFAULT_POLICY,
+    receivedAt,
+    verified,
+    signals: { rssi: -60, room, responseTimeMs: 2000 }
+  });
+
+  const learnUsualCheckIns = async () => {
+    for (let i = 0; i < 10; i++) {
+      await detector.learn(context(minutesIn(3 + (i % 3))), { weakSignal: false });
+    }
+  };
+
+  it('times the check-in by when the server received it, not the device clock', async () => {
+    await learnUsualCheckIns();
+
+    // The device claims the usual time, but the response arrived 40 minutes in
+    const result = await detector.detect(context(minutesIn(40), minutesIn(4)));
+
+    expect(result.flags).toEqual({ unusualPattern: true });
+    expect(result.findings?.unusualPattern?.reason).toContain('checkInOffsetMinutes');
+  });
+
+  it('passes a usual check-in whatever the device clock says', async () => {
+    await learnUsualCheckIns();
+
+    const result = await detector.detect(context(minutesIn(4), minutesIn(40)));
+    expect(result.flags).toEqual({ unusualPattern: false });
+  });
+
+  it('does not learn from flagged or unverified check-ins', async () => {
+    for (let i = 0; i < 10; i++) {
+      await detector.learn(context(minutesIn(45)), { outsideGeofence: true, weakSignal: false });
+      await detector.learn(context(minutesIn(45), minutesIn(45), false), {});
+    }
+    await learnUsualCheckIns();
+
+    const result = await detector.detect(context(minutesIn(45)));
+    expect(result.flags).toEqual({ unusualPattern: true });
+    expect(result.details).toMatchObject({ samples: 10 });
+  });
+
+  it('learns a new room from the check-ins it flagged as unusual', async () => {
+    await learnUsualCheckIns();
+    const inNewRoom = () => context(minutesIn(4), minutesIn(4), true, 'Science-204');
+
+    const first = await detector.detect(inNewRoom());
+    expect(first.flags).toEqual({ unusualPattern: true });
+    expect(first.findings?.unusualPattern?.reason).toBe('Unusual for this student: room');
+
+    for (let i = 0; i < 3; i++) {
+      const result = await detector.detect(inNewRoom());
+      await detector.learn(inNewRoom(), { ...result.flags, weakSignal: false });
+    }
+    expect((await detector.detect(inNewRoom())).flags).toEqual({ unusualPattern: false });
+  });
+});
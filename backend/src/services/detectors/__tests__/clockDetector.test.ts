@@ -0,0 +1,78 @@
+import { createMemoryRepositories } from '../../../storage/memoryStore';
+import { AttendanceSession, ChallengeResponse, ChallengeVerificationResult } from '../../../types/attendance';
+import { ClockSkewService } from '../../clockSkewService';
+import { PolicyService } from '../../policyService';
+import { ClockDetector } from '../clockDetector';
+import { DetectorContext } from '../types';
+
+describe('ClockDetector', () => {
+  const START = new Date('2026-03-02T09:00:00Z').getTime();
+  const HOUR_MS = 3600 * 1000;
+  // Ten minutes fast, well past the policy's two minute limit for an unknown device
+  const FAST_MS = 10 * 60 * 1000;
+  let detector: ClockDetector;
+
+  beforeEach(() => {
+    detector = new ClockDetector(new ClockSkewService(createMemoryRepositories().patterns));
+  });
+
+  // One check-in a day, answered two seconds after the challenge was issued
+  const context = (day: number, offsetMs: number): DetectorContext => {
+    const issuedAt = START + day * 24 * HOUR_MS;
+    const receivedAt = issuedAt + 2000;
+    const verification: ChallengeVerificationResult = {
+      isValid: true,
+      flags: {},
+      timing: {
+        issuedAt: new Date(issuedAt).toISOString(),
+        receivedAt: new Date(receivedAt).toISOString(),
+        serverElapsedMs: 2000,
+        deviceSignedAt: receivedAt - 200 + offsetMs
+      }
+    };
+    return {
+      response: { studentId: 'student-1', rssi: -60, deviceContext: { deviceId: 'phone-1' } } as ChallengeResponse,
+      session: { id: `session-${day}` } as AttendanceSession,
+      verification,
+      policy: PolicyService.DEFAULT_POLICY,
+      receivedAt: new Date(receivedAt),
+      verified: true,
+      signals: { rssi: -60, room: 'Main-101', responseTimeMs: 2000 }
+    };
+  };
+
+  const checkIn = async (day: number, offsetMs: number) => {
+    const input = context(day, offsetMs);
+    const result = await detector.detect(input);
+    await detector.learn(input);
+    return result;
+  };
+
+  it('flags a device far from the server clock before it has any history', async () => {
+    const result = await checkIn(0, FAST_MS);
+
+    expect(result.flags).toEqual({ clockManipulation: true });
+    expect(result.findings?.clockManipulation?.reason).toBe('Device clock is far from the server clock');
+  });
+
+  it('accepts a clock that is steadily wrong once it is the device\'s usual offset', async () => {
+    const { minSamples } = PolicyService.DEFAULT_POLICY.clock;
+    for (let day = 0; day < minSamples; day++) {
+      await checkIn(day, FAST_MS);
+    }
+
+    for (let day = minSamples; day < minSamples + 3; day++) {
+      expect((await checkIn(day, FAST_MS)).flags).toEqual({ clockManipulation: false });
+    }
+  });
+
+  it('flags a clock that moves away from its usual offset', async () => {
+    for (let day = 0; day < 4; day++) {
+      await checkIn(day, FAST_MS);
+    }
+
+    const result = await checkIn(4, FAST_MS + 60 * 1000);
+    expect(result.flags).toEqual({ clockManipulation: true });
+    expect(result.details).toMatchObject({ anomalies: ['jump'] });
+  });
+});
@@ -0,0 +1,59 @@
+import { createMemoryRepositories } from '../../../storage/memoryStore';
+import { ChallengeResponse, DeviceContext } from '../../../types/attendance';
+import { DeviceBindingService } from '../../deviceBindingService';
+import { PolicyService } from '../../policyService';
+import { DeviceDetector } from '../deviceDetector';
+import { DetectorContext } from '../types';
+
+describe('DeviceDetector', () => {
+  let detector: DeviceDetector;
+
+  beforeEach(() => {
+    const repositories = createMemoryRepositories();
+    detector = new DeviceDetector(new DeviceBindingService(
+      repositories.users,
+      repositories.devices,
+      repositories.rebindRequests,
+      repositories.patterns
+    ));
+  });
+
+  const context = (studentId: string, deviceContext: Partial<DeviceContext> = {}, verified = true): DetectorContext => ({
+    response: {
+      studentId,
+      rssi: -60,
+      deviceContext: { deviceId: 'phone-1', ...deviceContext }
+    } as ChallengeResponse,
+    session: {} as DetectorContext['session'],
+    policy: PolicyService.DEFAULT_POLICY,
+    receivedAt: new Date(),
+    verified,
+    signals: { rssi: -60, room: 'Main-101', responseTimeMs: 2000 }
+  });
+
+  it('flags a device that a second student checks in with', async () => {
+    expect((await detector.detect(context('student-1'))).flags.duplicateDevice).toBe(false);
+    const result = await detector.detect(context('student-2'));
+
+    expect(result.flags.duplicateDevice).toBe(true);
+    expect(result.findings?.duplicateDevice).toEqual({
+      reason: 'Device used by 2 students in the last 30 days',
+      evidence: { userIds: ['student-1', 'student-2'] }
+    });
+  });
+
+  it('does not count unverified responses as using the device', async () => {
+    await detector.detect(context('student-1', {}, false));
+    expect((await detector.detect(context('student-2'))).flags.duplicateDevice).toBe(false);
+  });
+
+  it('flags rooted devices with the indicators they report', async () => {
+    const result = await detector.detect(context('student-1', { securityFlags: ['rooted', 'debuggable'] }));
+
+    expect(result.flags).toEqual({ duplicateDevice: false, rootedDevice: true });
+    expect(result.findings?.rootedDevice).toEqual({
+      reason: 'Device reports rooted, debuggable',
+      evidence: { securityFlags: ['rooted', 'debuggable'] }
+    });
+  });
+});
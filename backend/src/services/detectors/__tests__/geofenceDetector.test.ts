@@ -0,0 +1,59 @@
+import { AttendanceSession, ChallengeResponse, Position } from '../../../types/attendance';
+import { PolicyService } from '../../policyService';
+import { GeofenceDetector } from '../geofenceDetector';
+import { DetectorContext } from '../types';
+
+describe('GeofenceDetector', () => {
+  const detector = new GeofenceDetector();
+  const geofence = { latitude: 52.2053, longitude: 0.1218, radiusMeters: 50 };
+
+  // About 111m per thousandth of a degree of latitude
+  const context = (metersNorth: number, accuracy?: number): DetectorContext => {
+    const location: Position = {
+      latitude: geofence.latitude + metersNorth / 111195,
+      longitude: geofence.longitude,
+      accuracy,
+      timestamp: 0
+    };
+    return {
+      response: { studentId: 'student-1', rssi: -60, location } as ChallengeResponse,
+      session: { geofence } as AttendanceSession,
+      policy: PolicyService.DEFAULT_POLICY,
+      receivedAt: new Date(),
+      verified: true,
+      signals: { rssi: -60, room: 'Main-101', responseTimeMs: 2000 }
+    };
+  };
+
+  it('passes a position whose whole accuracy circle is inside', async () => {
+    const result = await detector.detect(context(20, 10));
+
+    expect(result.flags).toEqual({ outsideGeofence: false });
+    expect(result.details).toBeUndefined();
+  });
+
+  it('flags a position whose whole accuracy circle is outside, and says how far', async () => {
+    const result = await detector.detect(context(200, 10));
+
+    expect(result.flags).toEqual({ outsideGeofence: true });
+    expect(result.findings?.outsideGeofence?.reason).toBe('150m outside the geofence, beyond the 10m accuracy');
+    expect(result.details).toMatchObject({ status: 'outside', radiusMeters: 50 });
+  });
+
+  it('leaves a position straddling the edge uncertain rather than flagging it', async () => {
+    const result = await detector.detect(context(70, 30));
+
+    expect(result.flags).toEqual({ outsideGeofence: false });
+    expect(result.details).toMatchObject({ status: 'uncertain', accuracyMeters: 30 });
+  });
+
+  it('assumes the policy\'s accuracy when the position reports none', async () => {
+    const result = await detector.detect(context(90));
+
+    expect(result.flags).toEqual({ outsideGeofence: false });
+    expect(result.details).toMatchObject({
+      status: 'uncertain',
+      accuracyMeters: PolicyService.DEFAULT_POLICY.location.maxAccuracyErrorMeters
+    });
+  });
+});
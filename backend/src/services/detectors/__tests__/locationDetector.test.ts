@@ -0,0 +1,45 @@
+import { createMemoryRepositories } from '../../../storage/memoryStore';
+import { ChallengeResponse, Position } from '../../../types/attendance';
+import { PolicyService } from '../../policyService';
+import { LocationDetector } from '../locationDetector';
+import { DetectorContext } from '../types';
+
+describe('LocationDetector', () => {
+  let detector: LocationDetector;
+
+  beforeEach(() => {
+    detector = new LocationDetector(createMemoryRepositories().patterns);
+  });
+
+  const context = (location: Position): DetectorContext => ({
+    response: { studentId: 'student-1', rssi: -60, location } as ChallengeResponse,
+    session: {} as DetectorContext['session'],
+    policy: PolicyService.DEFAULT_POLICY,
+    receivedAt: new Date(),
+    verified: true,
+    signals: { rssi: -60, room: 'Main-101', responseTimeMs: 2000 }
+  });
+
+  it('passes an ordinary fix', async () => {
+    const result = await detector.detect(context({ latitude: 52.2053, longitude: 0.1218, accuracy: 8, timestamp: 0 }));
+    expect(result.flags).toEqual({ invalidLocation: false, mockedLocation: false });
+    expect(result.details).toBeUndefined();
+  });
+
+  it('explains zero coordinates and implausible accuracy', async () => {
+    const result = await detector.detect(context({ latitude: 0, longitude: 0, accuracy: 0.5, timestamp: 0 }));
+
+    expect(result.flags).toEqual({ invalidLocation: true, mockedLocation: true });
+    expect(result.findings?.invalidLocation?.reason).toBe('Zero coordinates');
+    expect(result.findings?.mockedLocation?.reason).toBe('Reported accuracy of 0.5m is implausibly precise');
+  });
+
+  it('explains a jump too far for the time since the last fix', async () => {
+    await detector.detect(context({ latitude: 52.2053, longitude: 0.1218, accuracy: 8, timestamp: 0 }));
+    const result = await detector.detect(context({ latitude: 52.3053, longitude: 0.1218, accuracy: 8, timestamp: 10000 }));
+
+    expect(result.flags.invalidLocation).toBe(true);
+    expect(result.findings?.invalidLocation?.reason).toMatch(/^Moved 111\d\dm in 10s$/);
+    expect(result.findings?.invalidLocation?.evidence).toMatchObject({ suspiciousMovement: { timeDiff: 10000 } });
+  });
+});
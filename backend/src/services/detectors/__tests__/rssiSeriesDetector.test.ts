@@ -0,0 +1,72 @@
+import { createMemoryRepositories } from '../../../storage/memoryStore';
+import { AttendanceSession, ChallengeResponse } from '../../../types/attendance';
+import { PolicyService } from '../../policyService';
+import { RssiSeriesService } from '../../rssiSeriesService';
+import { RssiSeriesDetector } from '../rssiSeriesDetector';
+import { DetectorContext } from '../types';
+
+describe('RssiSeriesDetector', () => {
+  const START = new Date('2026-03-02T09:00:00Z').getTime();
+  let series: RssiSeriesService;
+  let detector: RssiSeriesDetector;
+
+  beforeEach(() => {
+    series = new RssiSeriesService(createMemoryRepositories().cache);
+    detector = new RssiSeriesDetector(series);
+  });
+
+  const context = (): DetectorContext => ({
+    response: { studentId: 'student-1', rssi: -60 } as ChallengeResponse,
+    session: { id: 'session-1' } as AttendanceSession,
+    policy: PolicyService.DEFAULT_POLICY,
+    receivedAt: new Date(),
+    verified: true,
+    signals: { rssi: -60, room: 'Main-101', responseTimeMs: 2000 }
+  });
+
+  // One reading every ten seconds of the scan
+  const scan = (values: number[]) => series.record('session-1', 'student-1', values.map((rssi, i) => ({
+    rssi,
+    observedAt: new Date(START + i * 10000).toISOString()
+  })));
+
+  it('does not judge until the scan has enough readings', async () => {
+    await scan([-60, -62, -61]);
+    const result = await detector.detect(context());
+
+    expect(result.flags).toEqual({});
+  });
+
+  it('passes a signal that wanders naturally and hands on its smoothed value', async () => {
+    await scan([-60, -63, -61, -64, -62, -60]);
+    const input = context();
+    const result = await detector.detect(input);
+
+    expect(result.flags).toEqual({ rssiAnomaly: false });
+    expect(input.signals.rssi).toBeGreaterThan(-64);
+    expect(input.signals.rssi).toBeLessThan(-60);
+  });
+
+  it('flags a signal that never varies, as a replay would', async () => {
+    await scan([-58, -58, -58, -58, -58, -58]);
+    const result = await detector.detect(context());
+
+    expect(result.flags).toEqual({ rssiAnomaly: true });
+    expect(result.findings?.rssiAnomaly?.reason).toBe('Signal barely varied (0.00 dB over 6 readings)');
+  });
+
+  it('flags a signal that leaps between readings, as a relay switching over would', async () => {
+    await scan([-60, -62, -61, -90, -61, -60]);
+    const result = await detector.detect(context());
+
+    expect(result.flags).toEqual({ rssiAnomaly: true });
+    expect(result.findings?.rssiAnomaly?.reason).toBe('Signal jumped 29 dB between readings');
+  });
+
+  it('keeps one reading per instant when the scan reports it twice', async () => {
+    await scan([-60, -63, -61]);
+    await scan([-60, -63, -61, -64, -62]);
+
+    expect(await series.getSeries('session-1', 'student-1')).toHaveLength(5);
+  });
+});
@@ -0,0 +1,99 @@
+import { createMemoryRepositories } from '../../../storage/memoryStore';
+import { AttendanceRecordRepository, SessionRepository } from '../../../storage/types';
+import { AttendanceRecord, AttendanceSession, AttendanceStatus, ChallengeResponse } from '../../../types/attendance';
+import { PolicyService } from '../../policyService';
+import { TravelDetector } from '../travelDetector';
+import { DetectorContext } from '../types';
+
+describe('TravelDetector', () => {
+  const START = new Date('2026-03-02T09:00:00Z').getTime();
+  const MINUTE_MS = 60 * 1000;
+  // About 111m per thousandth of a degree of latitude
+  const METERS_PER_DEGREE = 111195;
+  let sessions: SessionRepository;
+  let records: AttendanceRecordRepository;
+  let detector: TravelDetector;
+
+  beforeEach(() => {
+    const repositories = createMemoryRepositories();
+    sessions = repositories.sessions;
+    records = repositories.records;
+    detector = new TravelDetector(records, sessions);
+  });
+
+  const session = async (id: string, metersNorth: number, startMinutes = 0): Promise<AttendanceSession> => {
+    const saved = {
+      id,
+      institutionId: 'test-institution',
+      className: `Class ${id}`,
+      startTime: new Date(START + startMinutes * MINUTE_MS).toISOString(),
+      endTime: new Date(START + (startMinutes + 60) * MINUTE_MS).toISOString(),
+      geofence: { latitude: 52.2053 + metersNorth / METERS_PER_DEGREE, longitude: 0.1218, radiusMeters: 50 }
+    } as AttendanceSession;
+    await sessions.save(saved);
+    return saved;
+  };
+
+  const attended = (at: AttendanceSession, minutes: number, status: AttendanceStatus = 'present') =>
+    records.save({
+      studentId: 'student-1',
+      sessionId: at.id,
+      institutionId: at.institutionId,
+      status,
+      timestamp: new Date(START + minutes * MINUTE_MS).toISOString()
+    } as AttendanceRecord);
+
+  const context = (at: AttendanceSession, minutes: number): DetectorContext => ({
+    response: { studentId: 'student-1', rssi: -60 } as ChallengeResponse,
+    session: at,
+    policy: PolicyService.DEFAULT_POLICY,
+    receivedAt: new Date(START + minutes * MINUTE_MS),
+    verified: true,
+    signals: { rssi: -60, room: 'Main-101', responseTimeMs: 2000 }
+  });
+
+  it('flags check-ins to distant classes at the same time', async () => {
+    const here = await session('here', 0);
+    const there = await session('there', 11000);
+    await attended(here, 2);
+
+    const result = await detector.detect(context(there, 3));
+
+    expect(result.flags).toEqual({ impossibleTravel: true });
+    expect(result.findings?.impossibleTravel?.reason)
+      .toBe('Also checked in to Class here, 10.9km away, with no time to travel between them');
+    expect(result.findings?.impossibleTravel?.evidence?.conflicts).toEqual([expect.objectContaining({
+      from: expect.objectContaining({ sessionId: 'here' }),
+      to: expect.objectContaining({ sessionId: 'there' }),
+      requiredSpeedMetersPerSecond: null,
+      overlapping: true
+    })]);
+  });
+
+  it('passes classes closer together than the policy\'s minimum distance', async () => {
+    const here = await session('here', 0);
+    const nextDoor = await session('next-door', 250);
+    await attended(here, 2);
+
+    expect((await detector.detect(context(nextDoor, 3))).flags).toEqual({ impossibleTravel: false });
+  });
+
+  it('passes a journey that could be made in the time between', async () => {
+    const here = await session('here', 0);
+    const across = await session('across', 5000, 90);
+    await attended(here, 2);
+
+    // 4.9km in the 80 minutes after the ten minute stay
+    expect((await detector.detect(context(across, 92))).flags).toEqual({ impossibleTravel: false });
+  });
+
+  it('ignores records staff no longer count as attended, and those outside the window', async () => {
+    const here = await session('here', 0);
+    const earlier = await session('earlier', 0, -24 * 60);
+    const there = await session('there', 11000);
+    await attended(here, 2, 'absent');
+    await attended(earlier, -24 * 60 + 2);
+
+    expect((await detector.detect(context(there, 3))).flags).toEqual({ impossibleTravel: false });
+  });
+});
@@ -0,0 +1,57 @@
+import { createMemoryRepositories } from '../../../storage/memoryStore';
+import { ChallengeResponse } from '../../../types/attendance';
+import { PolicyService } from '../../policyService';
+import { WifiFingerprintService } from '../../wifiFingerprintService';
+import { WifiDetector } from '../wifiDetector';
+import { DetectorContext } from '../types';
+
+const ROOM = 'Main-101';
+const ROOM_SCAN = [
+  { bssid: 'aa:aa:aa:aa:aa:01', level: -45 },
+  { bssid: 'aa:aa:aa:aa:aa:02', level: -60 },
+  { bssid: 'aa:aa:aa:aa:aa:03', level: -70 }
+];
+
+describe('WifiDetector', () => {
+  let fingerprints: WifiFingerprintService;
+  let detector: WifiDetector;
+
+  beforeEach(async () => {
+    fingerprints = new WifiFingerprintService(createMemoryRepositories().patterns);
+    detector = new WifiDetector(fingerprints);
+    for (let i = 0; i < PolicyService.DEFAULT_POLICY.wifi.fingerprintMinSamples; i++) {
+      await fingerprints.learn(ROOM, ROOM_SCAN);
+    }
+  });
+
+  const context = (fields: Partial<ChallengeResponse>): DetectorContext => ({
+    response: { rssi: -60, ...fields } as ChallengeResponse,
+    session: {} as DetectorContext['session'],
+    policy: PolicyService.DEFAULT_POLICY,
+    receivedAt: new Date(),
+    verified: true,
+    signals: { rssi: -60, room: ROOM, responseTimeMs: 2000 }
+  });
+
+  it('is uncertain, not suspicious, when the device sent no networks', async () => {
+    for (const fields of [{}, { wifiScan: [] }, { wifiScan: [], wifiNetworks: [] }]) {
+      const ctx = context(fields);
+      const result = await detector.detect(ctx);
+
+      expect(result.flags).toEqual({ suspiciousWifi: false });
+      expect(result.details).toMatchObject({ status: 'uncertain' });
+      expect(ctx.signals.wifiSimilarity).toBeUndefined();
+    }
+  });
+
+  it('still flags a scan of other networks', async () => {
+    const result = await detector.detect(context({ wifiScan: [{ bssid: 'bb:bb:bb:bb:bb:01', level: -50 }] }));
+    expect(result.flags).toEqual({ suspiciousWifi: true });
+  });
+
+  it('passes the room\'s own networks', async () => {
+    const ctx = context({ wifiScan: ROOM_SCAN });
+    expect((await detector.detect(ctx)).flags).toEqual({ suspiciousWifi: false });
+    expect(ctx.signals.wifiSimilarity).toBeGreaterThan(0.9);
+  });
+});
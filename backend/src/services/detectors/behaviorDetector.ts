@@ -0,0 +1,64 @@
+import moment from 'moment';
+import { AntiProxyFlags } from '../../types/attendance';
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { BehaviorBaselineService, BehaviorObservation } from '../behaviorBaselineService';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * The check-in against the student's own baseline, built from the signals the
+ * detectors before it derived
+ */
+export class BehaviorDetector implements Detector {
+  readonly name = 'behavior';
+  readonly flags: AntiProxyFlagName[] = ['unusualPattern'];
+  readonly inputs: DetectorInput[] = [];
+
+  constructor(private readonly baselines: BehaviorBaselineService = new BehaviorBaselineService()) {}
+
+  async detect(context: DetectorContext): Promise<DetectorResult> {
+    const { response, policy } = context;
+    const analysis = await this.baselines.evaluate(response.studentId, this.observation(context), policy.behavior);
+    if (!analysis.unusual) {
+      return { flags: { unusualPattern: false } };
+    }
+
+    return {
+      flags: { unusualPattern: true },
+      findings: {
+        unusualPattern: {
+          reason: `Unusual for this student: ${analysis.deviations.map(deviation => deviation.feature).join(', ')}`,
+          evidence: { behavior: analysis }
+        }
+      },
+      details: analysis
+    };
+  }
+
+  /**
+   * Baselines follow verified check-ins no other detector objected to, so genuine
+   * changes in habit are learned but a proxy's check-ins do not become the
+   * student's normal. This detector's own flag does not count: a new room or
+   * time slot is unusual until it has been learned.
+   */
+  async learn(context: DetectorContext, flags: Partial<AntiProxyFlags>): Promise<void> {
+    const objected = (Object.entries(flags) as [AntiProxyFlagName, boolean | undefined][])
+      .some(([flag, raised]) => raised === true && !this.flags.includes(flag));
+    if (context.verified && !objected) {
+      await this.baselines.update(context.response.studentId, this.observation(context), context.policy.behavior);
+    }
+  }
+
+  /**
+   * Timed by when the server received the check-in; the device's clock can be set to anything
+   */
+  private observation({ session, signals, receivedAt }: DetectorContext): BehaviorObservation {
+    return {
+      responseTimeMs: signals.responseTimeMs,
+      rssi: signals.rssi,
+      room: signals.room,
+      wifiSimilarity: signals.wifiSimilarity,
+      checkInOffsetMinutes: moment(receivedAt).diff(moment(session.startTime), 'minutes', true)
+    };
+  }
+}
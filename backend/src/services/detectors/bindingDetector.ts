@@ -0,0 +1,31 @@
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * Whether the response came from the device bound to the student
+ */
+export class BindingDetector implements Detector {
+  readonly name = 'binding';
+  readonly flags: AntiProxyFlagName[] = ['unboundDevice'];
+  readonly inputs: DetectorInput[] = ['binding'];
+
+  async detect({ binding }: DetectorContext): Promise<DetectorResult> {
+    if (binding!.status === 'bound') {
+      return { flags: { unboundDevice: false } };
+    }
+
+    return {
+      flags: { unboundDevice: true },
+      findings: {
+        unboundDevice: {
+          reason: binding!.status === 'unbound'
+            ? 'Student has no bound device'
+            : `Student is bound to another device (${binding!.boundDeviceId})`,
+          evidence: { ...binding }
+        }
+      },
+      details: binding
+    };
+  }
+}
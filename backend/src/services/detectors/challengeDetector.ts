@@ -0,0 +1,42 @@
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { RiskFindings } from '../../types/risk';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * Carries the server-side challenge verification's verdict into the analysis
+ */
+export class ChallengeDetector implements Detector {
+  readonly name = 'challenge';
+  readonly flags: AntiProxyFlagName[] = ['invalidChallenge', 'lateResponse'];
+  readonly inputs: DetectorInput[] = ['verification'];
+
+  async detect({ verification }: DetectorContext): Promise<DetectorResult> {
+    if (!verification || verification.isValid) {
+      return { flags: {} };
+    }
+
+    const details = {
+      errorReason: verification.errorReason,
+      responseLatencyMs: verification.responseLatencyMs
+    };
+    const findings: RiskFindings = {};
+    for (const flag of this.flags) {
+      if (verification.flags[flag]) {
+        findings[flag] = {
+          reason: `Challenge verification failed: ${verification.errorReason || 'unknown reason'}`,
+          evidence: details
+        };
+      }
+    }
+
+    return {
+      flags: {
+        invalidChallenge: verification.flags.invalidChallenge === true,
+        lateResponse: verification.flags.lateResponse === true
+      },
+      findings,
+      details
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { ClockAnomaly, ClockSkewService } from '../clockSkewService';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * The device's clock against the server's, and its reaction time corrected for the difference
+ */
+export class ClockDetector implements Detector {
+  private static readonly ANOMALIES: Record<ClockAnomaly, string> = {
+    offset: 'is far from the server clock',
+    jump: 'jumped away from its usual offset',
+    drift: 'drifts faster than a real clock'
+  };
+
+  readonly name = 'clock';
+  readonly flags: AntiProxyFlagName[] = ['clockManipulation'];
+  readonly inputs: DetectorInput[] = ['timing'];
+
+  constructor(private readonly clocks: ClockSkewService = new ClockSkewService()) {}
+
+  async detect({ response, verification, policy, signals }: DetectorContext): Promise<DetectorResult> {
+    const analysis = await this.clocks.evaluate(response.deviceContext.deviceId, verification!.timing!, policy.clock);
+    signals.deviceReactionMs = analysis.correctedReactionMs;
+    if (!analysis.suspicious) {
+      return { flags: { clockManipulation: false } };
+    }
+
+    return {
+      flags: { clockManipulation: true },
+      findings: {
+        clockManipulation: {
+          reason: `Device clock ${analysis.anomalies.map(anomaly => ClockDetector.ANOMALIES[anomaly]).join(' and ')}`,
+          evidence: { ...analysis }
+        }
+      },
+      details: analysis
+    };
+  }
+
+  /**
+   * A clock that was wrong once but stays that way becomes the device's usual offset
+   */
+  async learn({ response, verification, policy }: DetectorContext): Promise<void> {
+    if (verification?.isValid) {
+      await this.clocks.observe(response.deviceContext.deviceId, verification.timing!, policy.clock);
+    }
+  }
+}
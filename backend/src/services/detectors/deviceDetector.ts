@@ -0,0 +1,75 @@
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { RiskFindings } from '../../types/risk';
+import { DeviceBindingService } from '../deviceBindingService';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+interface DeviceAnalysis {
+  duplicateDetected: boolean;
+  rootedDetected: boolean;
+  details: {
+    /** Students seen on the device within the usage window */
+    multipleUsers?: string[];
+    securityFlags?: string[];
+  };
+}
+
+/**
+ * Devices shared between students, and devices reporting tampering
+ */
+export class DeviceDetector implements Detector {
+  readonly name = 'device';
+  readonly flags: AntiProxyFlagName[] = ['duplicateDevice', 'rootedDevice'];
+  readonly inputs: DetectorInput[] = [];
+
+  constructor(private readonly bindings: DeviceBindingService = new DeviceBindingService()) {}
+
+  async detect({ response, policy, verified }: DetectorContext): Promise<DetectorResult> {
+    const analysis: DeviceAnalysis = {
+      duplicateDetected: false,
+      rootedDetected: false,
+      details: {}
+    };
+
+    // Check for duplicate device usage. Only verified responses count as using the device.
+    const { deviceId } = response.deviceContext;
+    const { usageWindowDays } = policy.devices;
+    const deviceUsage = verified
+      ? await this.bindings.recordUsage(deviceId, response.studentId, usageWindowDays)
+      : await this.bindings.getUsage(deviceId, usageWindowDays);
+    if (deviceUsage.userIds.length > 1) {
+      analysis.duplicateDetected = true;
+      analysis.details.multipleUsers = deviceUsage.userIds;
+    }
+
+    // Check for rooted/jailbroken device indicators
+    if (response.deviceContext.securityFlags) {
+      const flags = response.deviceContext.securityFlags;
+      if (flags.includes('rooted') || flags.includes('jailbroken') || flags.includes('emulator')) {
+        analysis.rootedDetected = true;
+        analysis.details.securityFlags = flags;
+      }
+    }
+
+    const findings: RiskFindings = {};
+    const { multipleUsers, securityFlags } = analysis.details;
+    if (multipleUsers) {
+      findings.duplicateDevice = {
+        reason: `Device used by ${multipleUsers.length} students in the last ${usageWindowDays} days`,
+        evidence: { userIds: multipleUsers }
+      };
+    }
+    if (securityFlags) {
+      findings.rootedDevice = {
+        reason: `Device reports ${securityFlags.join(', ')}`,
+        evidence: { securityFlags }
+      };
+    }
+
+    return {
+      flags: { duplicateDevice: analysis.duplicateDetected, rootedDevice: analysis.rootedDetected },
+      findings,
+      details: analysis.duplicateDetected || analysis.rootedDetected ? analysis : undefined
+    };
+  }
+}
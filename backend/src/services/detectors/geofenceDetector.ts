@@ -0,0 +1,64 @@
+import { GeofenceData, Position } from '../../types/attendance';
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName, AntiProxyPolicy } from '../../types/policy';
+import { haversineDistance } from '../../utils/geo';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+interface GeofenceAnalysis {
+  status: 'inside' | 'outside' | 'uncertain';
+  distanceMeters: number;
+  /** Positive when the position is beyond the fence edge */
+  distanceToFenceMeters: number;
+  accuracyMeters: number;
+  radiusMeters: number;
+}
+
+/**
+ * Places the position's accuracy circle against the session geofence: inside
+ * or outside only when the whole circle is, uncertain when it straddles the edge
+ */
+export class GeofenceDetector implements Detector {
+  readonly name = 'geofence';
+  readonly flags: AntiProxyFlagName[] = ['outsideGeofence'];
+  readonly inputs: DetectorInput[] = ['location'];
+
+  async detect({ response, session, policy }: DetectorContext): Promise<DetectorResult> {
+    const geofence = this.analyzeGeofence(response.location!, session.geofence, policy);
+    const outside = geofence.status === 'outside';
+
+    return {
+      flags: { outsideGeofence: outside },
+      findings: outside
+        ? {
+          outsideGeofence: {
+            reason: `${geofence.distanceToFenceMeters.toFixed(0)}m outside the geofence, ` +
+              `beyond the ${geofence.accuracyMeters.toFixed(0)}m accuracy`,
+            evidence: { ...geofence }
+          }
+        }
+        : undefined,
+      details: geofence.status !== 'inside' ? geofence : undefined
+    };
+  }
+
+  private analyzeGeofence(location: Position, geofence: GeofenceData, policy: AntiProxyPolicy): GeofenceAnalysis {
+    const accuracyMeters = location.accuracy ?? policy.location.maxAccuracyErrorMeters;
+    const distanceMeters = haversineDistance(geofence, location);
+    const distanceToFenceMeters = distanceMeters - geofence.radiusMeters;
+
+    let status: GeofenceAnalysis['status'] = 'uncertain';
+    if (distanceToFenceMeters + accuracyMeters <= 0) {
+      status = 'inside';
+    } else if (distanceToFenceMeters - accuracyMeters > 0) {
+      status = 'outside';
+    }
+
+    return {
+      status,
+      distanceMeters,
+      distanceToFenceMeters,
+      accuracyMeters,
+      radiusMeters: geofence.radiusMeters
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { getRepositories } from '../../storage';
+import { Repositories } from '../../storage/types';
+import { RssiSeriesService } from '../rssiSeriesService';
+import { CalibrationService } from '../calibrationService';
+import { ClockSkewService } from '../clockSkewService';
+import { WifiFingerprintService } from '../wifiFingerprintService';
+import { DeviceBindingService } from '../deviceBindingService';
+import { DeviceKeyService } from '../deviceKeyService';
+import { BehaviorBaselineService } from '../behaviorBaselineService';
+import { Detector } from './types';
+import { ChallengeDetector } from './challengeDetector';
+import { RssiSeriesDetector } from './rssiSeriesDetector';
+import { ProximityDetector } from './proximityDetector';
+import { ClockDetector } from './clockDetector';
+import { TimingDetector } from './timingDetector';
+import { LocationDetector } from './locationDetector';
+import { GeofenceDetector } from './geofenceDetector';
+import { TravelDetector } from './travelDetector';
+import { WifiDetector } from './wifiDetector';
+import { DeviceDetector } from './deviceDetector';
+import { BindingDetector } from './bindingDetector';
+import { BehaviorDetector } from './behaviorDetector';
+
+/**
+ * The detectors an analysis runs, in order. Later detectors may read the
+ * signals earlier ones derive.
+ */
+export class DetectorRegistry {
+  private readonly detectors: Detector[] = [];
+
+  /**
+   * Add a detector at the end, or before the named one
+   */
+  register(detector: Detector, before?: string): void {
+    if (this.get(detector.name)) {
+      throw new Error(`Detector ${detector.name} is already registered`);
+    }
+    const index = before ? this.detectors.findIndex(existing => existing.name === before) : -1;
+    if (index === -1) {
+      this.detectors.push(detector);
+    } else {
+      this.detectors.splice(index, 0, detector);
+    }
+  }
+
+  unregister(name: string): boolean {
+    const index = this.detectors.findIndex(detector => detector.name === name);
+    if (index !== -1) {
+      this.detectors.splice(index, 1);
+    }
+    return index !== -1;
+  }
+
+  get(name: string): Detector | undefined {
+    return this.detectors.find(detector => detector.name === name);
+  }
+
+  list(): Detector[] {
+    return [...this.detectors];
+  }
+}
+
+/**
+ * The built-in checks, in the order they depend on each other's signals,
+ * keeping what they learn in the given repositories
+ */
+export function createBuiltInDetectors(repositories: Repositories = getRepositories()): Detector[] {
+  const { patterns, cache, users, devices, rebindRequests, records, sessions } = repositories;
+  const bindings = new DeviceBindingService(users, devices, rebindRequests, patterns, new DeviceKeyService(devices));
+
+  return [
+    new ChallengeDetector(),
+    new RssiSeriesDetector(new RssiSeriesService(cache)),
+    new ProximityDetector(new CalibrationService(patterns)),
+    new ClockDetector(new ClockSkewService(patterns)),
+    new TimingDetector(),
+    new LocationDetector(patterns),
+    new GeofenceDetector(),
+    new TravelDetector(records, sessions),
+    new WifiDetector(new WifiFingerprintService(patterns)),
+    new DeviceDetector(bindings),
+    new BindingDetector(),
+    new BehaviorDetector(new BehaviorBaselineService(patterns))
+  ];
+}
+
+let registry: DetectorRegistry | null = null;
+
+/**
+ * The registry analyses run with, holding the built-in detectors, created on first use
+ */
+export function getDetectorRegistry(): DetectorRegistry {
+  if (!registry) {
+    registry = new DetectorRegistry();
+    for (const detector of createBuiltInDetectors()) {
+      registry.register(detector);
+    }
+  }
+  return registry;
+}
@@ -0,0 +1,107 @@
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { RiskFindings } from '../../types/risk';
+import { getRepositories } from '../../storage';
+import { KeyValueRepository } from '../../storage/types';
+import { haversineDistance } from '../../utils/geo';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+interface LocationData {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: number;
+}
+
+interface LocationAnalysis {
+  invalid: boolean;
+  mocked: boolean;
+  details: {
+    /** Why the coordinates cannot be real */
+    reason?: string;
+    suspiciousAccuracy?: number;
+    suspiciousMovement?: { distance: number; timeDiff: number };
+  };
+}
+
+/**
+ * GPS authenticity: impossible coordinates, implausible accuracy, and
+ * movement too fast since the student's last known position
+ */
+export class LocationDetector implements Detector {
+  private static readonly LOCATION_TTL_MS = 3600 * 1000; // Last known location is kept for 1 hour
+
+  readonly name = 'location';
+  readonly flags: AntiProxyFlagName[] = ['invalidLocation', 'mockedLocation'];
+  readonly inputs: DetectorInput[] = ['location'];
+
+  constructor(private readonly patterns: KeyValueRepository = getRepositories().patterns) {}
+
+  async detect({ response, policy }: DetectorContext): Promise<DetectorResult> {
+    const location = response.location as LocationData;
+    const analysis: LocationAnalysis = {
+      invalid: false,
+      mocked: false,
+      details: {}
+    };
+
+    // Check for obviously fake coordinates
+    if (location.latitude === 0 && location.longitude === 0) {
+      analysis.invalid = true;
+      analysis.details.reason = 'Zero coordinates';
+    }
+
+    // Check for unrealistic accuracy
+    if (location.accuracy && location.accuracy < 1) {
+      analysis.mocked = true;
+      analysis.details.suspiciousAccuracy = location.accuracy;
+    }
+
+    // Check location movement patterns
+    const lastLocation = await this.getLastKnownLocation(response.studentId);
+    if (lastLocation) {
+      const distance = haversineDistance(lastLocation, location);
+      const timeDiff = location.timestamp - lastLocation.timestamp;
+      
+      if (distance > policy.location.suspiciousJumpMeters &&
+          timeDiff < policy.location.minMovementTimeMs) {
+        analysis.invalid = true;
+        analysis.details.suspiciousMovement = { distance, timeDiff };
+      }
+    }
+
+    // Store current location for future analysis
+    await this.storeLocation(response.studentId, location);
+
+    const findings: RiskFindings = {};
+    if (analysis.invalid) {
+      const { suspiciousMovement } = analysis.details;
+      findings.invalidLocation = {
+        reason: suspiciousMovement
+          ? `Moved ${suspiciousMovement.distance.toFixed(0)}m in ${(suspiciousMovement.timeDiff / 1000).toFixed(0)}s`
+          : analysis.details.reason ?? 'Invalid coordinates',
+        evidence: { ...analysis.details }
+      };
+    }
+    if (analysis.mocked) {
+      findings.mockedLocation = {
+        reason: `Reported accuracy of ${analysis.details.suspiciousAccuracy}m is implausibly precise`,
+        evidence: { ...analysis.details }
+      };
+    }
+
+    return {
+      flags: { invalidLocation: analysis.invalid, mockedLocation: analysis.mocked },
+      findings,
+      details: analysis.invalid || analysis.mocked ? analysis : undefined
+    };
+  }
+
+  private getLastKnownLocation(studentId: string): Promise<LocationData | null> {
+    return this.patterns.get<LocationData>(`location:${studentId}:last`);
+  }
+
+  private storeLocation(studentId: string, location: LocationData): Promise<void> {
+    return this.patterns.set(`location:${studentId}:last`, location, LocationDetector.LOCATION_TTL_MS);
+  }
+}
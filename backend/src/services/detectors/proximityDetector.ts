@@ -0,0 +1,71 @@
+import { DistanceEstimate } from '../../types/calibration';
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName, AntiProxyPolicy } from '../../types/policy';
+import { CalibrationService } from '../calibrationService';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+interface ProximityData {
+  rssi: number;
+  distance: number;
+  signalStrength: 'weak' | 'medium' | 'strong';
+  calibration: DistanceEstimate['source'];
+  weak: boolean;
+}
+
+/**
+ * Bluetooth signal strength and proximity. In calibrated rooms the estimated
+ * distance decides; elsewhere the raw dBm threshold does.
+ */
+export class ProximityDetector implements Detector {
+  readonly name = 'proximity';
+  readonly flags: AntiProxyFlagName[] = ['weakSignal'];
+  readonly inputs: DetectorInput[] = [];
+
+  constructor(private readonly calibration: CalibrationService = new CalibrationService()) {}
+
+  async detect({ response, session, policy, signals }: DetectorContext): Promise<DetectorResult> {
+    const { rssi } = signals;
+    const estimate = await this.calibration.estimateDistance(session, response.deviceContext, rssi);
+    const proximity = this.analyzeProximity(rssi, estimate, policy);
+    if (!proximity.weak) {
+      return { flags: { weakSignal: false } };
+    }
+
+    return {
+      flags: { weakSignal: true },
+      findings: {
+        weakSignal: {
+          reason: proximity.calibration === 'default'
+            ? `Signal of ${rssi.toFixed(0)} dBm is at or below the weak threshold of ${policy.rssi.weak} dBm`
+            : `Estimated ${proximity.distance.toFixed(1)}m away, beyond ${policy.rssi.maxDistanceMeters}m`,
+          evidence: { ...proximity }
+        }
+      },
+      details: proximity
+    };
+  }
+
+  private analyzeProximity(rssi: number, estimate: DistanceEstimate, policy: AntiProxyPolicy): ProximityData {
+    let signalStrength: 'weak' | 'medium' | 'strong';
+    
+    if (rssi <= policy.rssi.weak) {
+      signalStrength = 'weak';
+    } else if (rssi <= policy.rssi.medium) {
+      signalStrength = 'medium';
+    } else {
+      signalStrength = 'strong';
+    }
+
+    const weak = estimate.source === 'default'
+      ? signalStrength === 'weak'
+      : estimate.distanceMeters > policy.rssi.maxDistanceMeters;
+
+    return {
+      rssi,
+      distance: estimate.distanceMeters,
+      signalStrength,
+      calibration: estimate.source,
+      weak
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { RssiSeriesService } from '../rssiSeriesService';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * Judges the instructor's scan of the student over the session, and offers
+ * its smoothed value to the detectors after it
+ */
+export class RssiSeriesDetector implements Detector {
+  readonly name = 'rssiSeries';
+  readonly flags: AntiProxyFlagName[] = ['rssiAnomaly'];
+  readonly inputs: DetectorInput[] = [];
+
+  constructor(private readonly rssiSeries: RssiSeriesService = new RssiSeriesService()) {}
+
+  async detect({ response, session, policy, signals }: DetectorContext): Promise<DetectorResult> {
+    const analysis = await this.rssiSeries.analyze(session.id, response.studentId, policy.rssiSeries);
+    if (!analysis) {
+      return { flags: {} };
+    }
+
+    signals.rssi = analysis.smoothed;
+    if (!analysis.suspicious) {
+      return { flags: { rssiAnomaly: false } };
+    }
+
+    return {
+      flags: { rssiAnomaly: true },
+      findings: {
+        rssiAnomaly: {
+          reason: analysis.flat
+            ? `Signal barely varied (${analysis.stdDev.toFixed(2)} dB over ${analysis.samples} readings)`
+            : `Signal jumped ${analysis.maxJumpDb.toFixed(0)} dB between readings`,
+          evidence: { ...analysis }
+        }
+      },
+      details: analysis
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { RiskFindings } from '../../types/risk';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * Response timing. Verified responses are timed from the challenge's issue to
+ * the response's receipt, both by the server's clock; the device's own
+ * timestamps only count once corrected for its offset.
+ */
+export class TimingDetector implements Detector {
+  readonly name = 'timing';
+  readonly flags: AntiProxyFlagName[] = ['lateResponse', 'unusualPattern'];
+  readonly inputs: DetectorInput[] = [];
+
+  async detect({ verification, policy, signals }: DetectorContext): Promise<DetectorResult> {
+    const responseTime = signals.responseTimeMs;
+    const timing = {
+      responseTime,
+      source: verification?.timing ? 'server' : 'device',
+      deviceReactionMs: signals.deviceReactionMs,
+      tooFast: responseTime < policy.responseTime.suspiciousFastMs,
+      tooSlow: responseTime > policy.responseTime.maxReasonableMs,
+      suspicious: responseTime < policy.responseTime.minHumanMs ||
+                 responseTime > policy.responseTime.maxReasonableMs
+    };
+
+    const findings: RiskFindings = {};
+    if (timing.tooSlow) {
+      findings.lateResponse = {
+        reason: `Responded after ${responseTime}ms, over the ${policy.responseTime.maxReasonableMs}ms limit`,
+        evidence: timing
+      };
+    }
+    if (timing.tooFast) {
+      findings.unusualPattern = {
+        reason: `Responded in ${responseTime}ms, faster than ` +
+          `${policy.responseTime.suspiciousFastMs}ms suggests automation`,
+        evidence: timing
+      };
+    }
+
+    return {
+      flags: { lateResponse: timing.tooSlow, unusualPattern: timing.tooFast },
+      findings,
+      details: timing.suspicious ? timing : undefined
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { getRepositories } from '../../storage';
+import { AttendanceRecordRepository, SessionRepository } from '../../storage/types';
+import { AttendanceSession, AttendanceStatus } from '../../types/attendance';
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName, AntiProxyPolicy } from '../../types/policy';
+import { TravelCheckIn, TravelConflict } from '../../types/travel';
+import { haversineDistance } from '../../utils/geo';
+import { TravelService } from '../travelService';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * The student's other recent check-ins against this one: whether they could
+ * have got from one class's geofence to the other's in the time between
+ */
+export class TravelDetector implements Detector {
+  private static readonly RECENT_RECORDS = 20; // More than a day's timetable
+  private static readonly HOUR_MS = 3600 * 1000;
+  private static readonly MINUTE_MS = 60 * 1000;
+  // Records that still say the student was there
+  private static readonly ATTENDED: AttendanceStatus[] = ['present', 'late', 'flagged'];
+
+  readonly name = 'travel';
+  readonly flags: AntiProxyFlagName[] = ['impossibleTravel'];
+  readonly inputs: DetectorInput[] = [];
+
+  constructor(
+    private readonly records: AttendanceRecordRepository = getRepositories().records,
+    private readonly sessions: SessionRepository = getRepositories().sessions
+  ) {}
+
+  async detect({ response, session, policy, receivedAt }: DetectorContext): Promise<DetectorResult> {
+    const thresholds = policy.travel;
+    const windowMs = thresholds.windowHours * TravelDetector.HOUR_MS;
+    const current = this.checkIn(session, receivedAt.toISOString());
+
+    const recent = (await this.records.list({ studentId: response.studentId, limit: TravelDetector.RECENT_RECORDS }))
+      .filter(record =>
+        record.sessionId !== session.id &&
+        TravelDetector.ATTENDED.includes(record.status) &&
+        Math.abs(new Date(record.timestamp).getTime() - receivedAt.getTime()) <= windowMs
+      );
+
+    const conflicts: TravelConflict[] = [];
+    for (const record of recent) {
+      const other = await this.sessions.get(record.sessionId);
+      const conflict = other && this.conflict(this.checkIn(other, record.timestamp), current, thresholds);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    }
+
+    if (conflicts.length === 0) {
+      return { flags: { impossibleTravel: false } };
+    }
+    return {
+      flags: { impossibleTravel: true },
+      findings: {
+        impossibleTravel: {
+          reason: TravelService.describe(conflicts, session.id),
+          evidence: { conflicts }
+        }
+      },
+      details: { conflicts }
+    };
+  }
+
+  /**
+   * The later check-in is impossible if the student had no time to leave the
+   * earlier class or would have had to travel faster than anyone could
+   */
+  private conflict(a: TravelCheckIn, b: TravelCheckIn, thresholds: AntiProxyPolicy['travel']): TravelConflict | null {
+    const time = (iso: string) => new Date(iso).getTime();
+    const [from, to] = time(a.checkedInAt) <= time(b.checkedInAt) ? [a, b] : [b, a];
+    const distanceMeters = Math.max(
+      haversineDistance(from.geofence, to.geofence) - from.geofence.radiusMeters - to.geofence.radiusMeters,
+      0
+    );
+    if (distanceMeters < thresholds.minDistanceMeters) {
+      return null;
+    }
+
+    const checkedInAt = time(from.checkedInAt);
+    const leftAt = Math.max(
+      checkedInAt,
+      Math.min(checkedInAt + thresholds.minStayMinutes * TravelDetector.MINUTE_MS, time(from.endTime))
+    );
+    const availableMs = time(to.checkedInAt) - leftAt;
+    const requiredSpeedMetersPerSecond = availableMs > 0 ? distanceMeters / (availableMs / 1000) : null;
+    if (requiredSpeedMetersPerSecond !== null && requiredSpeedMetersPerSecond <= thresholds.maxSpeedMetersPerSecond) {
+      return null;
+    }
+
+    return {
+      from,
+      to,
+      distanceMeters,
+      availableMs,
+      requiredSpeedMetersPerSecond,
+      overlapping: time(from.startTime) < time(to.endTime) && time(to.startTime) < time(from.endTime)
+    };
+  }
+
+  private checkIn(session: AttendanceSession, checkedInAt: string): TravelCheckIn {
+    return {
+      sessionId: session.id,
+      className: session.className,
+      checkedInAt,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      geofence: session.geofence
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  AntiProxyFlags,
+  AttendanceSession,
+  ChallengeResponse,
+  ChallengeVerificationResult
+} from '../../types/attendance';
+import { BindingCheck } from '../../types/device';
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName, AntiProxyPolicy } from '../../types/policy';
+import { RiskFindings } from '../../types/risk';
+
+/**
+ * Values detectors derive for the ones that run after them. Each starts out
+ * with a fallback, so a detector that did not run only makes later ones less precise.
+ */
+export interface DetectorSignals {
+  /** The instructor's smoothed reading of the student when there is one, else the device's */
+  rssi: number;
+  room: string;
+  /** Server-measured when the challenge was verified, else by the device's clock */
+  responseTimeMs: number;
+  /** Issue to signing by the device's clock, corrected for its usual offset */
+  deviceReactionMs?: number;
+  /** Known once the room's WiFi fingerprint is established */
+  wifiSimilarity?: number;
+}
+
+/**
+ * What every detector sees of the response it is analyzing
+ */
+export interface DetectorContext {
+  response: ChallengeResponse;
+  session: AttendanceSession;
+  policy: AntiProxyPolicy;
+  verification?: ChallengeVerificationResult;
+  binding?: BindingCheck;
+  /** When the server received the response */
+  receivedAt: Date;
+  /** False only when server-side verification rejected the response */
+  verified: boolean;
+  signals: DetectorSignals;
+}
+
+export interface DetectorResult {
+  flags: Partial<Record<AntiProxyFlagName, boolean>>;
+  /** Reasons and evidence for the flags that fired */
+  findings?: RiskFindings;
+  /** Kept in the analysis details under the detector's name */
+  details?: unknown;
+}
+
+/**
+ * One anti-proxy check. Detectors run in registration order, each isolated
+ * from the others' failures.
+ */
+export interface Detector {
+  readonly name: string;
+  /** Flags it may raise; anything else it reports is ignored */
+  readonly flags: AntiProxyFlagName[];
+  /** It is skipped for responses without these */
+  readonly inputs: DetectorInput[];
+  detect(context: DetectorContext): Promise<DetectorResult>;
+  /** Called once the analysis is stored, for detectors that learn from check-ins */
+  learn?(context: DetectorContext, flags: Partial<AntiProxyFlags>): Promise<void>;
+}
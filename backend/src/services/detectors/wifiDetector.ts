@@ -0,0 +1,52 @@
+import { AntiProxyFlags } from '../../types/attendance';
+import { DetectorInput } from '../../types/detector';
+import { AntiProxyFlagName } from '../../types/policy';
+import { WifiFingerprintService } from '../wifiFingerprintService';
+import { Detector, DetectorContext, DetectorResult } from './types';
+
+/**
+ * The response's WiFi scan against the room's learned fingerprint
+ */
+export class WifiDetector implements Detector {
+  readonly name = 'wifi';
+  readonly flags: AntiProxyFlagName[] = ['suspiciousWifi'];
+  readonly inputs: DetectorInput[] = [];
+
+  constructor(private readonly wifiFingerprints: WifiFingerprintService = new WifiFingerprintService()) {}
+
+  async detect({ response, policy, signals }: DetectorContext): Promise<DetectorResult> {
+    const scan = WifiFingerprintService.observations(response.wifiScan, response.wifiNetworks);
+    // iOS does not let apps scan, so no networks says nothing about where the device is
+    if (scan.length === 0) {
+      return { flags: { suspiciousWifi: false }, details: { status: 'uncertain', reason: 'No WiFi scan to compare' } };
+    }
+
+    const similarity = await this.wifiFingerprints.score(signals.room, scan, policy.wifi);
+    signals.wifiSimilarity = similarity?.similarity;
+    if (!similarity || similarity.similarity >= similarity.threshold) {
+      return { flags: { suspiciousWifi: false } };
+    }
+
+    return {
+      flags: { suspiciousWifi: true },
+      findings: {
+        suspiciousWifi: {
+          reason: `WiFi scan is ${(similarity.similarity * 100).toFixed(0)}% similar to the room's, ` +
+            `below the ${(similarity.threshold * 100).toFixed(0)}% threshold`,
+          evidence: { ...similarity }
+        }
+      },
+      details: similarity
+    };
+  }
+
+  /**
+   * Only check-ins nothing objected to may shape the room's fingerprint
+   */
+  async learn({ response, verified, signals }: DetectorContext, flags: Partial<AntiProxyFlags>): Promise<void> {
+    if (verified && !Object.values(flags).some(flag => flag === true)) {
+      const scan = WifiFingerprintService.observations(response.wifiScan, response.wifiNetworks);
+      await this.wifiFingerprints.learn(signals.room, scan);
+    }
+  }
+}
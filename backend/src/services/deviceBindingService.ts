@@ -0,0 +1,267 @@
+import { logger } from '../utils/logger';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { getRepositories } from '../storage';
+import {
+  DeviceRepository,
+  KeyValueRepository,
+  RebindRequestQuery,
+  RebindRequestRepository,
+  UserRepository
+} from '../storage/types';
+import { BindingCheck, DeviceUsage, RebindRequest } from '../types/device';
+import { DeviceKeyService } from './deviceKeyService';
+
+export interface RequestRebindInput {
+  studentId: string;
+  institutionId: string;
+  deviceId: string;
+  reason?: string;
+}
+
+/**
+ * One active device per student. A student's first device is bound
+ * automatically; moving to another device, or moving a device to another
+ * account, goes through an admin-approved rebind request and a cooldown.
+ */
+export class DeviceBindingService {
+  private static readonly DAY_MS = 24 * 3600 * 1000;
+  private static readonly HOUR_MS = 3600 * 1000;
+
+  constructor(
+    private readonly users: UserRepository = getRepositories().users,
+    private readonly devices: DeviceRepository = getRepositories().devices,
+    private readonly requests: RebindRequestRepository = getRepositories().rebindRequests,
+    private readonly patterns: KeyValueRepository = getRepositories().patterns,
+    private readonly deviceKeys: DeviceKeyService = new DeviceKeyService()
+  ) {}
+
+  /**
+   * Bind a device to a student who has none yet. Returns whether it did.
+   */
+  async bindIfUnbound(studentId: string, deviceId: string): Promise<boolean> {
+    const user = await this.users.get(studentId);
+    if (!user || user.role !== 'student' || user.boundDeviceId) {
+      return false;
+    }
+
+    await this.users.update(studentId, { boundDeviceId: deviceId, deviceBoundAt: new Date().toISOString() });
+    logger.info(`Bound device ${deviceId} to student ${studentId}`);
+    return true;
+  }
+
+  /**
+   * Whether a response from this device counts as the student's. Students
+   * without a binding are bound to the device if it is registered to them,
+   * and rebinds whose cooldown has passed take effect here.
+   */
+  async checkBinding(studentId: string, deviceId: string): Promise<BindingCheck> {
+    const user = await this.users.get(studentId);
+    if (!user) {
+      throw new NotFoundError('User not found', { userId: studentId });
+    }
+
+    if (user.boundDeviceId === deviceId) {
+      return { status: 'bound', deviceId, boundDeviceId: deviceId };
+    }
+
+    // Only one request is open at a time, so at most one rebind completes
+    const [rebound] = await this.applyDueRebinds(studentId);
+    if (rebound) {
+      return rebound.deviceId === deviceId
+        ? { status: 'bound', deviceId, boundDeviceId: deviceId }
+        : { status: 'mismatch', deviceId, boundDeviceId: rebound.deviceId };
+    }
+
+    if (!user.boundDeviceId) {
+      const record = await this.devices.get(deviceId);
+      const ownsDevice = record?.status === 'active' && record.userId === studentId;
+      if (ownsDevice && await this.bindIfUnbound(studentId, deviceId)) {
+        return { status: 'bound', deviceId, boundDeviceId: deviceId, newlyBound: true };
+      }
+      return { status: 'unbound', deviceId };
+    }
+    return { status: 'mismatch', deviceId, boundDeviceId: user.boundDeviceId };
+  }
+
+  /**
+   * Complete the student's approved rebinds whose cooldown has passed
+   */
+  async applyDueRebinds(studentId: string): Promise<RebindRequest[]> {
+    const now = new Date().toISOString();
+    const due = (await this.requests.list({ studentId, status: 'approved' }))
+      .filter(request => request.effectiveAt !== undefined && request.effectiveAt <= now);
+
+    const completed: RebindRequest[] = [];
+    for (const request of due) {
+      completed.push(await this.complete(request));
+    }
+    return completed;
+  }
+
+  async requestRebind(input: RequestRebindInput): Promise<RebindRequest> {
+    const user = await this.users.get(input.studentId);
+    if (user?.boundDeviceId === input.deviceId) {
+      throw new ConflictError('Device is already bound to this student', { deviceId: input.deviceId });
+    }
+
+    const open = (await this.requests.list({ studentId: input.studentId }))
+      .find(request => request.status === 'pending' || request.status === 'approved');
+    if (open) {
+      throw new ConflictError('A rebind request is already open', { requestId: open.id }, 'REBIND_REQUEST_OPEN');
+    }
+
+    // Revoked or not, a device registered to another account stays theirs until a rebind moves it
+    const record = await this.devices.get(input.deviceId);
+    const currentOwnerId = record && record.userId !== input.studentId && record.releasedTo !== input.studentId
+      ? record.userId
+      : undefined;
+    if (currentOwnerId && record?.institutionId !== input.institutionId) {
+      throw new ForbiddenError('Device belongs to another institution');
+    }
+
+    const request = await this.requests.create({
+      institutionId: input.institutionId,
+      studentId: input.studentId,
+      deviceId: input.deviceId,
+      currentOwnerId,
+      reason: input.reason,
+      status: 'pending',
+      requestedAt: new Date().toISOString()
+    });
+
+    logger.info(`Student ${input.studentId} requested to rebind to device ${input.deviceId}`);
+    return request;
+  }
+
+  async getRequest(requestId: string): Promise<RebindRequest> {
+    const request = await this.requests.get(requestId);
+    if (!request) {
+      throw new NotFoundError('Rebind request not found', { requestId });
+    }
+    return request;
+  }
+
+  listRequests(query: RebindRequestQuery): Promise<RebindRequest[]> {
+    return this.requests.list(query);
+  }
+
+  /**
+   * Approve a pending request. It takes effect once the cooldown has passed.
+   */
+  async approve(requestId: string, adminId: string, cooldownHours: number, note?: string): Promise<RebindRequest> {
+    const now = Date.now();
+    const approved = await this.decide(requestId, (request) => ({
+      ...request,
+      status: 'approved',
+      decidedBy: adminId,
+      decidedAt: new Date(now).toISOString(),
+      decisionNote: note,
+      effectiveAt: new Date(now + cooldownHours * DeviceBindingService.HOUR_MS).toISOString()
+    }));
+
+    logger.info(`Rebind request ${requestId} approved by ${adminId}, effective ${approved.effectiveAt}`);
+    return approved;
+  }
+
+  async reject(requestId: string, adminId: string, note?: string): Promise<RebindRequest> {
+    const rejected = await this.decide(requestId, (request) => ({
+      ...request,
+      status: 'rejected',
+      decidedBy: adminId,
+      decidedAt: new Date().toISOString(),
+      decisionNote: note
+    }));
+
+    logger.info(`Rebind request ${requestId} rejected by ${adminId}`);
+    return rejected;
+  }
+
+  /**
+   * Note that a student checked in from a device and return who else has
+   * within the usage window
+   */
+  async recordUsage(deviceId: string, userId: string, windowDays: number): Promise<DeviceUsage> {
+    const usage = await this.getUsage(deviceId, windowDays);
+    usage.lastSeen[userId] = new Date().toISOString();
+    usage.userIds = Object.keys(usage.lastSeen);
+
+    await this.patterns.set(this.usageKey(deviceId), usage);
+    return usage;
+  }
+
+  async getUsage(deviceId: string, windowDays: number): Promise<DeviceUsage> {
+    const stored = await this.patterns.get<DeviceUsage>(this.usageKey(deviceId));
+    const cutoff = new Date(Date.now() - windowDays * DeviceBindingService.DAY_MS).toISOString();
+    const lastSeen = Object.fromEntries(
+      Object.entries(stored?.lastSeen || {}).filter(([, seenAt]) => seenAt >= cutoff)
+    );
+    return { deviceId, userIds: Object.keys(lastSeen), lastSeen };
+  }
+
+  private decide(requestId: string, change: (request: RebindRequest) => RebindRequest): Promise<RebindRequest> {
+    return this.requests.update(requestId, (request) => {
+      if (!request) {
+        throw new NotFoundError('Rebind request not found', { requestId });
+      }
+      if (request.status !== 'pending') {
+        throw new ConflictError(`Rebind request is already ${request.status}`, { requestId });
+      }
+      return change(request);
+    });
+  }
+
+  /**
+   * Move the binding. A device taken over from another account is released
+   * from it, losing its old key so only its new owner can register it, and its
+   * old owner is unbound from it and their usage of it forgotten.
+   */
+  private async complete(request: RebindRequest): Promise<RebindRequest> {
+    if (request.currentOwnerId) {
+      const record = await this.devices.get(request.deviceId);
+      if (record?.userId === request.currentOwnerId) {
+        await this.deviceKeys.release(request.deviceId, request.studentId, `Rebound to ${request.studentId}`);
+      }
+      await this.unbind(request.currentOwnerId, request.deviceId);
+      await this.forgetUsage(request.deviceId, request.currentOwnerId);
+    }
+
+    await this.users.update(request.studentId, {
+      boundDeviceId: request.deviceId,
+      deviceBoundAt: new Date().toISOString()
+    });
+    const completed = await this.requests.update(request.id, (current) => ({
+      ...(current || request),
+      status: 'completed',
+      completedAt: new Date().toISOString()
+    }));
+
+    logger.info(`Student ${request.studentId} is now bound to device ${request.deviceId}`);
+    return completed;
+  }
+
+  /**
+   * Saved whole rather than updated, so the binding fields are removed in every backend
+   */
+  private async unbind(userId: string, deviceId: string): Promise<void> {
+    const user = await this.users.get(userId);
+    if (user?.boundDeviceId !== deviceId) {
+      return;
+    }
+    const { boundDeviceId, deviceBoundAt, ...unbound } = user;
+    await this.users.save(unbound);
+  }
+
+  private async forgetUsage(deviceId: string, userId: string): Promise<void> {
+    const stored = await this.patterns.get<DeviceUsage>(this.usageKey(deviceId));
+    if (!stored?.lastSeen[userId]) {
+      return;
+    }
+    delete stored.lastSeen[userId];
+    stored.userIds = Object.keys(stored.lastSeen);
+    await this.patterns.set(this.usageKey(deviceId), stored);
+  }
+
+  private usageKey(deviceId: string): string {
+    return `device:${deviceId}:usage`;
+  }
+}
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { getRepositories } from '../storage';
+import { DeviceRepository } from '../storage/types';
+import {
+  DeviceKeyRecord,
+  DeviceKeyStatus,
+  DeviceRegistration,
+  IssuedDeviceKey,
+  StoredKey
+} from '../types/device';
+
+export interface VerificationKeys {
+  userId: string;
+  secrets: string[];
+}
+
+export class DeviceKeyService {
+  private static readonly SECRET_BYTES = 32;
+  private static readonly ROTATION_GRACE_MS = 5 * 60 * 1000; // Previous key stays valid for in-flight responses
+
+  constructor(
+    private readonly devices: DeviceRepository = getRepositories().devices,
+    private readonly encryptionKey: string | undefined = process.env.DEVICE_KEY_ENCRYPTION_KEY
+  ) {}
+
+  /**
+   * Register a device for a user and issue its first signing key.
+   * Re-registering a device for the same user replaces its key. A device
+   * registered to another user, even one whose key was revoked, only moves
+   * once a rebind request has released it to this user.
+   */
+  async registerDevice(registration: DeviceRegistration): Promise<IssuedDeviceKey> {
+    const existing = await this.getRecord(registration.deviceId);
+    if (existing && existing.userId !== registration.userId && existing.releasedTo !== registration.userId) {
+      throw new ConflictError('Device is already registered to another user; a rebind request can move it', {
+        deviceId: registration.deviceId
+      });
+    }
+
+    const now = new Date().toISOString();
+    const { stored, secret } = this.generateKey(now);
+
+    const record: DeviceKeyRecord = {
+      deviceId: registration.deviceId,
+      userId: registration.userId,
+      institutionId: registration.institutionId,
+      keyId: stored.keyId,
+      status: 'active',
+      registeredAt: now,
+      device: registration,
+      current: stored
+    };
+
+    await this.saveRecord(record);
+    logger.info(`Registered device ${registration.deviceId} for user ${registration.userId}`);
+
+    return this.toIssuedKey(record, secret);
+  }
+
+  /**
+   * Replace a device's signing key, keeping the old one valid for a short grace period
+   */
+  async rotateKey(deviceId: string): Promise<IssuedDeviceKey> {
+    const record = await this.getActiveRecord(deviceId);
+    const now = new Date();
+    const { stored, secret } = this.generateKey(now.toISOString());
+
+    record.previous = {
+      ...record.current,
+      validUntil: new Date(now.getTime() + DeviceKeyService.ROTATION_GRACE_MS).toISOString()
+    };
+    record.current = stored;
+    record.keyId = stored.keyId;
+    record.rotatedAt = now.toISOString();
+
+    await this.saveRecord(record);
+    logger.info(`Rotated signing key for device ${deviceId}`);
+
+    return this.toIssuedKey(record, secret);
+  }
+
+  /**
+   * Revoke a device's keys. Responses signed by it are rejected from then on.
+   */
+  async revokeKey(deviceId: string, reason?: string): Promise<DeviceKeyStatus> {
+    const record = await this.getActiveRecord(deviceId);
+    this.revoke(record, reason);
+
+    await this.saveRecord(record);
+    logger.warn(`Revoked signing key for device ${deviceId}${reason ? `: ${reason}` : ''}`);
+
+    return this.toStatus(record);
+  }
+
+  /**
+   * Hand a device over to another user: its keys are revoked if they are
+   * still active, and only that user may register it next
+   */
+  async release(deviceId: string, userId: string, reason: string): Promise<void> {
+    const record = await this.getRecord(deviceId);
+    if (!record) {
+      throw new NotFoundError('Device not registered', { deviceId });
+    }
+    if (record.status === 'active') {
+      this.revoke(record, reason);
+    }
+    record.releasedTo = userId;
+
+    await this.saveRecord(record);
+    logger.warn(`Released device ${deviceId} to user ${userId}: ${reason}`);
+  }
+
+  async getStatus(deviceId: string): Promise<DeviceKeyStatus> {
+    const record = await this.getRecord(deviceId);
+    if (!record) {
+      throw new NotFoundError('Device not registered', { deviceId });
+    }
+    return this.toStatus(record);
+  }
+
+  /**
+   * Secrets that may currently verify a response from this device, newest first.
+   * Returns null for unknown or revoked devices.
+   */
+  async getVerificationKeys(deviceId: string): Promise<VerificationKeys | null> {
+    const record = await this.getRecord(deviceId);
+    if (!record || record.status !== 'active') {
+      return null;
+    }
+
+    const secrets = [this.decrypt(record.current.encryptedSecret)];
+    if (record.previous?.validUntil && new Date(record.previous.validUntil).getTime() > Date.now()) {
+      secrets.push(this.decrypt(record.previous.encryptedSecret));
+    }
+
+    return { userId: record.userId, secrets };
+  }
+
+  private revoke(record: DeviceKeyRecord, reason?: string): void {
+    record.status = 'revoked';
+    record.revokedAt = new Date().toISOString();
+    record.revokedReason = reason;
+    delete record.previous;
+  }
+
+  private generateKey(issuedAt: string): { stored: StoredKey; secret: string } {
+    const secret = crypto.randomBytes(DeviceKeyService.SECRET_BYTES).toString('base64url');
+    return {
+      secret,
+      stored: {
+        keyId: crypto.randomUUID(),
+        encryptedSecret: this.encrypt(secret),
+        issuedAt
+      }
+    };
+  }
+
+  /**
+   * Secrets are kept encrypted at rest with AES-256-GCM under DEVICE_KEY_ENCRYPTION_KEY
+   */
+  private encrypt(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [iv, tag, ciphertext].map(part => part.toString('base64url')).join('.');
+  }
+
+  private decrypt(encrypted: string): string {
+    const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  private masterKey(): Buffer {
+    if (!this.encryptionKey) {
+      throw new Error('DEVICE_KEY_ENCRYPTION_KEY is not configured');
+    }
+    return crypto.createHash('sha256').update(this.encryptionKey).digest();
+  }
+
+  private async getActiveRecord(deviceId: string): Promise<DeviceKeyRecord> {
+    const record = await this.getRecord(deviceId);
+    if (!record) {
+      throw new NotFoundError('Device not registered', { deviceId });
+    }
+    if (record.status !== 'active') {
+      throw new ConflictError('Device key has been revoked', { deviceId });
+    }
+    return record;
+  }
+
+  private getRecord(deviceId: string): Promise<DeviceKeyRecord | null> {
+    return this.devices.get(deviceId);
+  }
+
+  private saveRecord(record: DeviceKeyRecord): Promise<void> {
+    return this.devices.save(record);
+  }
+
+  private toIssuedKey(record: DeviceKeyRecord, secret: string): IssuedDeviceKey {
+    return {
+      deviceId: record.deviceId,
+      userId: record.userId,
+      keyId: record.current.keyId,
+      secret,
+      issuedAt: record.current.issuedAt
+    };
+  }
+
+  private toStatus(record: DeviceKeyRecord): DeviceKeyStatus {
+    return {
+      deviceId: record.deviceId,
+      userId: record.userId,
+      institutionId: record.institutionId,
+      keyId: record.keyId,
+      status: record.status,
+      registeredAt: record.registeredAt,
+      rotatedAt: record.rotatedAt,
+      revokedAt: record.revokedAt,
+      revokedReason: record.revokedReason
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { logger } from '../utils/logger';
+import { redisClient } from '../config/redis';
+
+export type NonceConsumeResult = 'consumed' | 'reused' | 'unknown' | 'expired';
+
+interface NonceStore {
+  record(nonce: string, expiresAt: number, retainUntil: number): Promise<void>;
+  consume(nonce: string, studentId: string, now: number): Promise<NonceConsumeResult>;
+}
+
+interface MemoryNonceEntry {
+  expiresAt: number;
+  retainUntil: number;
+  consumedBy: Set<string>;
+}
+
+/**
+ * Redis-backed store. Each student's consumed marker is written with SET NX so
+ * two concurrent submissions of the same nonce by one student cannot both succeed.
+ */
+class RedisNonceStore implements NonceStore {
+  async record(nonce: string, expiresAt: number, retainUntil: number): Promise<void> {
+    await redisClient.set(this.issuedKey(nonce), String(expiresAt), { PXAT: retainUntil });
+  }
+
+  async consume(nonce: string, studentId: string, now: number): Promise<NonceConsumeResult> {
+    const expiresAt = await redisClient.get(this.issuedKey(nonce));
+    if (!expiresAt) {
+      return 'unknown';
+    }
+
+    const ttl = await redisClient.pTTL(this.issuedKey(nonce));
+    const marked = await redisClient.set(this.consumedKey(nonce, studentId), String(now), {
+      NX: true,
+      PX: ttl > 0 ? ttl : NonceLedger.RETENTION_MS
+    });
+    if (marked === null) {
+      return 'reused';
+    }
+
+    return now > Number(expiresAt) ? 'expired' : 'consumed';
+  }
+
+  private issuedKey(nonce: string): string {
+    return `nonce:${nonce}`;
+  }
+
+  private consumedKey(nonce: string, studentId: string): string {
+    return `nonce:${nonce}:consumed:${studentId}`;
+  }
+}
+
+/**
+ * Process-local store used while Redis is unavailable
+ */
+class MemoryNonceStore implements NonceStore {
+  private readonly entries = new Map<string, MemoryNonceEntry>();
+
+  async record(nonce: string, expiresAt: number, retainUntil: number): Promise<void> {
+    this.purge(Date.now());
+    this.entries.set(nonce, { expiresAt, retainUntil, consumedBy: new Set() });
+  }
+
+  async consume(nonce: string, studentId: string, now: number): Promise<NonceConsumeResult> {
+    this.purge(now);
+
+    const entry = this.entries.get(nonce);
+    if (!entry) {
+      return 'unknown';
+    }
+    if (entry.consumedBy.has(studentId)) {
+      return 'reused';
+    }
+
+    entry.consumedBy.add(studentId);
+    return now > entry.expiresAt ? 'expired' : 'consumed';
+  }
+
+  private purge(now: number): void {
+    for (const [nonce, entry] of this.entries) {
+      if (entry.retainUntil <= now) {
+        this.entries.delete(nonce);
+      }
+    }
+  }
+}
+
+/**
+ * Single-use ledger for challenge nonces. A challenge goes to the whole class,
+ * so each nonce can be used once by every student.
+ */
+export class NonceLedger {
+  static readonly RETENTION_MS = 10 * 60 * 1000; // Remember nonces well past expiry so replays stay detectable
+
+  private readonly redisStore = new RedisNonceStore();
+  private readonly memoryStore = new MemoryNonceStore();
+
+  /**
+   * Record a freshly issued nonce
+   */
+  async record(nonce: string, expiresAt: Date): Promise<void> {
+    const retainUntil = expiresAt.getTime() + NonceLedger.RETENTION_MS;
+    await this.withFallback(store => store.record(nonce, expiresAt.getTime(), retainUntil));
+  }
+
+  /**
+   * Mark a nonce as used by a student. Only the student's first call for an
+   * issued, unexpired nonce returns 'consumed'.
+   */
+  async consume(nonce: string, studentId: string): Promise<NonceConsumeResult> {
+    const now = Date.now();
+    return this.withFallback(store => store.consume(nonce, studentId, now));
+  }
+
+  private async withFallback<T>(operation: (store: NonceStore) => Promise<T>): Promise<T> {
+    if (redisClient.isReady) {
+      try {
+        return await operation(this.redisStore);
+      } catch (error) {
+        logger.warn('Nonce ledger falling back to in-memory store:', error);
+      }
+    }
+    return operation(this.memoryStore);
+  }
+}
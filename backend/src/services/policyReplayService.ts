@@ -0,0 +1,268 @@
+import moment from 'moment';
+import { getRepositories } from '../storage';
+import { createMemoryRepositories } from '../storage/memoryStore';
+import { AnalysisRepository, AttendanceRecordRepository, SessionRepository } from '../storage/types';
+import { AttendanceRecord, AttendanceSession, AttendanceStatus } from '../types/attendance';
+import { AttendanceDecision } from '../types/decision';
+import { DetectorReport } from '../types/detector';
+import { ResolvedPolicy } from '../types/policy';
+import {
+  DecisionChange,
+  DetectionMetrics,
+  RecordedCheckIn,
+  ReplayInput,
+  ReplayLabel,
+  ReplayPolicy,
+  ReplayReport,
+  ReplayRunSummary
+} from '../types/replay';
+import { AntiProxyService } from './antiProxyService';
+import { DecisionEngine } from './decisionEngine';
+import { DetectorRegistry, createBuiltInDetectors } from './detectors';
+import { PolicyService } from './policyService';
+
+interface ReplayedCheckIn {
+  decision: AttendanceDecision;
+  detectors: DetectorReport[];
+}
+
+/**
+ * Runs recorded check-ins through the anti-proxy analysis again under two
+ * policies and compares the decisions. Each run starts from empty storage and
+ * learns device and location history, sessions and attendance records only
+ * from the check-ins replayed before, so the two runs differ by nothing but
+ * their policies.
+ */
+export class PolicyReplayService {
+  private static readonly LABELS: Partial<Record<AttendanceStatus, ReplayLabel>> = {
+    present: 'genuine',
+    late: 'genuine',
+    absent: 'proxy'
+  };
+
+  constructor(
+    private readonly sessions: SessionRepository = getRepositories().sessions,
+    private readonly analyses: AnalysisRepository = getRepositories().analyses,
+    private readonly records: AttendanceRecordRepository = getRepositories().records
+  ) {}
+
+  /**
+   * What an institution's sessions of the last `days` days can be replayed from:
+   * the check-ins their analyses recorded and the sessions' records. Analyses
+   * stored before check-ins were recorded with them are left out.
+   */
+  async exportInput(institutionId: string, days: number): Promise<ReplayInput> {
+    const startingFrom = moment().subtract(days, 'days').startOf('day').toISOString();
+    const sessions = await this.sessions.list({ institutionId, startingFrom });
+    const checkIns: RecordedCheckIn[] = [];
+    for (const session of sessions) {
+      for (const analysis of await this.analyses.listBySession(session.id)) {
+        if (analysis.checkIn) {
+          checkIns.push(analysis.checkIn);
+        }
+      }
+    }
+    const records = sessions.length > 0 ? await this.records.list({ sessionIds: sessions.map(s => s.id) }) : [];
+    return { checkIns, records };
+  }
+
+  /**
+   * Replay the check-ins in the order they were received. Records overridden
+   * by staff label their student's check-ins in that session.
+   */
+  async replay(
+    checkIns: RecordedCheckIn[],
+    records: AttendanceRecord[],
+    baseline: ReplayPolicy,
+    candidate: ReplayPolicy
+  ): Promise<ReplayReport> {
+    const ordered = [...checkIns].sort((a, b) => this.receivedAt(a).getTime() - this.receivedAt(b).getTime());
+    const labels = this.labelsOf(records);
+    const labelOf = (checkIn: RecordedCheckIn) =>
+      labels.get(this.key(checkIn.session.id, checkIn.response.studentId));
+
+    const baselineRun = await this.run(ordered, baseline);
+    const candidateRun = await this.run(ordered, candidate);
+
+    const changes: DecisionChange[] = [];
+    ordered.forEach((checkIn, i) => {
+      const before = baselineRun[i].decision;
+      const after = candidateRun[i].decision;
+      if (before.outcome !== after.outcome || before.status !== after.status) {
+        changes.push({
+          sessionId: checkIn.session.id,
+          studentId: checkIn.response.studentId,
+          receivedAt: this.receivedAt(checkIn).toISOString(),
+          label: labelOf(checkIn),
+          baseline: before,
+          candidate: after
+        });
+      }
+    });
+
+    const orderedLabels = ordered.map(labelOf);
+    return {
+      checkIns: ordered.length,
+      labeled: {
+        genuine: orderedLabels.filter(label => label === 'genuine').length,
+        proxy: orderedLabels.filter(label => label === 'proxy').length
+      },
+      changes,
+      baseline: this.summarize(baselineRun, orderedLabels, baseline.version),
+      candidate: this.summarize(candidateRun, orderedLabels, candidate.version)
+    };
+  }
+
+  private async run(checkIns: RecordedCheckIn[], policy: ReplayPolicy): Promise<ReplayedCheckIn[]> {
+    const repositories = createMemoryRepositories();
+    const registry = new DetectorRegistry();
+    for (const detector of createBuiltInDetectors(repositories)) {
+      registry.register(detector);
+    }
+    const antiProxyService = new AntiProxyService(repositories.analyses, registry);
+
+    const replayed: ReplayedCheckIn[] = [];
+    for (const checkIn of checkIns) {
+      const { response, session, verification, binding, clientIp } = checkIn;
+      const resolved = this.resolve(session, policy);
+      const receivedAt = this.receivedAt(checkIn);
+      const flags = await antiProxyService.analyzeResponse(response, {
+        session,
+        policy: resolved,
+        verification,
+        binding,
+        clientIp,
+        receivedAt
+      });
+      const decision = DecisionEngine.decide(
+        { flags, riskScore: flags.breakdown.score, partial: flags.partial, checkedInAt: receivedAt.toISOString() },
+        session,
+        resolved
+      );
+      replayed.push({ decision, detectors: flags.detectors });
+
+      // What later check-ins are compared with, such as for impossible travel
+      if (!(await repositories.sessions.get(session.id))) {
+        await repositories.sessions.save(session);
+      }
+      await repositories.records.save(this.recordOf(checkIn, decision, receivedAt));
+    }
+    return replayed;
+  }
+
+  /**
+   * The replayed policy with the session's own overrides, as the live service resolves it
+   */
+  private resolve(session: AttendanceSession, policy: ReplayPolicy): ResolvedPolicy {
+    const overrides = session.policyOverrides;
+    const sessionOverride = overrides !== undefined && Object.keys(overrides).length > 0;
+    return {
+      institutionId: session.institutionId,
+      version: policy.version,
+      sessionOverride,
+      policy: sessionOverride ? PolicyService.merge(policy.policy, overrides) : policy.policy
+    };
+  }
+
+  private summarize(
+    replayed: ReplayedCheckIn[],
+    labels: (ReplayLabel | undefined)[],
+    policyVersion: number
+  ): ReplayRunSummary {
+    const outcomes = { accept: 0, review: 0, reject: 0 };
+    for (const { decision } of replayed) {
+      outcomes[decision.outcome]++;
+    }
+
+    const names = [...new Set(replayed.flatMap(({ detectors }) => detectors.map(report => report.name)))];
+    return {
+      policyVersion,
+      outcomes,
+      decisions: this.metrics(
+        'decision',
+        replayed.map(({ decision }, i) => ({ checked: true, flagged: decision.outcome !== 'accept', label: labels[i] }))
+      ),
+      detectors: names.map(name => this.metrics(
+        name,
+        replayed.map(({ detectors }, i) => {
+          const status = detectors.find(report => report.name === name)?.status;
+          return { checked: status === 'fired' || status === 'clear', flagged: status === 'fired', label: labels[i] };
+        })
+      ))
+    };
+  }
+
+  /**
+   * A flagged proxy is a true positive and a flagged genuine check-in a false
+   * one. A proxy the detector did not look at counts as missed.
+   */
+  private metrics(
+    name: string,
+    observations: { checked: boolean; flagged: boolean; label?: ReplayLabel }[]
+  ): DetectionMetrics {
+    const count = (matches: (observation: typeof observations[number]) => boolean) =>
+      observations.filter(matches).length;
+    const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null);
+
+    const checked = count(observation => observation.checked);
+    const flagged = count(observation => observation.flagged);
+    const truePositives = count(observation => observation.flagged && observation.label === 'proxy');
+    const falsePositives = count(observation => observation.flagged && observation.label === 'genuine');
+    const falseNegatives = count(observation => !observation.flagged && observation.label === 'proxy');
+
+    return {
+      name,
+      checked,
+      flagged,
+      flagRate: ratio(flagged, checked),
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives)
+    };
+  }
+
+  /**
+   * Only manual overrides are labels; the automatic status is what is being judged
+   */
+  private labelsOf(records: AttendanceRecord[]): Map<string, ReplayLabel> {
+    const labels = new Map<string, ReplayLabel>();
+    for (const record of records) {
+      const label = record.manualOverride ? PolicyReplayService.LABELS[record.status] : undefined;
+      if (label) {
+        labels.set(this.key(record.sessionId, record.studentId), label);
+      }
+    }
+    return labels;
+  }
+
+  /**
+   * The record the replayed decision would have made, timed by when the check-in was received
+   */
+  private recordOf(
+    { response, session, verification }: RecordedCheckIn,
+    decision: AttendanceDecision,
+    receivedAt: Date
+  ): AttendanceRecord {
+    return {
+      studentId: response.studentId,
+      sessionId: session.id,
+      institutionId: session.institutionId,
+      status: decision.status,
+      timestamp: receivedAt.toISOString(),
+      rssi: response.rssi,
+      gpsLocation: response.location,
+      antiProxyData: { verification: { isValid: verification?.isValid !== false } },
+      decision
+    };
+  }
+
+  private receivedAt(checkIn: RecordedCheckIn): Date {
+    return new Date(checkIn.receivedAt || checkIn.verification?.timing?.receivedAt || checkIn.response.respondedAt);
+  }
+
+  private key(sessionId: string, studentId: string): string {
+    return `${sessionId}:${studentId}`;
+  }
+}
@@ -0,0 +1,389 @@
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { getRepositories } from '../storage';
+import { PolicyRepository } from '../storage/types';
+import { AttendanceSession } from '../types/attendance';
+import {
+  AntiProxyPolicy,
+  PolicyOverrides,
+  PolicyVersion,
+  ResolvedPolicy
+} from '../types/policy';
+
+export interface UpdatePolicyInput {
+  changes: PolicyOverrides;
+  updatedBy: string;
+  note?: string;
+}
+
+export class PolicyService {
+  /**
+   * Version 0: what every institution scores with until an admin edits its policy
+   */
+  static readonly DEFAULT_POLICY: AntiProxyPolicy = {
+    rssi: {
+      veryWeak: -90,
+      weak: -70,
+      medium: -50,
+      strong: -30,
+      maxDistanceMeters: 15
+    },
+    rssiSeries: {
+      minSamples: 5,
+      flatStdDevDb: 0.5, // Real BLE readings wander by a few dB even when nothing moves
+      maxJumpDb: 25,
+      smoothingAlpha: 0.3
+    },
+    responseTime: {
+      suspiciousFastMs: 200, // Under 200ms is likely automated
+      minHumanMs: 500,
+      maxReasonableMs: 10000
+    },
+    clock: {
+      minSamples: 3,
+      maxOffsetMs: 120000, // Phones syncing time automatically are within seconds
+      jumpToleranceMs: 5000,
+      maxDriftMsPerHour: 1000,
+      smoothingAlpha: 0.2
+    },
+    location: {
+      maxAccuracyErrorMeters: 50, // Assumed when a position reports no accuracy
+      minMovementTimeMs: 30000, // Minimum time between significant location changes
+      suspiciousJumpMeters: 1000
+    },
+    travel: {
+      windowHours: 12,
+      minDistanceMeters: 200, // Neighbouring buildings share a geofence's GPS error
+      maxSpeedMetersPerSecond: 15, // Driving across town, with no time to park
+      minStayMinutes: 10
+    },
+    wifi: {
+      fingerprintMinSamples: 5,
+      similarityDeviations: 3,
+      minSimilarityDrop: 0.15
+    },
+    devices: {
+      refuseUnbound: false,
+      rebindCooldownHours: 24,
+      usageWindowDays: 30
+    },
+    collusion: {
+      gpsDistanceMeters: 1,
+      maxSharedIpGroup: 4,
+      minWifiNetworks: 3,
+      timingGapRatio: 0.1,
+      minTimingGroup: 3,
+      minSignals: 2
+    },
+    behavior: {
+      minSamples: 5,
+      zScoreThreshold: 3,
+      minRoomFrequency: 0.05,
+      smoothingAlpha: 0.1 // Roughly the last 20 check-ins
+    },
+    decision: {
+      acceptBelow: 30,
+      rejectFrom: 70,
+      rejectFlags: ['invalidChallenge'], // A bad signature or replayed nonce is never a genuine check-in
+      reviewFlags: ['collusion', 'impossibleTravel'],
+      reviewPartial: true,
+      lateAfterMinutes: 15
+    },
+    detectors: {
+      disabled: [],
+      timeoutMs: 2000
+    },
+    weights: {
+      weakSignal: 0.2,
+      duplicateDevice: 0.3,
+      invalidLocation: 0.25,
+      suspiciousWifi: 0.15,
+      lateResponse: 0.1,
+      invalidChallenge: 0.4,
+      rootedDevice: 0.35,
+      mockedLocation: 0.3,
+      unusualPattern: 0.2,
+      outsideGeofence: 0.35,
+      rssiAnomaly: 0.25,
+      unboundDevice: 0.3,
+      collusion: 0.4,
+      clockManipulation: 0.25,
+      impossibleTravel: 0.4
+    }
+  };
+
+  constructor(private readonly policies: PolicyRepository = getRepositories().policies) {}
+
+  /**
+   * An institution's current policy, or the defaults if it never set one
+   */
+  async getPolicy(institutionId: string): Promise<PolicyVersion> {
+    const latest = await this.policies.getLatest(institutionId);
+    if (!latest) {
+      return this.defaultVersion(institutionId);
+    }
+    return { ...latest, policy: PolicyService.normalize(latest.policy) };
+  }
+
+  async listVersions(institutionId: string): Promise<PolicyVersion[]> {
+    return [...(await this.policies.listVersions(institutionId)), this.defaultVersion(institutionId)];
+  }
+
+  async getVersion(institutionId: string, version: number): Promise<PolicyVersion> {
+    const found = (await this.listVersions(institutionId)).find(entry => entry.version === version);
+    if (!found) {
+      throw new NotFoundError('Policy version not found', { institutionId, version });
+    }
+    return found;
+  }
+
+  /**
+   * Apply changes on top of the current policy and save the result as a new version
+   */
+  async updatePolicy(institutionId: string, input: UpdatePolicyInput): Promise<PolicyVersion> {
+    const created = await this.policies.append(institutionId, (latest) => {
+      const base = latest ? PolicyService.normalize(latest.policy) : PolicyService.DEFAULT_POLICY;
+      const policy = PolicyService.merge(base, input.changes);
+      PolicyService.assertValid(policy);
+      return this.nextVersion(institutionId, latest?.version ?? 0, policy, input.updatedBy, input.note);
+    });
+
+    logger.info(`Anti-proxy policy for institution ${institutionId} is now version ${created.version}`);
+    return created;
+  }
+
+  /**
+   * Make an earlier version current again by copying it into a new version
+   */
+  async restoreVersion(institutionId: string, version: number, restoredBy: string): Promise<PolicyVersion> {
+    const target = await this.getVersion(institutionId, version);
+    const created = await this.policies.append(institutionId, (latest) =>
+      this.nextVersion(institutionId, latest?.version ?? 0, target.policy, restoredBy, `Restored version ${version}`)
+    );
+
+    logger.info(`Anti-proxy policy for institution ${institutionId} restored from version ${version}`);
+    return created;
+  }
+
+  /**
+   * The policy a session is scored under
+   */
+  async resolve(session: AttendanceSession): Promise<ResolvedPolicy> {
+    const current = await this.getPolicy(session.institutionId);
+    const overrides = session.policyOverrides;
+    const sessionOverride = overrides !== undefined && Object.keys(overrides).length > 0;
+
+    return {
+      institutionId: session.institutionId,
+      version: current.version,
+      sessionOverride,
+      policy: sessionOverride ? PolicyService.merge(current.policy, overrides) : current.policy
+    };
+  }
+
+  /**
+   * Reject session overrides that would produce an invalid policy for the institution
+   */
+  async assertValidOverrides(institutionId: string, overrides: PolicyOverrides): Promise<void> {
+    const current = await this.getPolicy(institutionId);
+    PolicyService.assertValid(PolicyService.merge(current.policy, overrides));
+  }
+
+  static merge(base: AntiProxyPolicy, overrides: PolicyOverrides): AntiProxyPolicy {
+    const merged: Record<string, any> = JSON.parse(JSON.stringify(base));
+    for (const [section, values] of Object.entries(overrides)) {
+      if (values && typeof values === 'object') {
+        merged[section] = { ...merged[section], ...values };
+      }
+    }
+    return merged as AntiProxyPolicy;
+  }
+
+  /**
+   * Bring a saved policy up to the current shape: settings added since it was
+   * saved take their defaults and settings that no longer exist are dropped
+   */
+  static normalize(saved: AntiProxyPolicy): AntiProxyPolicy {
+    const normalized: Record<string, any> = {};
+    for (const [section, defaults] of Object.entries(PolicyService.DEFAULT_POLICY)) {
+      const values: Record<string, any> = (saved as Record<string, any>)[section] || {};
+      normalized[section] = Object.fromEntries(
+        Object.entries(defaults).map(([key, value]) => [key, key in values ? values[key] : value])
+      );
+    }
+    return normalized as AntiProxyPolicy;
+  }
+
+  /**
+   * Check every threshold and weight, collecting all problems into one error
+   */
+  static assertValid(policy: AntiProxyPolicy): void {
+    const errors: string[] = [];
+    const expectNumber = (path: string, value: unknown, min = -Infinity) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number`);
+      } else if (value < min) {
+        errors.push(`${path} must be at least ${min}`);
+      }
+    };
+
+    const defaults = PolicyService.DEFAULT_POLICY;
+    for (const section of Object.keys(policy) as (keyof AntiProxyPolicy)[]) {
+      if (!(section in defaults)) {
+        errors.push(`Unknown section ${section}`);
+        continue;
+      }
+      for (const key of Object.keys(policy[section])) {
+        if (!(key in defaults[section])) {
+          errors.push(`Unknown setting ${section}.${key}`);
+        }
+      }
+    }
+
+    const {
+      rssi, rssiSeries, responseTime, clock, location, travel, wifi, devices, collusion, behavior, decision, detectors,
+      weights
+    } = policy;
+    const { maxDistanceMeters, ...rssiThresholds } = rssi;
+    for (const [key, value] of Object.entries(rssiThresholds)) {
+      expectNumber(`rssi.${key}`, value);
+    }
+    expectNumber('rssi.maxDistanceMeters', maxDistanceMeters, 0);
+    if (!(rssi.veryWeak < rssi.weak && rssi.weak < rssi.medium && rssi.medium < rssi.strong)) {
+      errors.push('rssi thresholds must increase from veryWeak to strong');
+    }
+
+    expectNumber('rssiSeries.minSamples', rssiSeries.minSamples, 3);
+    expectNumber('rssiSeries.flatStdDevDb', rssiSeries.flatStdDevDb, 0);
+    expectNumber('rssiSeries.maxJumpDb', rssiSeries.maxJumpDb, 0);
+    expectNumber('rssiSeries.smoothingAlpha', rssiSeries.smoothingAlpha, 0);
+    if (!(rssiSeries.smoothingAlpha > 0 && rssiSeries.smoothingAlpha <= 1)) {
+      errors.push('rssiSeries.smoothingAlpha must be greater than 0 and at most 1');
+    }
+
+    for (const [key, value] of Object.entries(responseTime)) {
+      expectNumber(`responseTime.${key}`, value, 0);
+    }
+    if (!(responseTime.suspiciousFastMs <= responseTime.minHumanMs &&
+          responseTime.minHumanMs < responseTime.maxReasonableMs)) {
+      errors.push('responseTime must satisfy suspiciousFastMs <= minHumanMs < maxReasonableMs');
+    }
+
+    expectNumber('clock.minSamples', clock.minSamples, 1);
+    expectNumber('clock.maxOffsetMs', clock.maxOffsetMs, 0);
+    expectNumber('clock.jumpToleranceMs', clock.jumpToleranceMs, 0);
+    expectNumber('clock.maxDriftMsPerHour', clock.maxDriftMsPerHour, 0);
+    if (!(clock.smoothingAlpha > 0 && clock.smoothingAlpha <= 1)) {
+      errors.push('clock.smoothingAlpha must be greater than 0 and at most 1');
+    }
+
+    for (const [key, value] of Object.entries(location)) {
+      expectNumber(`location.${key}`, value, 0);
+    }
+
+    expectNumber('travel.windowHours', travel.windowHours, 0);
+    expectNumber('travel.minDistanceMeters', travel.minDistanceMeters, 0);
+    expectNumber('travel.maxSpeedMetersPerSecond', travel.maxSpeedMetersPerSecond, 0);
+    expectNumber('travel.minStayMinutes', travel.minStayMinutes, 0);
+    if (!(travel.maxSpeedMetersPerSecond > 0)) {
+      errors.push('travel.maxSpeedMetersPerSecond must be positive');
+    }
+
+    expectNumber('wifi.fingerprintMinSamples', wifi.fingerprintMinSamples, 1);
+    expectNumber('wifi.similarityDeviations', wifi.similarityDeviations, 0);
+    expectNumber('wifi.minSimilarityDrop', wifi.minSimilarityDrop, 0);
+    if (wifi.minSimilarityDrop > 1) {
+      errors.push('wifi.minSimilarityDrop cannot exceed 1');
+    }
+
+    if (typeof devices.refuseUnbound !== 'boolean') {
+      errors.push('devices.refuseUnbound must be true or false');
+    }
+    expectNumber('devices.rebindCooldownHours', devices.rebindCooldownHours, 0);
+    expectNumber('devices.usageWindowDays', devices.usageWindowDays, 1);
+
+    expectNumber('collusion.gpsDistanceMeters', collusion.gpsDistanceMeters, 0);
+    expectNumber('collusion.maxSharedIpGroup', collusion.maxSharedIpGroup, 2);
+    expectNumber('collusion.minWifiNetworks', collusion.minWifiNetworks, 1);
+    expectNumber('collusion.timingGapRatio', collusion.timingGapRatio, 0);
+    if (collusion.timingGapRatio >= 1) {
+      errors.push('collusion.timingGapRatio must be below 1');
+    }
+    expectNumber('collusion.minTimingGroup', collusion.minTimingGroup, 2);
+    expectNumber('collusion.minSignals', collusion.minSignals, 1);
+
+    expectNumber('behavior.minSamples', behavior.minSamples, 1);
+    expectNumber('behavior.zScoreThreshold', behavior.zScoreThreshold, 0);
+    expectNumber('behavior.minRoomFrequency', behavior.minRoomFrequency, 0);
+    if (behavior.minRoomFrequency > 1) {
+      errors.push('behavior.minRoomFrequency cannot exceed 1');
+    }
+    if (!(behavior.smoothingAlpha > 0 && behavior.smoothingAlpha <= 1)) {
+      errors.push('behavior.smoothingAlpha must be greater than 0 and at most 1');
+    }
+
+    expectNumber('decision.acceptBelow', decision.acceptBelow, 0);
+    expectNumber('decision.rejectFrom', decision.rejectFrom, 0);
+    if (!(decision.acceptBelow <= decision.rejectFrom)) {
+      errors.push('decision.acceptBelow cannot exceed decision.rejectFrom');
+    }
+    for (const key of ['rejectFlags', 'reviewFlags'] as const) {
+      const flags: unknown = decision[key];
+      if (!Array.isArray(flags) || !flags.every(flag => typeof flag === 'string' && flag in defaults.weights)) {
+        errors.push(`decision.${key} must be a list of flag names`);
+      }
+    }
+    if (typeof decision.reviewPartial !== 'boolean') {
+      errors.push('decision.reviewPartial must be true or false');
+    }
+    expectNumber('decision.lateAfterMinutes', decision.lateAfterMinutes, 0);
+
+    if (!Array.isArray(detectors.disabled) ||
+        !detectors.disabled.every(name => typeof name === 'string' && name.length > 0)) {
+      errors.push('detectors.disabled must be a list of detector names');
+    }
+    expectNumber('detectors.timeoutMs', detectors.timeoutMs, 1);
+
+    for (const [flag, weight] of Object.entries(weights)) {
+      expectNumber(`weights.${flag}`, weight, 0);
+      if (weight > 1) {
+        errors.push(`weights.${flag} cannot exceed 1`);
+      }
+    }
+    if (Object.values(weights).reduce((sum: number, weight) => sum + (Number(weight) || 0), 0) <= 0) {
+      errors.push('At least one weight must be positive');
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid anti-proxy policy', { errors });
+    }
+  }
+
+  private nextVersion(
+    institutionId: string,
+    previousVersion: number,
+    policy: AntiProxyPolicy,
+    createdBy: string,
+    note?: string
+  ): PolicyVersion {
+    return {
+      institutionId,
+      version: previousVersion + 1,
+      policy,
+      createdAt: new Date().toISOString(),
+      createdBy,
+      note
+    };
+  }
+
+  private defaultVersion(institutionId: string): PolicyVersion {
+    return {
+      institutionId,
+      version: 0,
+      policy: PolicyService.DEFAULT_POLICY,
+      createdAt: new Date(0).toISOString(),
+      createdBy: 'system',
+      note: 'Built-in defaults'
+    };
+  }
+}
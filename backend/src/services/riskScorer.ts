@@ -0,0 +1,75 @@
+import { AntiProxyFlags } from '../types/attendance';
+import { AntiProxyFlagName, AntiProxyPolicy } from '../types/policy';
+import { RiskBreakdown, RiskFindings } from '../types/risk';
+
+/**
+ * Turns the flags an analysis raised into its score and the breakdown that explains it
+ */
+export class RiskScorer {
+  static readonly FLAG_LABELS: Record<AntiProxyFlagName, string> = {
+    weakSignal: 'Weak Signal',
+    duplicateDevice: 'Duplicate Device',
+    invalidLocation: 'Suspicious Location',
+    suspiciousWifi: 'Suspicious WiFi',
+    lateResponse: 'Late Response',
+    invalidChallenge: 'Invalid Challenge',
+    rootedDevice: 'Rooted Device',
+    mockedLocation: 'Mocked Location',
+    unusualPattern: 'Unusual Pattern',
+    outsideGeofence: 'Outside Geofence',
+    rssiAnomaly: 'Signal Anomaly',
+    unboundDevice: 'Unbound Device',
+    collusion: 'Collusion',
+    clockManipulation: 'Clock Manipulation',
+    impossibleTravel: 'Impossible Travel'
+  };
+
+  /**
+   * Score the flags as independent evidence: each fired flag's weight is the
+   * chance it alone means a proxy, so the score is 100 * (1 - product of
+   * (1 - weight)) over the flags that fired. Flags that did not fire, or that
+   * a newer policy adds, do not lower it. Each fired flag is credited with a
+   * share of the score in proportion to its weight. Findings for flags that
+   * did not fire only lend their reason, such as why it was not checked.
+   */
+  static explain(
+    flags: Partial<AntiProxyFlags>,
+    findings: RiskFindings,
+    policy: AntiProxyPolicy,
+    policyVersion: number
+  ): RiskBreakdown {
+    const weights = Object.entries(policy.weights) as [AntiProxyFlagName, number][];
+    const fired = weights.filter(([flag]) => flags[flag] === true);
+    const firedWeight = fired.reduce((sum, [, weight]) => sum + weight, 0);
+    const score = 100 * (1 - fired.reduce((clear, [, weight]) => clear * (1 - Math.min(weight, 1)), 1));
+
+    const factors = weights.map(([flag, weight]) => {
+      const isFired = flags[flag] === true;
+      const label = RiskScorer.FLAG_LABELS[flag];
+      const finding = findings[flag];
+      return {
+        flag,
+        label,
+        fired: isFired,
+        weight,
+        contribution: isFired && firedWeight > 0 ? score * weight / firedWeight : 0,
+        reason: finding?.reason || (isFired ? label : `${label}: not detected`),
+        evidence: (isFired && finding?.evidence) || {}
+      };
+    });
+
+    return { score, policyVersion, factors };
+  }
+
+  /**
+   * The findings behind an earlier breakdown, so it can be explained again
+   * once another check fires
+   */
+  static findingsOf(breakdown?: RiskBreakdown): RiskFindings {
+    const findings: RiskFindings = {};
+    for (const factor of breakdown?.factors || []) {
+      findings[factor.flag] = { reason: factor.reason, evidence: factor.evidence };
+    }
+    return findings;
+  }
+}
@@ -0,0 +1,105 @@
+import { getRepositories } from '../storage';
+import { KeyValueRepository } from '../storage/types';
+import { RssiReading } from '../types/attendance';
+import { AntiProxyPolicy } from '../types/policy';
+
+export interface RssiSeriesAnalysis {
+  samples: number;
+  spanMs: number;
+  mean: number;
+  stdDev: number;
+  /** Exponentially smoothed value at the latest reading */
+  smoothed: number;
+  /** Least-squares slope; positive means the student is getting closer */
+  trendDbPerSecond: number;
+  maxJumpDb: number;
+  jumps: number;
+  flat: boolean;
+  suspicious: boolean;
+}
+
+/**
+ * Timestamped RSSI readings the instructor's scan takes of each student during a session
+ */
+export class RssiSeriesService {
+  private static readonly MAX_READINGS = 60; // Only the most recent readings matter
+  private static readonly SERIES_TTL_MS = 6 * 3600 * 1000; // Outlives any session
+
+  constructor(private readonly cache: KeyValueRepository = getRepositories().cache) {}
+
+  /**
+   * Add readings to a student's series, ignoring any already recorded for the same instant
+   */
+  async record(sessionId: string, studentId: string, readings: RssiReading[]): Promise<void> {
+    const byTime = new Map((await this.getSeries(sessionId, studentId)).map(reading => [reading.observedAt, reading]));
+    for (const reading of readings) {
+      const observedAt = new Date(reading.observedAt).toISOString();
+      if (!byTime.has(observedAt)) {
+        byTime.set(observedAt, { rssi: reading.rssi, observedAt });
+      }
+    }
+
+    const series = [...byTime.values()]
+      .sort((a, b) => a.observedAt.localeCompare(b.observedAt))
+      .slice(-RssiSeriesService.MAX_READINGS);
+    await this.cache.set(this.key(sessionId, studentId), series, RssiSeriesService.SERIES_TTL_MS);
+  }
+
+  async getSeries(sessionId: string, studentId: string): Promise<RssiReading[]> {
+    return (await this.cache.get<RssiReading[]>(this.key(sessionId, studentId))) || [];
+  }
+
+  /**
+   * Smooth the student's series and look for the signs of a relay or replay:
+   * a signal that never fluctuates, or one that leaps between readings.
+   * Null until the scan has taken enough readings.
+   */
+  async analyze(
+    sessionId: string,
+    studentId: string,
+    thresholds: AntiProxyPolicy['rssiSeries']
+  ): Promise<RssiSeriesAnalysis | null> {
+    const series = await this.getSeries(sessionId, studentId);
+    if (series.length < thresholds.minSamples) {
+      return null;
+    }
+
+    const values = series.map(reading => reading.rssi);
+    const seconds = series.map(reading => new Date(reading.observedAt).getTime() / 1000);
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const stdDev = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+
+    const smoothed = values.slice(1).reduce(
+      (current, value) => current + thresholds.smoothingAlpha * (value - current),
+      values[0]
+    );
+
+    const meanTime = seconds.reduce((sum, time) => sum + time, 0) / seconds.length;
+    const timeVariance = seconds.reduce((sum, time) => sum + (time - meanTime) ** 2, 0);
+    const trendDbPerSecond = timeVariance === 0
+      ? 0
+      : seconds.reduce((sum, time, i) => sum + (time - meanTime) * (values[i] - mean), 0) / timeVariance;
+
+    const changes = values.slice(1).map((value, i) => Math.abs(value - values[i]));
+    const jumps = changes.filter(change => change > thresholds.maxJumpDb).length;
+    const flat = stdDev < thresholds.flatStdDevDb;
+
+    return {
+      samples: values.length,
+      spanMs: (seconds[seconds.length - 1] - seconds[0]) * 1000,
+      mean,
+      stdDev,
+      smoothed,
+      trendDbPerSecond,
+      maxJumpDb: Math.max(...changes),
+      jumps,
+      flat,
+      suspicious: flat || jumps > 0
+    };
+  }
+
+  private key(sessionId: string, studentId: string): string {
+    return `rssi:${sessionId}:${studentId}`;
+  }
+}
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { getRepositories } from '../storage';
+import { SessionRepository } from '../storage/types';
+import { emitToSession } from '../websocket/socketHandler';
+import { ConflictError, InvalidSessionTransitionError, NotFoundError, ValidationError } from '../utils/errors';
+import { AttendanceSession, GeofenceData, SessionStatus } from '../types/attendance';
+import { PolicyOverrides } from '../types/policy';
+
+export interface CreateSessionInput {
+  institutionId: string;
+  instructorId: string;
+  classId: string;
+  className: string;
+  subject: string;
+  startTime: string;
+  endTime: string;
+  geofence: GeofenceData;
+  timeWindowMinutes: number;
+  metadata?: Record<string, any>;
+}
+
+export type UpdateSessionInput = Partial<Omit<CreateSessionInput, 'institutionId' | 'instructorId'>> & {
+  policyOverrides?: PolicyOverrides;
+};
+
+export interface SessionFilters {
+  institutionId?: string;
+  instructorId?: string;
+  classId?: string;
+  status?: SessionStatus;
+}
+
+export class SessionService {
+  /**
+   * Allowed status transitions, mirroring the app's SessionStatus enum
+   */
+  static readonly TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+    created: ['active', 'cancelled'],
+    active: ['completed', 'cancelled'],
+    completed: [],
+    cancelled: []
+  };
+
+  constructor(private readonly sessions: SessionRepository = getRepositories().sessions) {}
+
+  async createSession(input: CreateSessionInput): Promise<AttendanceSession> {
+    SessionService.assertSchedule(input.startTime, input.endTime);
+    const session = await this.sessions.create({
+      institutionId: input.institutionId,
+      instructorId: input.instructorId,
+      classId: input.classId,
+      className: input.className,
+      subject: input.subject,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      geofence: input.geofence,
+      timeWindowMinutes: input.timeWindowMinutes,
+      challengeCode: crypto.randomBytes(32).toString('base64url'),
+      status: 'created',
+      detectedStudentIds: [],
+      metadata: input.metadata || {},
+      createdAt: new Date().toISOString()
+    });
+
+    logger.info(`Created session ${session.id} for class ${session.classId}`);
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<AttendanceSession> {
+    const session = await this.sessions.get(sessionId);
+    if (!session) {
+      throw new NotFoundError('Session not found', { sessionId });
+    }
+    return session;
+  }
+
+  async listSessions(filters: SessionFilters = {}): Promise<AttendanceSession[]> {
+    return this.sessions.list(filters);
+  }
+
+  /**
+   * An institution's sessions starting at or after the given time, newest first
+   */
+  async listSessionsSince(institutionId: string, from: string, limit?: number): Promise<AttendanceSession[]> {
+    return this.sessions.list({ institutionId, startingFrom: from, limit });
+  }
+
+  /**
+   * Edit session details. Finished sessions are read-only.
+   */
+  async updateSession(sessionId: string, changes: UpdateSessionInput): Promise<AttendanceSession> {
+    const session = await this.getSession(sessionId);
+    if (session.status === 'completed' || session.status === 'cancelled') {
+      throw new ConflictError(`Cannot edit a ${session.status} session`, { sessionId });
+    }
+
+    const updated: AttendanceSession = {
+      ...session,
+      ...changes,
+      updatedAt: new Date().toISOString()
+    };
+    SessionService.assertSchedule(updated.startTime, updated.endTime);
+
+    await this.sessions.save(updated);
+    return updated;
+  }
+
+  /**
+   * Note a student picked up by the instructor's BLE scan
+   */
+  async addDetectedStudent(sessionId: string, studentId: string): Promise<void> {
+    await this.sessions.update(sessionId, (session) => {
+      if (!session) {
+        throw new NotFoundError('Session not found', { sessionId });
+      }
+      return session.detectedStudentIds.includes(studentId)
+        ? session
+        : { ...session, detectedStudentIds: [...session.detectedStudentIds, studentId] };
+    });
+  }
+
+  /**
+   * Delete a session that has not started yet
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session.status !== 'created') {
+      throw new ConflictError(`Cannot delete a ${session.status} session; cancel it instead`, { sessionId });
+    }
+    await this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Move a session to a new status if the state machine allows it
+   */
+  async transition(sessionId: string, to: SessionStatus): Promise<AttendanceSession> {
+    let from: SessionStatus = to;
+    const session = await this.sessions.update(sessionId, (current) => {
+      if (!current) {
+        throw new NotFoundError('Session not found', { sessionId });
+      }
+      if (!SessionService.TRANSITIONS[current.status].includes(to)) {
+        throw new InvalidSessionTransitionError(sessionId, current.status, to);
+      }
+
+      from = current.status;
+      return { ...current, status: to, updatedAt: new Date().toISOString() };
+    });
+
+    logger.info(`Session ${sessionId} moved from ${from} to ${to}`);
+    emitToSession(sessionId, 'session:status_changed', {
+      sessionId,
+      previousStatus: from,
+      status: to,
+      changedAt: session.updatedAt as string
+    });
+
+    return session;
+  }
+
+  /**
+   * A session must end after it starts
+   */
+  private static assertSchedule(startTime: string, endTime: string): void {
+    if (new Date(startTime).getTime() >= new Date(endTime).getTime()) {
+      throw new ValidationError('Session must end after it starts', { startTime, endTime });
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { getRepositories } from '../storage';
+import { AnalysisRepository, KeyValueRepository, SessionRepository } from '../storage/types';
+import { AttendanceSession } from '../types/attendance';
+import { TravelConflict, TravelFinding } from '../types/travel';
+import { AttendanceService } from './attendanceService';
+import { PolicyService } from './policyService';
+import { RiskScorer } from './riskScorer';
+import { DecisionEngine } from './decisionEngine';
+
+/**
+ * Keeps the impossible-travel conflicts the travel detector finds and flags
+ * both check-ins of each, so either can be reviewed with the other at hand
+ */
+export class TravelService {
+  private static readonly MAX_FINDINGS = 100; // Per student, newest kept
+
+  constructor(
+    private readonly sessions: SessionRepository = getRepositories().sessions,
+    private readonly analyses: AnalysisRepository = getRepositories().analyses,
+    private readonly patterns: KeyValueRepository = getRepositories().patterns,
+    private readonly attendanceService: AttendanceService = new AttendanceService(),
+    private readonly policyService: PolicyService = new PolicyService()
+  ) {}
+
+  /**
+   * One sentence for the conflicts, from the point of view of one of the sessions
+   */
+  static describe(conflicts: TravelConflict[], sessionId: string): string {
+    return conflicts.map((conflict) => {
+      const other = conflict.from.sessionId === sessionId ? conflict.to : conflict.from;
+      const distance = `${(conflict.distanceMeters / 1000).toFixed(1)}km`;
+      return conflict.requiredSpeedMetersPerSecond === null
+        ? `Also checked in to ${other.className}, ${distance} away, with no time to travel between them`
+        : `Also checked in to ${other.className}, ${distance} away, ` +
+          `${(conflict.availableMs / 60000).toFixed(0)} min apart`;
+    }).join('; ');
+  }
+
+  /**
+   * Record the conflicts a check-in raised and flag every record involved
+   * with its re-explained risk and the decision made from it
+   */
+  async link(session: AttendanceSession, studentId: string, conflicts: TravelConflict[]): Promise<TravelFinding[]> {
+    const createdAt = new Date().toISOString();
+    const findings: TravelFinding[] = conflicts.map(conflict => ({
+      id: crypto.randomUUID(),
+      institutionId: session.institutionId,
+      studentId,
+      ...conflict,
+      createdAt
+    }));
+    const existing = await this.getFindings(studentId);
+    await this.patterns.set(this.key(studentId), [...findings, ...existing].slice(0, TravelService.MAX_FINDINGS));
+
+    const sessionIds = new Set(findings.flatMap(finding => [finding.from.sessionId, finding.to.sessionId]));
+    for (const sessionId of sessionIds) {
+      const involved = findings.filter(finding => finding.from.sessionId === sessionId || finding.to.sessionId === sessionId);
+      await this.mark(sessionId, studentId, involved);
+    }
+
+    logger.info(`Impossible travel for student ${studentId}: ${findings.length} findings across ${sessionIds.size} sessions`);
+    return findings;
+  }
+
+  /**
+   * The student's findings, newest first
+   */
+  async getFindings(studentId: string): Promise<TravelFinding[]> {
+    return (await this.patterns.get<TravelFinding[]>(this.key(studentId))) || [];
+  }
+
+  private async mark(sessionId: string, studentId: string, findings: TravelFinding[]): Promise<void> {
+    const session = await this.sessions.get(sessionId);
+    if (!session) {
+      logger.warn(`Cannot flag impossible travel in session ${sessionId}: it no longer exists`);
+      return;
+    }
+
+    const resolved = await this.policyService.resolve(session);
+    const analysis = (await this.analyses.listBySession(sessionId))
+      .filter(candidate => candidate.studentId === studentId)
+      .pop();
+    const flags = { ...analysis?.flags, impossibleTravel: true };
+    const breakdown = RiskScorer.explain(
+      flags,
+      {
+        ...RiskScorer.findingsOf(analysis?.breakdown),
+        impossibleTravel: {
+          reason: TravelService.describe(findings, sessionId),
+          evidence: { findingIds: findings.map(finding => finding.id) }
+        }
+      },
+      resolved.policy,
+      resolved.version
+    );
+    const decision = DecisionEngine.decide(
+      {
+        flags,
+        riskScore: breakdown.score,
+        partial: analysis?.detectors?.some(report => report.status === 'failed'),
+        checkedInAt: new Date(analysis?.timestamp ?? Date.now()).toISOString()
+      },
+      session,
+      resolved
+    );
+    await this.attendanceService.markImpossibleTravel(
+      sessionId,
+      studentId,
+      findings.map(finding => finding.id),
+      breakdown,
+      decision
+    );
+  }
+
+  private key(studentId: string): string {
+    return `travel:${studentId}:findings`;
+  }
+}
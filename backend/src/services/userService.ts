@@ -0,0 +1,34 @@
+import { NotFoundError } from '../utils/errors';
+import { getRepositories } from '../storage';
+import { UserRepository } from '../storage/types';
+import { User } from '../types/attendance';
+
+export class UserService {
+  constructor(private readonly users: UserRepository = getRepositories().users) {}
+
+  async getUser(userId: string): Promise<User> {
+    const user = await this.users.get(userId);
+    if (!user) {
+      throw new NotFoundError('User not found', { userId });
+    }
+    return user;
+  }
+
+  /**
+   * The user with this email, if any
+   */
+  async findByEmail(email: string): Promise<User | null> {
+    return this.users.getByEmail(email);
+  }
+
+  async recordLogin(userId: string): Promise<void> {
+    await this.users.update(userId, { lastLoginAt: new Date().toISOString() });
+  }
+
+  /**
+   * Look up several users by id. Unknown ids are omitted from the result.
+   */
+  async getUsers(userIds: string[]): Promise<Map<string, User>> {
+    return this.users.getMany(userIds);
+  }
+}
@@ -0,0 +1,178 @@
+import { getRepositories } from '../storage';
+import { KeyValueRepository } from '../storage/types';
+import { WifiObservation } from '../types/attendance';
+
+interface AccessPointStats {
+  /** Share of trusted check-ins that saw this access point, smoothed */
+  frequency: number;
+  meanLevel?: number;
+}
+
+interface RoomFingerprint {
+  roomKey: string;
+  samples: number;
+  accessPoints: Record<string, AccessPointStats>;
+  /** Running mean and variance of trusted check-ins' similarity to the fingerprint */
+  similarityMean: number;
+  similarityVariance: number;
+  updatedAt: string;
+}
+
+export interface WifiSimilarity {
+  roomKey: string;
+  similarity: number;
+  usualSimilarity: number;
+  threshold: number;
+  samples: number;
+}
+
+export interface WifiThresholds {
+  fingerprintMinSamples: number;
+  similarityDeviations: number;
+  minSimilarityDrop: number;
+}
+
+export class WifiFingerprintService {
+  private static readonly MAX_SMOOTHING_WINDOW = 50; // Later check-ins weigh like a 50-sample moving average
+  private static readonly MIN_FREQUENCY = 0.02; // Access points seen less often than this are forgotten
+  private static readonly WEAKEST_LEVEL = -100;
+  private static readonly STRONGEST_LEVEL = -30;
+
+  constructor(private readonly patterns: KeyValueRepository = getRepositories().patterns) {}
+
+  /**
+   * Normalize a scan to BSSIDs. Older clients only send network names, which
+   * stand in for BSSIDs without signal levels.
+   */
+  static observations(wifiScan?: WifiObservation[], wifiNetworks?: string[]): WifiObservation[] {
+    if (wifiScan && wifiScan.length > 0) {
+      return wifiScan.map(observation => ({ ...observation, bssid: observation.bssid.toLowerCase() }));
+    }
+    return (wifiNetworks || []).map(name => ({ bssid: name }));
+  }
+
+  /**
+   * Weighted Jaccard similarity of a scan to the room's fingerprint, or null
+   * while the room has too few trusted check-ins to judge
+   */
+  async score(roomKey: string, scan: WifiObservation[], thresholds: WifiThresholds): Promise<WifiSimilarity | null> {
+    const fingerprint = await this.getFingerprint(roomKey);
+    if (!fingerprint || fingerprint.samples < thresholds.fingerprintMinSamples) {
+      return null;
+    }
+
+    const drop = Math.max(
+      thresholds.similarityDeviations * Math.sqrt(fingerprint.similarityVariance),
+      thresholds.minSimilarityDrop
+    );
+    return {
+      roomKey,
+      similarity: this.similarity(fingerprint, scan),
+      usualSimilarity: fingerprint.similarityMean,
+      threshold: fingerprint.similarityMean - drop,
+      samples: fingerprint.samples
+    };
+  }
+
+  /**
+   * Fold a trusted check-in's scan into the room's fingerprint
+   */
+  async learn(roomKey: string, scan: WifiObservation[]): Promise<void> {
+    if (scan.length === 0) {
+      return;
+    }
+
+    const fingerprint = (await this.getFingerprint(roomKey)) || this.emptyFingerprint(roomKey);
+    const window = WifiFingerprintService.MAX_SMOOTHING_WINDOW;
+
+    // The first check-in has nothing to be compared with
+    if (fingerprint.samples > 0) {
+      const similarity = this.similarity(fingerprint, scan);
+      const beta = 1 / Math.min(fingerprint.samples, window);
+      const delta = similarity - fingerprint.similarityMean;
+      fingerprint.similarityMean += beta * delta;
+      fingerprint.similarityVariance = (1 - beta) * (fingerprint.similarityVariance + beta * delta * delta);
+    }
+
+    const alpha = 1 / Math.min(fingerprint.samples + 1, window);
+
+    const seen = new Map(scan.map(observation => [observation.bssid, observation]));
+    for (const bssid of new Set([...Object.keys(fingerprint.accessPoints), ...seen.keys()])) {
+      const stats = fingerprint.accessPoints[bssid] || { frequency: 0 };
+      const observation = seen.get(bssid);
+
+      stats.frequency += alpha * ((observation ? 1 : 0) - stats.frequency);
+      if (observation?.level !== undefined) {
+        stats.meanLevel = stats.meanLevel === undefined
+          ? observation.level
+          : stats.meanLevel + alpha * (observation.level - stats.meanLevel);
+      }
+
+      if (stats.frequency < WifiFingerprintService.MIN_FREQUENCY) {
+        delete fingerprint.accessPoints[bssid];
+      } else {
+        fingerprint.accessPoints[bssid] = stats;
+      }
+    }
+
+    fingerprint.samples += 1;
+    fingerprint.updatedAt = new Date().toISOString();
+
+    await this.patterns.set(this.key(roomKey), fingerprint);
+  }
+
+  /**
+   * Sum of per-access-point minimum weights over the sum of maximums.
+   * A fingerprint weight is how often the AP is seen times how strongly.
+   */
+  private similarity(fingerprint: RoomFingerprint, scan: WifiObservation[]): number {
+    const expected = new Map(
+      Object.entries(fingerprint.accessPoints).map(([bssid, stats]) => [
+        bssid,
+        stats.frequency * this.levelWeight(stats.meanLevel)
+      ])
+    );
+    const observed = new Map(scan.map(observation => [observation.bssid, this.levelWeight(observation.level)]));
+
+    let intersection = 0;
+    let union = 0;
+    for (const bssid of new Set([...expected.keys(), ...observed.keys()])) {
+      const a = expected.get(bssid) || 0;
+      const b = observed.get(bssid) || 0;
+      intersection += Math.min(a, b);
+      union += Math.max(a, b);
+    }
+    return union === 0 ? 0 : intersection / union;
+  }
+
+  /**
+   * Map a signal level to (0, 1]; unknown levels count fully
+   */
+  private levelWeight(level?: number): number {
+    if (level === undefined) {
+      return 1;
+    }
+    const { WEAKEST_LEVEL, STRONGEST_LEVEL } = WifiFingerprintService;
+    const scaled = (level - WEAKEST_LEVEL) / (STRONGEST_LEVEL - WEAKEST_LEVEL);
+    return Math.min(1, Math.max(0.05, scaled));
+  }
+
+  private getFingerprint(roomKey: string): Promise<RoomFingerprint | null> {
+    return this.patterns.get<RoomFingerprint>(this.key(roomKey));
+  }
+
+  private emptyFingerprint(roomKey: string): RoomFingerprint {
+    return {
+      roomKey,
+      samples: 0,
+      accessPoints: {},
+      similarityMean: 0,
+      similarityVariance: 0,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private key(roomKey: string): string {
+    return `wifi:${roomKey}:fingerprint`;
+  }
+}
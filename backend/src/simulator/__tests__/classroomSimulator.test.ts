@@ -0,0 +1,93 @@
+import { PolicyReplayService } from '../../services/policyReplayService';
+import { PolicyService } from '../../services/policyService';
+import { createMemoryRepositories } from '../../storage/memoryStore';
+import { ReplayPolicy } from '../../types/replay';
+import { SimulationOptions } from '../../types/simulation';
+import { ClassroomSimulator } from '../classroomSimulator';
+
+const OPTIONS: SimulationOptions = {
+  seed: 7,
+  sessions: 2,
+  students: 10,
+  attendanceRate: 1,
+  attackRates: {},
+  startTime: '2026-09-07T09:00:00.000Z',
+  classroom: {
+    institutionId: 'sim-institution',
+    geofence: { latitude: 52.2053, longitude: 0.1218, radiusMeters: 50, buildingName: 'Main', roomNumber: '101' },
+    roomSizeMeters: 12,
+    accessPoints: 4,
+    measuredPower: -52,
+    pathLossExponent: 2,
+    signalNoiseDb: 4
+  }
+};
+
+const simulate = (changes: Partial<SimulationOptions> = {}) =>
+  new ClassroomSimulator({ ...OPTIONS, ...changes }).run();
+
+describe('ClassroomSimulator', () => {
+  it('generates the same classes from the same seed', () => {
+    expect(simulate()).toEqual(simulate());
+    expect(simulate({ seed: 8 }).checkIns).not.toEqual(simulate().checkIns);
+  });
+
+  it('checks in every attending student once per session, a day apart', () => {
+    const result = simulate();
+
+    expect(result.sessions.map(session => session.startTime)).toEqual([
+      '2026-09-07T09:00:00.000Z',
+      '2026-09-08T09:00:00.000Z'
+    ]);
+    expect(result.checkIns).toHaveLength(20);
+    for (const session of result.sessions) {
+      const students = result.checkIns
+        .filter(checkIn => checkIn.session.id === session.id)
+        .map(checkIn => checkIn.response.studentId);
+      expect(new Set(students).size).toBe(10);
+    }
+    expect(result.checkIns.every(checkIn => checkIn.label === 'genuine' && !checkIn.attack)).toBe(true);
+    expect(result.checkIns.every(checkIn => checkIn.verification?.isValid && checkIn.binding?.status === 'bound'))
+      .toBe(true);
+  });
+
+  it('labels attacks as proxies, from home or on a classmate\'s phone', () => {
+    const remote = simulate({ attackRates: { remoteProxy: 1 } });
+    expect(remote.checkIns).toHaveLength(20);
+    expect(remote.checkIns.every(checkIn => checkIn.label === 'proxy' && checkIn.attack === 'remoteProxy')).toBe(true);
+
+    const shared = simulate({ attackRates: { sharedDevice: 0.5 } }).checkIns.filter(c => c.attack === 'sharedDevice');
+    expect(shared.length).toBeGreaterThan(0);
+    for (const checkIn of shared) {
+      expect(checkIn.binding?.status).toBe('mismatch');
+      expect(checkIn.verification?.flags).toEqual({ invalidChallenge: true });
+    }
+  });
+
+  it('overrides each record to what its check-in really was', () => {
+    const result = simulate({ attackRates: { emulator: 0.3 } });
+
+    result.checkIns.forEach((checkIn, i) => {
+      expect(result.records[i]).toMatchObject({
+        studentId: checkIn.response.studentId,
+        sessionId: checkIn.session.id,
+        status: checkIn.label === 'genuine' ? 'present' : 'absent',
+        manualOverride: true
+      });
+    });
+  });
+
+  it('produces check-ins the replay tool can label and decide', async () => {
+    const result = simulate({ attackRates: { remoteProxy: 0.3 } });
+    const proxies = result.checkIns.filter(checkIn => checkIn.label === 'proxy').length;
+    const defaults: ReplayPolicy = { version: 0, policy: PolicyService.DEFAULT_POLICY };
+
+    const repositories = createMemoryRepositories();
+    const replay = new PolicyReplayService(repositories.sessions, repositories.analyses, repositories.records);
+    const report = await replay.replay(result.checkIns, result.records, defaults, defaults);
+
+    expect(report.checkIns).toBe(result.checkIns.length);
+    expect(report.labeled).toEqual({ genuine: result.checkIns.length - proxies, proxy: proxies });
+    expect(report.baseline.decisions.truePositives).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,152 @@
+import { AttendanceSession, AttendanceStatus, ChallengeData } from '../types/attendance';
+import { AttendanceDecision } from '../types/decision';
+import { IssuedDeviceKey } from '../types/device';
+import { SimulatedApiOutcome } from '../types/simulation';
+import { logger } from '../utils/logger';
+import { ClassroomSimulator, SimulatedDevice, SimulatedStudent } from './classroomSimulator';
+
+/**
+ * Accounts the simulation acts as on a running backend. Users cannot be
+ * created through the API, so the students must already exist; their tokens
+ * come from POST /api/auth/login.
+ */
+export interface SimulatorRoster {
+  instructorToken: string;
+  students: { studentId: string; accessToken: string }[];
+}
+
+interface ApiReply<T> {
+  status: number;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * The JSON the API answers with; rate-limited requests get plain text instead
+ */
+interface ApiBody<T> {
+  success?: boolean;
+  data?: T;
+  error?: { code?: string; message?: string };
+}
+
+/**
+ * What POST /api/challenges/respond reports about a check-in
+ */
+interface CheckInReply {
+  verification: NonNullable<SimulatedApiOutcome['verification']>;
+  status: AttendanceStatus;
+  decision?: AttendanceDecision;
+}
+
+/**
+ * Sends simulated check-ins through a running backend, end to end: devices
+ * are registered, the session's instructor issues a real challenge, and each
+ * student responds with their own token
+ */
+export class ApiDriver {
+  private static readonly MAX_RATE_LIMIT_RETRIES = 20;
+  private static readonly DEFAULT_RETRY_AFTER_S = 60;
+
+  constructor(private readonly baseUrl: string, private readonly roster: SimulatorRoster) {}
+
+  async getSession(sessionId: string): Promise<AttendanceSession> {
+    return this.expect(await this.request<AttendanceSession>('GET', `/api/sessions/${sessionId}`, this.roster.instructorToken));
+  }
+
+  /**
+   * One challenge for the session, answered by every simulated check-in.
+   * The server times responses by when they arrive, so the simulated delays
+   * are not reproduced. Requests the server rate-limits are retried once it
+   * allows them, but responses held back past the challenge's expiry are
+   * late; raise the server's limits for a whole class (see simulateClassroom).
+   */
+  async run(simulator: ClassroomSimulator, session: AttendanceSession): Promise<SimulatedApiOutcome[]> {
+    const students = simulator.createStudents(this.roster.students.map(student => student.studentId));
+    for (const student of students) {
+      // The phone goes first so it is the device the student is bound to
+      await this.register(student, student.phone);
+      await this.register(student, student.emulator);
+    }
+
+    const challenge = this.expect(
+      await this.request<ChallengeData>('POST', '/api/challenges', this.roster.instructorToken, { sessionId: session.id })
+    );
+    const checkIns = simulator.simulateSession(session, challenge, students)
+      .sort((a, b) => new Date(a.receivedAt!).getTime() - new Date(b.receivedAt!).getTime());
+
+    const outcomes: SimulatedApiOutcome[] = [];
+    for (const checkIn of checkIns) {
+      const { response, label, attack } = checkIn;
+      const reply = await this.request<CheckInReply>('POST', '/api/challenges/respond', this.tokenOf(response.studentId), response);
+      outcomes.push({
+        sessionId: session.id,
+        studentId: response.studentId,
+        label,
+        attack,
+        httpStatus: reply.status,
+        status: reply.data?.status,
+        decision: reply.data?.decision,
+        verification: reply.data?.verification,
+        error: reply.error
+      });
+    }
+    return outcomes;
+  }
+
+  /**
+   * Register the device to its student and sign with the secret the backend issues
+   */
+  private async register(student: SimulatedStudent, device: SimulatedDevice): Promise<void> {
+    const issued = this.expect(await this.request<IssuedDeviceKey>(
+      'POST',
+      '/api/devices/register',
+      this.tokenOf(student.studentId),
+      {
+        deviceId: device.deviceId,
+        platform: device.platform,
+        manufacturer: device.manufacturer,
+        model: device.model,
+        deviceFingerprint: device.deviceFingerprint
+      }
+    ));
+    device.secret = issued.secret;
+  }
+
+  private tokenOf(studentId: string): string {
+    const student = this.roster.students.find(entry => entry.studentId === studentId);
+    if (!student) {
+      throw new Error(`No access token for student ${studentId}`);
+    }
+    return student.accessToken;
+  }
+
+  /**
+   * Send a request, waiting out the server's rate limits as its Retry-After asks
+   */
+  private async request<T>(method: string, path: string, token: string, body?: unknown): Promise<ApiReply<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      if (response.status === 429 && attempt < ApiDriver.MAX_RATE_LIMIT_RETRIES) {
+        const retryAfterS = Number(response.headers.get('retry-after')) || ApiDriver.DEFAULT_RETRY_AFTER_S;
+        logger.warn(`Rate limited on ${method} ${path}, retrying in ${retryAfterS}s`);
+        await new Promise(resolve => setTimeout(resolve, retryAfterS * 1000));
+        continue;
+      }
+
+      const json = await response.json().catch((): ApiBody<T> => ({})) as ApiBody<T>;
+      return { status: response.status, data: json.data, error: json.error?.message };
+    }
+  }
+
+  private expect<T>(reply: ApiReply<T>): T {
+    if (reply.status >= 300 || reply.data === undefined) {
+      throw new Error(`Request failed with ${reply.status}: ${reply.error || 'no response body'}`);
+    }
+    return reply.data;
+  }
+}
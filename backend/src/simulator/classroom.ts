@@ -0,0 +1,145 @@
+import { Position, WifiObservation } from '../types/attendance';
+import { ClassroomOptions } from '../types/simulation';
+import { Coordinates, haversineDistance } from '../utils/geo';
+import { SeededRandom } from './random';
+
+export interface AccessPoint extends Coordinates {
+  bssid: string;
+  ssid: string;
+  /** Level 1m away, in dBm */
+  txPower: number;
+}
+
+/**
+ * Offset from a point, in meters east and north
+ */
+export interface Offset {
+  east: number;
+  north: number;
+}
+
+/**
+ * A place with its own WiFi networks, such as a room on campus or a student's home
+ */
+export class RadioEnvironment {
+  private static readonly WIFI_PATH_LOSS_EXPONENT = 3; // Walls and furniture indoors
+  private static readonly WIFI_FLOOR = -90; // Phones do not report weaker networks
+  private static readonly METERS_PER_DEGREE = 111320;
+
+  constructor(
+    readonly center: Coordinates,
+    private readonly accessPoints: AccessPoint[],
+    private readonly noiseDb: number,
+    protected readonly random: SeededRandom
+  ) {}
+
+  /**
+   * Access points scattered within the spread around the center
+   */
+  static accessPointsAround(
+    center: Coordinates,
+    count: number,
+    spreadMeters: number,
+    ssids: string[],
+    random: SeededRandom
+  ): AccessPoint[] {
+    return Array.from({ length: count }, () => ({
+      ...RadioEnvironment.offset(center, {
+        east: random.between(-spreadMeters, spreadMeters),
+        north: random.between(-spreadMeters, spreadMeters)
+      }),
+      bssid: random.hex(6).replace(/(..)(?!$)/g, '$1:'),
+      ssid: random.pick(ssids),
+      txPower: random.between(-45, -35)
+    }));
+  }
+
+  static offset(from: Coordinates, { east, north }: Offset): Coordinates {
+    return {
+      latitude: from.latitude + north / RadioEnvironment.METERS_PER_DEGREE,
+      longitude: from.longitude +
+        east / (RadioEnvironment.METERS_PER_DEGREE * Math.cos(from.latitude * Math.PI / 180))
+    };
+  }
+
+  /**
+   * What a phone at the point hears, strongest first
+   */
+  scan(at: Coordinates): WifiObservation[] {
+    return this.accessPoints
+      .map(accessPoint => ({
+        bssid: accessPoint.bssid,
+        ssid: accessPoint.ssid,
+        level: Math.round(this.level(accessPoint.txPower, RadioEnvironment.WIFI_PATH_LOSS_EXPONENT, at, accessPoint))
+      }))
+      .filter(observation => observation.level > RadioEnvironment.WIFI_FLOOR)
+      .sort((a, b) => b.level - a.level);
+  }
+
+  /**
+   * A GPS fix around the true point, off by about the accuracy it reports
+   */
+  fix(at: Coordinates, accuracyMeters: number, timestamp: number): Position {
+    return {
+      ...RadioEnvironment.offset(at, {
+        east: this.random.normal(0, accuracyMeters / 2),
+        north: this.random.normal(0, accuracyMeters / 2)
+      }),
+      accuracy: Math.round(accuracyMeters * 10) / 10,
+      timestamp
+    };
+  }
+
+  /**
+   * Log-distance path loss with shadowing
+   */
+  protected level(txPower: number, pathLossExponent: number, at: Coordinates, source: Coordinates): number {
+    const distance = Math.max(haversineDistance(at, source), 1);
+    return txPower - 10 * pathLossExponent * Math.log10(distance) + this.random.normal(0, this.noiseDb);
+  }
+}
+
+/**
+ * The room a session is held in: its geofence, the building's WiFi, and the
+ * instructor's BLE beacon at the front
+ */
+export class Classroom extends RadioEnvironment {
+  private static readonly WIFI_SPREAD_METERS = 60; // The building and its neighbours
+  private static readonly SSIDS = ['eduroam', 'Campus-Guest', 'Campus-IoT', 'Library'];
+
+  private readonly beacon: Coordinates;
+
+  constructor(private readonly options: ClassroomOptions, random: SeededRandom) {
+    super(
+      options.geofence,
+      RadioEnvironment.accessPointsAround(
+        options.geofence,
+        options.accessPoints,
+        Classroom.WIFI_SPREAD_METERS,
+        Classroom.SSIDS,
+        random
+      ),
+      options.signalNoiseDb,
+      random
+    );
+    this.beacon = RadioEnvironment.offset(options.geofence, { east: 0, north: -options.roomSizeMeters / 2 });
+  }
+
+  /**
+   * A seat somewhere in the room
+   */
+  seat(): Coordinates {
+    const half = this.options.roomSizeMeters / 2;
+    return RadioEnvironment.offset(this.center, {
+      east: this.random.between(-half, half),
+      north: this.random.between(-half, half)
+    });
+  }
+
+  /**
+   * The instructor's beacon as heard from the point, in whole dBm
+   */
+  beaconRssi(at: Coordinates): number {
+    return Math.round(this.level(this.options.measuredPower, this.options.pathLossExponent, at, this.beacon));
+  }
+}
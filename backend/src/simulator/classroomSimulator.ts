@@ -0,0 +1,437 @@
+import crypto from 'crypto';
+import {
+  AttendanceRecord,
+  AttendanceSession,
+  ChallengeData,
+  ChallengeResponse,
+  ChallengeVerificationResult,
+  Position,
+  SignedChallengePayload,
+  WifiObservation
+} from '../types/attendance';
+import { BindingCheck } from '../types/device';
+import { AttackKind, SimulatedCheckIn, SimulationOptions, SimulationResult } from '../types/simulation';
+import { Coordinates } from '../utils/geo';
+import { Classroom, RadioEnvironment } from './classroom';
+import { SeededRandom } from './random';
+
+export interface SimulatedDevice {
+  deviceId: string;
+  ownerId: string;
+  /** Signing secret; a backend that registers the device issues its own */
+  secret: string;
+  platform: string;
+  manufacturer: string;
+  model: string;
+  deviceFingerprint: string;
+  securityFlags: string[];
+  /** Device clock minus real time */
+  clockOffsetMs: number;
+}
+
+export interface SimulatedStudent {
+  studentId: string;
+  phone: SimulatedDevice;
+  /** Only used for the emulator attack */
+  emulator: SimulatedDevice;
+  home: RadioEnvironment;
+  campusIp: string;
+  homeIp: string;
+}
+
+/**
+ * How one check-in was made: from which device and place, and how long after the challenge
+ */
+interface CheckInPlan {
+  student: SimulatedStudent;
+  device: SimulatedDevice;
+  reactionMs: number;
+  rssi: number;
+  location?: Position;
+  wifiScan: WifiObservation[];
+  clientIp: string;
+  attack?: AttackKind;
+}
+
+/**
+ * Generates challenge traffic for a class: honest students check in from
+ * their seats, and attackers check in for absent students. Every check-in
+ * carries what it really was, so detectors can be scored against it.
+ */
+export class ClassroomSimulator {
+  private static readonly DAY_MS = 24 * 3600 * 1000;
+  private static readonly SESSION_LENGTH_MS = 3600 * 1000;
+  private static readonly CHALLENGE_DELAY_MS = 5 * 60 * 1000; // Challenges go out five minutes in
+  private static readonly CHALLENGE_TIMEOUT_MS = 15000; // Matches ChallengeService
+  private static readonly NO_BEACON_RSSI = -100; // What the app reports when it cannot hear the beacon
+  private static readonly HOME_DISTANCE_METERS: [number, number] = [800, 8000];
+  private static readonly EMULATOR_LOCATION: Coordinates = { latitude: 37.4219983, longitude: -122.084 };
+  private static readonly EMULATOR_WIFI: WifiObservation = { bssid: '00:13:10:85:fe:01', ssid: 'AndroidWifi', level: -50 };
+  private static readonly HOME_SSIDS = ['HomeNet', 'FRITZ!Box', 'TP-Link', 'Vodafone', 'NETGEAR'];
+  private static readonly PHONES = [
+    { platform: 'android', manufacturer: 'samsung', model: 'SM-S911B' },
+    { platform: 'android', manufacturer: 'Google', model: 'Pixel 7' },
+    { platform: 'android', manufacturer: 'Xiaomi', model: 'Redmi Note 12' },
+    { platform: 'ios', manufacturer: 'Apple', model: 'iPhone14,5' },
+    { platform: 'ios', manufacturer: 'Apple', model: 'iPhone15,2' }
+  ];
+
+  readonly classroom: Classroom;
+  private readonly random: SeededRandom;
+
+  constructor(private readonly options: SimulationOptions) {
+    this.random = new SeededRandom(options.seed);
+    this.classroom = new Classroom(options.classroom, this.random);
+  }
+
+  /**
+   * Generate the configured sessions, each with one challenge
+   */
+  run(): SimulationResult {
+    const students = this.createStudents();
+    const sessions: AttendanceSession[] = [];
+    const checkIns: SimulatedCheckIn[] = [];
+
+    for (let i = 0; i < this.options.sessions; i++) {
+      const session = this.createSession(i);
+      const issuedAt = new Date(new Date(session.startTime).getTime() + ClassroomSimulator.CHALLENGE_DELAY_MS);
+      sessions.push(session);
+      checkIns.push(...this.simulateSession(session, this.createChallenge(session, issuedAt), students));
+    }
+
+    return { sessions, checkIns, records: checkIns.map(checkIn => this.recordOf(checkIn)) };
+  }
+
+  /**
+   * The roster, with the given IDs or numbered ones
+   */
+  createStudents(studentIds?: string[]): SimulatedStudent[] {
+    const ids = studentIds ||
+      Array.from({ length: this.options.students }, (_, i) => `sim-student-${String(i + 1).padStart(3, '0')}`);
+
+    return ids.map((studentId, i) => {
+      const bearing = this.random.between(0, 2 * Math.PI);
+      const distance = this.random.between(...ClassroomSimulator.HOME_DISTANCE_METERS);
+      const homeCenter = RadioEnvironment.offset(this.classroom.center, {
+        east: distance * Math.sin(bearing),
+        north: distance * Math.cos(bearing)
+      });
+      const home = new RadioEnvironment(
+        homeCenter,
+        RadioEnvironment.accessPointsAround(
+          homeCenter,
+          this.random.integer(3, 8),
+          40,
+          ClassroomSimulator.HOME_SSIDS,
+          this.random
+        ),
+        this.options.classroom.signalNoiseDb,
+        this.random
+      );
+
+      return {
+        studentId,
+        phone: this.createDevice(studentId, this.random.pick(ClassroomSimulator.PHONES), []),
+        emulator: this.createDevice(
+          studentId,
+          { platform: 'android', manufacturer: 'Google', model: 'sdk_gphone64_x86_64' },
+          ['emulator']
+        ),
+        home,
+        campusIp: `10.20.${Math.floor(i / 250)}.${(i % 250) + 2}`,
+        homeIp: `198.51.${100 + Math.floor(i / 250)}.${(i % 250) + 2}`
+      };
+    });
+  }
+
+  createSession(index: number): AttendanceSession {
+    const startTime = new Date(new Date(this.options.startTime).getTime() + index * ClassroomSimulator.DAY_MS);
+    return {
+      id: `sim-${this.options.seed}-${index + 1}`,
+      institutionId: this.options.classroom.institutionId,
+      instructorId: 'sim-instructor',
+      classId: 'sim-class',
+      className: 'Simulated Class',
+      subject: 'Simulation',
+      startTime: startTime.toISOString(),
+      endTime: new Date(startTime.getTime() + ClassroomSimulator.SESSION_LENGTH_MS).toISOString(),
+      geofence: this.options.classroom.geofence,
+      timeWindowMinutes: 15,
+      challengeCode: '',
+      status: 'active',
+      detectedStudentIds: [],
+      metadata: { simulated: true, seed: this.options.seed },
+      createdAt: startTime.toISOString()
+    };
+  }
+
+  createChallenge(session: AttendanceSession, issuedAt: Date): ChallengeData {
+    return {
+      sessionId: session.id,
+      challengeCode: this.random.hex(32),
+      nonce: this.random.hex(16),
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: new Date(issuedAt.getTime() + ClassroomSimulator.CHALLENGE_TIMEOUT_MS).toISOString(),
+      instructorId: session.instructorId,
+      metadata: {}
+    };
+  }
+
+  /**
+   * Who responds to one challenge and how. Each student either attacks, with
+   * the configured chances, attends, or misses the session. Shared-device
+   * attacks need a classmate in the room and are dropped without one.
+   */
+  simulateSession(session: AttendanceSession, challenge: ChallengeData, students: SimulatedStudent[]): SimulatedCheckIn[] {
+    const attending: SimulatedStudent[] = [];
+    const attacking: [SimulatedStudent, AttackKind][] = [];
+    for (const student of students) {
+      const attack = this.pickAttack();
+      if (attack) {
+        attacking.push([student, attack]);
+      } else if (this.random.chance(this.options.attendanceRate)) {
+        attending.push(student);
+      }
+    }
+
+    const plans = attending.map(student => this.honest(student));
+    for (const [student, attack] of attacking) {
+      const plan = this.attack(student, attack, attending);
+      if (plan) {
+        plans.push(plan);
+      }
+    }
+
+    return plans.map(plan => this.checkIn(session, challenge, plan));
+  }
+
+  private pickAttack(): AttackKind | undefined {
+    let roll = this.random.next();
+    for (const [attack, rate] of Object.entries(this.options.attackRates) as [AttackKind, number][]) {
+      if (roll < rate) {
+        return attack;
+      }
+      roll -= rate;
+    }
+    return undefined;
+  }
+
+  private honest(student: SimulatedStudent): CheckInPlan {
+    const seat = this.classroom.seat();
+    return {
+      student,
+      device: student.phone,
+      reactionMs: this.reactionMs(),
+      rssi: this.classroom.beaconRssi(seat),
+      location: this.classroom.fix(seat, this.random.between(5, 25), 0),
+      wifiScan: this.classroom.scan(seat),
+      clientIp: student.campusIp
+    };
+  }
+
+  private attack(student: SimulatedStudent, attack: AttackKind, attending: SimulatedStudent[]): CheckInPlan | null {
+    const { home } = student;
+    const atHome = RadioEnvironment.offset(home.center, {
+      east: this.random.normal(0, 10),
+      north: this.random.normal(0, 10)
+    });
+    // The challenge reaches an absent student through a classmate's message
+    const forwardedMs = this.random.between(4000, 20000);
+    const fromHome = { student, attack, wifiScan: home.scan(atHome), clientIp: student.homeIp };
+
+    switch (attack) {
+      case 'remoteProxy':
+        return {
+          ...fromHome,
+          device: student.phone,
+          reactionMs: this.reactionMs() + forwardedMs,
+          rssi: ClassroomSimulator.NO_BEACON_RSSI,
+          location: home.fix(atHome, this.random.between(5, 20), 0)
+        };
+      case 'emulator':
+        return {
+          ...fromHome,
+          device: student.emulator,
+          reactionMs: this.reactionMs() + forwardedMs,
+          rssi: this.random.integer(-70, -55),
+          location: { ...ClassroomSimulator.EMULATOR_LOCATION, accuracy: 5, timestamp: 0 },
+          wifiScan: [ClassroomSimulator.EMULATOR_WIFI]
+        };
+      case 'mockedGps':
+        return {
+          ...fromHome,
+          device: student.phone,
+          reactionMs: this.reactionMs() + forwardedMs,
+          rssi: ClassroomSimulator.NO_BEACON_RSSI,
+          // Mock location apps report an implausibly precise fix
+          location: this.classroom.fix(this.classroom.center, this.random.between(0.1, 0.9), 0)
+        };
+      case 'relayedBle':
+        return {
+          ...fromHome,
+          device: student.phone,
+          reactionMs: this.reactionMs() + this.random.between(150, 600),
+          rssi: Math.round(this.random.normal(-55, 4)),
+          location: home.fix(atHome, this.random.between(5, 20), 0)
+        };
+      case 'sharedDevice': {
+        if (attending.length === 0) {
+          return null;
+        }
+        const classmate = this.random.pick(attending);
+        const seat = this.classroom.seat();
+        return {
+          student,
+          attack,
+          device: classmate.phone,
+          reactionMs: this.reactionMs() + this.random.between(3000, 10000),
+          rssi: this.classroom.beaconRssi(seat),
+          location: this.classroom.fix(seat, this.random.between(5, 25), 0),
+          wifiScan: this.classroom.scan(seat),
+          clientIp: classmate.campusIp
+        };
+      }
+    }
+  }
+
+  /**
+   * Sign and time the response as the app and server would. The verification
+   * is what ChallengeService would conclude, given the device was registered
+   * to its owner.
+   */
+  private checkIn(session: AttendanceSession, challenge: ChallengeData, plan: CheckInPlan): SimulatedCheckIn {
+    const { student, device } = plan;
+    const issuedAt = new Date(challenge.issuedAt).getTime();
+    const signedAt = issuedAt + plan.reactionMs;
+    const receivedAt = signedAt + Math.max(this.random.normal(250, 80), 50);
+    const deviceSignedAt = Math.round(signedAt + device.clockOffsetMs);
+
+    const payload: SignedChallengePayload = {
+      challengeCode: challenge.challengeCode,
+      nonce: challenge.nonce,
+      studentId: student.studentId,
+      deviceId: device.deviceId,
+      sessionId: session.id,
+      timestamp: deviceSignedAt,
+      additionalData: {}
+    };
+    const signedPayload = JSON.stringify(payload);
+    const signature = crypto.createHmac('sha256', device.secret).update(signedPayload, 'utf8').digest('hex');
+    const envelope = JSON.stringify({ payload: signedPayload, signature });
+
+    const response: ChallengeResponse = {
+      sessionId: session.id,
+      studentId: student.studentId,
+      challengeCode: challenge.challengeCode,
+      signedResponse: Buffer.from(envelope, 'utf8').toString('base64url'),
+      respondedAt: new Date(deviceSignedAt).toISOString(),
+      rssi: plan.rssi,
+      location: plan.location && { ...plan.location, timestamp: deviceSignedAt },
+      wifiNetworks: plan.wifiScan.map(observation => observation.ssid || observation.bssid),
+      wifiScan: plan.wifiScan,
+      deviceContext: {
+        deviceId: device.deviceId,
+        platform: device.platform,
+        manufacturer: device.manufacturer,
+        model: device.model,
+        deviceFingerprint: device.deviceFingerprint,
+        securityFlags: device.securityFlags
+      }
+    };
+
+    return {
+      response,
+      session,
+      verification: this.verification(challenge, payload, device, new Date(receivedAt)),
+      binding: this.binding(student, device),
+      clientIp: plan.clientIp,
+      receivedAt: new Date(receivedAt).toISOString(),
+      label: plan.attack ? 'proxy' : 'genuine',
+      attack: plan.attack
+    };
+  }
+
+  private verification(
+    challenge: ChallengeData,
+    payload: SignedChallengePayload,
+    device: SimulatedDevice,
+    receivedAt: Date
+  ): ChallengeVerificationResult {
+    if (device.ownerId !== payload.studentId) {
+      return { isValid: false, errorReason: 'Device is registered to a different student', flags: { invalidChallenge: true } };
+    }
+
+    const timing = {
+      issuedAt: challenge.issuedAt,
+      receivedAt: receivedAt.toISOString(),
+      serverElapsedMs: receivedAt.getTime() - new Date(challenge.issuedAt).getTime(),
+      deviceSignedAt: payload.timestamp
+    };
+    const late = receivedAt.getTime() > new Date(challenge.expiresAt).getTime();
+    return {
+      isValid: !late,
+      studentId: payload.studentId,
+      deviceId: payload.deviceId,
+      responseLatencyMs: timing.serverElapsedMs,
+      timing,
+      errorReason: late ? 'Response timeout' : undefined,
+      flags: late ? { lateResponse: true } : {},
+      additionalData: late ? undefined : payload.additionalData
+    };
+  }
+
+  /**
+   * Students are bound to their phone; anything else is a mismatch
+   */
+  private binding(student: SimulatedStudent, device: SimulatedDevice): BindingCheck {
+    return device === student.phone
+      ? { status: 'bound', deviceId: device.deviceId, boundDeviceId: device.deviceId }
+      : { status: 'mismatch', deviceId: device.deviceId, boundDeviceId: student.phone.deviceId };
+  }
+
+  /**
+   * What staff would have set the record to, had they known
+   */
+  private recordOf(checkIn: SimulatedCheckIn): AttendanceRecord {
+    const { response, session } = checkIn;
+    return {
+      studentId: response.studentId,
+      sessionId: session.id,
+      institutionId: session.institutionId,
+      status: checkIn.label === 'genuine' ? 'present' : 'absent',
+      timestamp: checkIn.receivedAt!,
+      rssi: response.rssi,
+      gpsLocation: response.location,
+      wifiScan: response.wifiScan,
+      antiProxyData: {},
+      manualOverride: true,
+      overrideReason: checkIn.attack ? `Simulated ${checkIn.attack} attack` : 'Simulated honest check-in',
+      overrideByUserId: 'simulator',
+      overriddenAt: checkIn.receivedAt
+    };
+  }
+
+  private createDevice(
+    ownerId: string,
+    hardware: Pick<SimulatedDevice, 'platform' | 'manufacturer' | 'model'>,
+    securityFlags: string[]
+  ): SimulatedDevice {
+    return {
+      ...hardware,
+      deviceId: `sim-device-${this.random.hex(8)}`,
+      ownerId,
+      secret: this.random.hex(32),
+      deviceFingerprint: this.random.hex(16),
+      securityFlags,
+      // Most phones keep network time; a few are minutes off
+      clockOffsetMs: this.random.chance(0.1) ? this.random.normal(0, 180000) : this.random.normal(0, 800)
+    };
+  }
+
+  /**
+   * Time from the challenge to the student tapping respond
+   */
+  private reactionMs(): number {
+    return Math.max(this.random.normal(4000, 1500), 1200);
+  }
+}
@@ -0,0 +1,126 @@
+import { redisClient } from '../../config/redis';
+import { StoredAnalysis } from '../../types/attendance';
+import { RedisAnalysisRepository } from '../redisStore';
+
+/**
+ * The Redis commands the analysis repository uses, kept in memory. KEYS is a
+ * mock so the tests can check it is never called.
+ */
+jest.mock('../../config/redis', () => {
+  class FakeRedis {
+    strings = new Map<string, string>();
+    sortedSets = new Map<string, { score: number; value: string }[]>();
+    keys = jest.fn();
+
+    async get(key: string) {
+      return this.strings.get(key) ?? null;
+    }
+
+    async mGet(keys: string[]) {
+      return keys.map(key => this.strings.get(key) ?? null);
+    }
+
+    async set(key: string, value: string) {
+      this.strings.set(key, value);
+    }
+
+    async del(key: string) {
+      this.strings.delete(key);
+    }
+
+    async pTTL(key: string) {
+      return this.strings.has(key) ? -1 : -2;
+    }
+
+    async pExpire() {
+      return true;
+    }
+
+    async zAdd(key: string, entry: { score: number; value: string }) {
+      const entries = (this.sortedSets.get(key) || []).filter(existing => existing.value !== entry.value);
+      this.sortedSets.set(key, [...entries, entry].sort((a, b) => a.score - b.score));
+    }
+
+    async zRange(key: string, start: number, stop: number, options?: { REV?: boolean }) {
+      const values = (this.sortedSets.get(key) || []).map(entry => entry.value);
+      const ordered = options?.REV ? values.reverse() : values;
+      return ordered.slice(start, stop === -1 ? undefined : stop + 1);
+    }
+
+    async zRemRangeByScore(key: string, min: string, max: number) {
+      this.sortedSets.set(key, (this.sortedSets.get(key) || []).filter(entry => entry.score > max));
+    }
+
+    async *scanIterator({ MATCH }: { MATCH: string }) {
+      const pattern = new RegExp(`^${MATCH.split('*').join('[^]*')}$`);
+      for (const key of [...this.strings.keys()].filter(key => pattern.test(key))) {
+        yield key;
+      }
+    }
+
+    multi() {
+      const queued: (() => Promise<unknown>)[] = [];
+      const chain = {
+        set: (key: string, value: string) => (queued.push(() => this.set(key, value)), chain),
+        zAdd: (key: string, entry: { score: number; value: string }) => (queued.push(() => this.zAdd(key, entry)), chain),
+        pExpire: () => chain,
+        exec: async () => {
+          for (const command of queued) {
+            await command();
+          }
+        }
+      };
+      return chain;
+    }
+  }
+  return { redisClient: new FakeRedis() };
+});
+
+const fake = redisClient as unknown as { strings: Map<string, string>; keys: jest.Mock };
+
+const analysis = (sessionId: string, studentId: string, timestamp: number): StoredAnalysis => ({
+  sessionId,
+  studentId,
+  timestamp,
+  flags: {},
+  details: {},
+  policyVersion: 0,
+  response: { deviceId: `phone-${studentId}`, rssi: -60, responseTime: 900 }
+});
+
+describe('RedisAnalysisRepository', () => {
+  const repository = new RedisAnalysisRepository();
+  const now = Date.now();
+
+  it('lists analyses from the session and student indexes without scanning keys', async () => {
+    await repository.save(analysis('session-1', 'ada', now - 3000));
+    await repository.save(analysis('session-1', 'bo', now - 2000));
+    await repository.save(analysis('session-2', 'ada', now - 1000));
+
+    const bySession = await repository.listBySession('session-1');
+    expect(bySession.map(a => a.studentId)).toEqual(['ada', 'bo']);
+
+    const byStudent = await repository.listByStudent('ada');
+    expect(byStudent.map(a => a.sessionId)).toEqual(['session-2', 'session-1']);
+    expect(await repository.listByStudent('ada', 1)).toHaveLength(1);
+
+    expect(fake.keys).not.toHaveBeenCalled();
+  });
+
+  it('leaves out analyses older than the retention period', async () => {
+    await repository.save(analysis('session-3', 'cy', now - RedisAnalysisRepository.RETENTION_MS - 1000));
+    await repository.save(analysis('session-3', 'di', now));
+
+    expect((await repository.listBySession('session-3')).map(a => a.studentId)).toEqual(['di']);
+  });
+
+  it('moves analyses from the old per-student keys into the indexes', async () => {
+    fake.strings.set('analysis:eve:12345', JSON.stringify(analysis('session-4', 'eve', now)));
+
+    expect(await repository.migrateLegacyKeys()).toBe(1);
+
+    expect(fake.strings.has('analysis:eve:12345')).toBe(false);
+    expect((await repository.listBySession('session-4')).map(a => a.studentId)).toEqual(['eve']);
+    expect(await repository.migrateLegacyKeys()).toBe(0);
+  });
+});
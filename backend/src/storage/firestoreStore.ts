@@ -0,0 +1,388 @@
+import { Query, Timestamp } from 'firebase-admin/firestore';
+import { getDb } from '../config/firebase';
+import { AttendanceRecord, AttendanceSession, StoredAnalysis, User } from '../types/attendance';
+import { DeviceKeyRecord, RebindRequest } from '../types/device';
+import { PolicyVersion } from '../types/policy';
+import { filterRebindRequests, filterRecords } from './query';
+import {
+  AnalysisRepository,
+  AttendanceRecordRepository,
+  DeviceRepository,
+  KeyValueRepository,
+  Mutation,
+  PolicyRepository,
+  RebindRequestQuery,
+  RebindRequestRepository,
+  RecordQuery,
+  Repositories,
+  SessionQuery,
+  SessionRepository,
+  UserRepository
+} from './types';
+
+const IN_QUERY_LIMIT = 30;
+const GET_ALL_LIMIT = 100;
+
+/**
+ * Firestore rejects undefined field values
+ */
+const withoutUndefined = <T extends object>(data: T): T => JSON.parse(JSON.stringify(data));
+
+class FirestoreSessionRepository implements SessionRepository {
+  private static readonly COLLECTION = 'attendance_sessions';
+
+  async get(sessionId: string): Promise<AttendanceSession | null> {
+    const snapshot = await this.collection().doc(sessionId).get();
+    return snapshot.exists ? (snapshot.data() as AttendanceSession) : null;
+  }
+
+  async list(query: SessionQuery): Promise<AttendanceSession[]> {
+    let firestoreQuery: Query = this.collection();
+    for (const field of ['institutionId', 'instructorId', 'classId', 'status'] as const) {
+      if (query[field] !== undefined) {
+        firestoreQuery = firestoreQuery.where(field, '==', query[field]);
+      }
+    }
+    if (query.startingFrom) {
+      firestoreQuery = firestoreQuery.where('startTime', '>=', query.startingFrom);
+    }
+    firestoreQuery = firestoreQuery.orderBy('startTime', 'desc');
+    if (query.limit) {
+      firestoreQuery = firestoreQuery.limit(query.limit);
+    }
+
+    const snapshot = await firestoreQuery.get();
+    return snapshot.docs.map(doc => doc.data() as AttendanceSession);
+  }
+
+  async create(fields: Omit<AttendanceSession, 'id'>): Promise<AttendanceSession> {
+    const ref = this.collection().doc();
+    const session = { ...fields, id: ref.id } as AttendanceSession;
+    await ref.set(withoutUndefined(session));
+    return session;
+  }
+
+  async save(session: AttendanceSession): Promise<void> {
+    await this.collection().doc(session.id).set(withoutUndefined(session));
+  }
+
+  async update(sessionId: string, mutate: Mutation<AttendanceSession>): Promise<AttendanceSession> {
+    const ref = this.collection().doc(sessionId);
+    return getDb().runTransaction(async (tx) => {
+      const snapshot = await tx.get(ref);
+      const updated = mutate(snapshot.exists ? (snapshot.data() as AttendanceSession) : null);
+      tx.set(ref, withoutUndefined(updated));
+      return updated;
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.collection().doc(sessionId).delete();
+  }
+
+  private collection() {
+    return getDb().collection(FirestoreSessionRepository.COLLECTION);
+  }
+}
+
+class FirestoreRecordRepository implements AttendanceRecordRepository {
+  private static readonly COLLECTION = 'attendance_records';
+
+  async get(sessionId: string, studentId: string): Promise<AttendanceRecord | null> {
+    const snapshot = await this.collection().doc(this.recordId(sessionId, studentId)).get();
+    return snapshot.exists ? (snapshot.data() as AttendanceRecord) : null;
+  }
+
+  async list(query: RecordQuery): Promise<AttendanceRecord[]> {
+    let base: Query = this.collection();
+    for (const field of ['studentId', 'institutionId', 'status'] as const) {
+      if (query[field] !== undefined) {
+        base = base.where(field, '==', query[field]);
+      }
+    }
+
+    if (query.sessionIds) {
+      // Batched to Firestore's 'in' query limit, then sorted and trimmed here
+      const records: AttendanceRecord[] = [];
+      for (let i = 0; i < query.sessionIds.length; i += IN_QUERY_LIMIT) {
+        const batch = query.sessionIds.slice(i, i + IN_QUERY_LIMIT);
+        const snapshot = await base.where('sessionId', 'in', batch).get();
+        records.push(...snapshot.docs.map(doc => doc.data() as AttendanceRecord));
+      }
+      return filterRecords(records, query);
+    }
+
+    if (query.limit) {
+      base = base.orderBy('timestamp', 'desc').limit(query.limit);
+    }
+    const snapshot = await base.get();
+    return filterRecords(snapshot.docs.map(doc => doc.data() as AttendanceRecord), query);
+  }
+
+  async save(record: AttendanceRecord): Promise<void> {
+    await this.collection().doc(this.recordId(record.sessionId, record.studentId)).set(withoutUndefined(record));
+  }
+
+  async update(sessionId: string, studentId: string, mutate: Mutation<AttendanceRecord>): Promise<AttendanceRecord> {
+    const ref = this.collection().doc(this.recordId(sessionId, studentId));
+    return getDb().runTransaction(async (tx) => {
+      const snapshot = await tx.get(ref);
+      const updated = mutate(snapshot.exists ? (snapshot.data() as AttendanceRecord) : null);
+      tx.set(ref, withoutUndefined(updated));
+      return updated;
+    });
+  }
+
+  private recordId(sessionId: string, studentId: string): string {
+    return `${sessionId}_${studentId}`;
+  }
+
+  private collection() {
+    return getDb().collection(FirestoreRecordRepository.COLLECTION);
+  }
+}
+
+class FirestoreUserRepository implements UserRepository {
+  private static readonly COLLECTION = 'users';
+
+  async get(userId: string): Promise<User | null> {
+    const snapshot = await this.collection().doc(userId).get();
+    return snapshot.exists ? { ...(snapshot.data() as User), id: snapshot.id } : null;
+  }
+
+  /**
+   * Emails are stored as given, so the exact and lower-cased forms are both tried
+   */
+  async getByEmail(email: string): Promise<User | null> {
+    const snapshot = await this.collection()
+      .where('email', 'in', [...new Set([email, email.toLowerCase()])])
+      .limit(1)
+      .get();
+    return snapshot.empty ? null : { ...(snapshot.docs[0].data() as User), id: snapshot.docs[0].id };
+  }
+
+  async getMany(userIds: string[]): Promise<Map<string, User>> {
+    const users = new Map<string, User>();
+    const uniqueIds = [...new Set(userIds)];
+
+    for (let i = 0; i < uniqueIds.length; i += GET_ALL_LIMIT) {
+      const refs = uniqueIds.slice(i, i + GET_ALL_LIMIT).map(id => this.collection().doc(id));
+      const snapshots = await getDb().getAll(...refs);
+      for (const snapshot of snapshots) {
+        if (snapshot.exists) {
+          users.set(snapshot.id, { ...(snapshot.data() as User), id: snapshot.id });
+        }
+      }
+    }
+
+    return users;
+  }
+
+  async save(user: User): Promise<void> {
+    await this.collection().doc(user.id).set(withoutUndefined(user));
+  }
+
+  async update(userId: string, changes: Partial<User>): Promise<void> {
+    await this.collection().doc(userId).update(withoutUndefined(changes));
+  }
+
+  private collection() {
+    return getDb().collection(FirestoreUserRepository.COLLECTION);
+  }
+}
+
+class FirestoreDeviceRepository implements DeviceRepository {
+  private static readonly COLLECTION = 'device_keys';
+
+  async get(deviceId: string): Promise<DeviceKeyRecord | null> {
+    const snapshot = await this.collection().doc(deviceId).get();
+    return snapshot.exists ? (snapshot.data() as DeviceKeyRecord) : null;
+  }
+
+  async save(record: DeviceKeyRecord): Promise<void> {
+    await this.collection().doc(record.deviceId).set(withoutUndefined(record));
+  }
+
+  private collection() {
+    return getDb().collection(FirestoreDeviceRepository.COLLECTION);
+  }
+}
+
+class FirestoreRebindRequestRepository implements RebindRequestRepository {
+  private static readonly COLLECTION = 'device_rebind_requests';
+
+  async get(requestId: string): Promise<RebindRequest | null> {
+    const snapshot = await this.collection().doc(requestId).get();
+    return snapshot.exists ? (snapshot.data() as RebindRequest) : null;
+  }
+
+  /**
+   * Filtered by equality in Firestore and sorted here, so no composite index is needed
+   */
+  async list(query: RebindRequestQuery): Promise<RebindRequest[]> {
+    let firestoreQuery: Query = this.collection();
+    for (const field of ['institutionId', 'studentId', 'status'] as const) {
+      if (query[field] !== undefined) {
+        firestoreQuery = firestoreQuery.where(field, '==', query[field]);
+      }
+    }
+    const snapshot = await firestoreQuery.get();
+    return filterRebindRequests(snapshot.docs.map(doc => doc.data() as RebindRequest), query);
+  }
+
+  async create(fields: Omit<RebindRequest, 'id'>): Promise<RebindRequest> {
+    const ref = this.collection().doc();
+    const request = { ...fields, id: ref.id };
+    await ref.set(withoutUndefined(request));
+    return request;
+  }
+
+  async update(requestId: string, mutate: Mutation<RebindRequest>): Promise<RebindRequest> {
+    const ref = this.collection().doc(requestId);
+    return getDb().runTransaction(async (tx) => {
+      const snapshot = await tx.get(ref);
+      const updated = mutate(snapshot.exists ? (snapshot.data() as RebindRequest) : null);
+      tx.set(ref, withoutUndefined(updated));
+      return updated;
+    });
+  }
+
+  private collection() {
+    return getDb().collection(FirestoreRebindRequestRepository.COLLECTION);
+  }
+}
+
+class FirestoreAnalysisRepository implements AnalysisRepository {
+  private static readonly COLLECTION = 'anti_proxy_analyses';
+
+  async save(analysis: StoredAnalysis): Promise<void> {
+    await this.collection().add(withoutUndefined(analysis));
+  }
+
+  async listBySession(sessionId: string): Promise<StoredAnalysis[]> {
+    const snapshot = await this.collection()
+      .where('sessionId', '==', sessionId)
+      .orderBy('timestamp', 'asc')
+      .get();
+    return snapshot.docs.map(doc => doc.data() as StoredAnalysis);
+  }
+
+  async listByStudent(studentId: string, limit?: number): Promise<StoredAnalysis[]> {
+    let query = this.collection()
+      .where('studentId', '==', studentId)
+      .orderBy('timestamp', 'desc');
+    if (limit) {
+      query = query.limit(limit);
+    }
+    const snapshot = await query.get();
+    return snapshot.docs.map(doc => doc.data() as StoredAnalysis);
+  }
+
+  private collection() {
+    return getDb().collection(FirestoreAnalysisRepository.COLLECTION);
+  }
+}
+
+/**
+ * anti_proxy_policies/{institutionId} holds the latest version number; each
+ * version is a document in its versions subcollection
+ */
+class FirestorePolicyRepository implements PolicyRepository {
+  private static readonly COLLECTION = 'anti_proxy_policies';
+
+  async getLatest(institutionId: string): Promise<PolicyVersion | null> {
+    const snapshot = await this.versions(institutionId).orderBy('version', 'desc').limit(1).get();
+    return snapshot.empty ? null : (snapshot.docs[0].data() as PolicyVersion);
+  }
+
+  async listVersions(institutionId: string): Promise<PolicyVersion[]> {
+    const snapshot = await this.versions(institutionId).orderBy('version', 'desc').get();
+    return snapshot.docs.map(doc => doc.data() as PolicyVersion);
+  }
+
+  async append(
+    institutionId: string,
+    build: (latest: PolicyVersion | null) => PolicyVersion
+  ): Promise<PolicyVersion> {
+    const head = getDb().collection(FirestorePolicyRepository.COLLECTION).doc(institutionId);
+    return getDb().runTransaction(async (tx) => {
+      const headSnapshot = await tx.get(head);
+      const latestVersion = headSnapshot.data()?.latestVersion as number | undefined;
+      const latest = latestVersion === undefined
+        ? null
+        : ((await tx.get(this.versions(institutionId).doc(String(latestVersion)))).data() as PolicyVersion);
+
+      const version = build(latest);
+      tx.set(this.versions(institutionId).doc(String(version.version)), withoutUndefined(version));
+      tx.set(head, { latestVersion: version.version });
+      return version;
+    });
+  }
+
+  private versions(institutionId: string) {
+    return getDb()
+      .collection(FirestorePolicyRepository.COLLECTION)
+      .doc(institutionId)
+      .collection('versions');
+  }
+}
+
+interface KeyValueEntry {
+  value: string;
+  expiresAt?: Timestamp;
+}
+
+/**
+ * Values are stored as JSON strings; expired documents read as missing
+ * (configure a Firestore TTL policy on expiresAt to reclaim them)
+ */
+class FirestoreKeyValueRepository implements KeyValueRepository {
+  constructor(private readonly collectionName: string) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const snapshot = await this.doc(key).get();
+    const entry = snapshot.data() as KeyValueEntry | undefined;
+    return entry && !this.expired(entry) ? JSON.parse(entry.value) : null;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    await this.doc(key).set(this.entry(value, ttlMs));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.doc(key).delete();
+  }
+
+  private entry<T>(value: T, ttlMs?: number): KeyValueEntry {
+    const entry: KeyValueEntry = { value: JSON.stringify(value) };
+    if (ttlMs !== undefined) {
+      entry.expiresAt = Timestamp.fromMillis(Date.now() + ttlMs);
+    }
+    return entry;
+  }
+
+  private expired(entry: KeyValueEntry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt.toMillis() <= Date.now();
+  }
+
+  private doc(key: string) {
+    return getDb().collection(this.collectionName).doc(encodeURIComponent(key));
+  }
+}
+
+/**
+ * Everything in Firestore, in the collections the mobile app reads
+ */
+export function createFirestoreRepositories(): Repositories {
+  return {
+    sessions: new FirestoreSessionRepository(),
+    records: new FirestoreRecordRepository(),
+    users: new FirestoreUserRepository(),
+    devices: new FirestoreDeviceRepository(),
+    rebindRequests: new FirestoreRebindRequestRepository(),
+    analyses: new FirestoreAnalysisRepository(),
+    policies: new FirestorePolicyRepository(),
+    patterns: new FirestoreKeyValueRepository('anti_proxy_patterns'),
+    cache: new FirestoreKeyValueRepository('server_cache')
+  };
+}
@@ -0,0 +1,24 @@
+import { getStorageBackend } from '../config/storage';
+import { createFirestoreRepositories } from './firestoreStore';
+import { createMemoryRepositories } from './memoryStore';
+import { createRedisRepositories } from './redisStore';
+import { Repositories } from './types';
+
+let repositories: Repositories | null = null;
+
+/**
+ * The repositories for the configured STORAGE_BACKEND, created on first use.
+ * Repositories only touch their client when called, so services may take
+ * them at construction time, before initializeStorage() has connected.
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    const backend = getStorageBackend();
+    repositories = backend === 'memory'
+      ? createMemoryRepositories()
+      : backend === 'redis'
+        ? createRedisRepositories()
+        : createFirestoreRepositories();
+  }
+  return repositories;
+}
@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import { AttendanceRecord, AttendanceSession, StoredAnalysis, User } from '../types/attendance';
+import { DeviceKeyRecord, RebindRequest } from '../types/device';
+import { PolicyVersion } from '../types/policy';
+import { filterRebindRequests, filterRecords, filterSessions } from './query';
+import {
+  AnalysisRepository,
+  AttendanceRecordRepository,
+  DeviceRepository,
+  KeyValueRepository,
+  Mutation,
+  PolicyRepository,
+  RebindRequestQuery,
+  RebindRequestRepository,
+  RecordQuery,
+  Repositories,
+  SessionQuery,
+  SessionRepository,
+  UserRepository
+} from './types';
+
+/**
+ * Values are cloned on the way in and out so callers never share state with the store
+ */
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class MemorySessionRepository implements SessionRepository {
+  private readonly sessions = new Map<string, AttendanceSession>();
+
+  async get(sessionId: string): Promise<AttendanceSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? clone(session) : null;
+  }
+
+  async list(query: SessionQuery): Promise<AttendanceSession[]> {
+    return filterSessions([...this.sessions.values()], query).map(clone);
+  }
+
+  async create(fields: Omit<AttendanceSession, 'id'>): Promise<AttendanceSession> {
+    const session = { ...fields, id: crypto.randomUUID() } as AttendanceSession;
+    this.sessions.set(session.id, clone(session));
+    return session;
+  }
+
+  async save(session: AttendanceSession): Promise<void> {
+    this.sessions.set(session.id, clone(session));
+  }
+
+  async update(sessionId: string, mutate: Mutation<AttendanceSession>): Promise<AttendanceSession> {
+    const updated = mutate(await this.get(sessionId));
+    this.sessions.set(sessionId, clone(updated));
+    return updated;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+class MemoryRecordRepository implements AttendanceRecordRepository {
+  private readonly records = new Map<string, AttendanceRecord>();
+
+  async get(sessionId: string, studentId: string): Promise<AttendanceRecord | null> {
+    const record = this.records.get(this.key(sessionId, studentId));
+    return record ? clone(record) : null;
+  }
+
+  async list(query: RecordQuery): Promise<AttendanceRecord[]> {
+    return filterRecords([...this.records.values()], query).map(clone);
+  }
+
+  async save(record: AttendanceRecord): Promise<void> {
+    this.records.set(this.key(record.sessionId, record.studentId), clone(record));
+  }
+
+  async update(sessionId: string, studentId: string, mutate: Mutation<AttendanceRecord>): Promise<AttendanceRecord> {
+    const updated = mutate(await this.get(sessionId, studentId));
+    this.records.set(this.key(sessionId, studentId), clone(updated));
+    return updated;
+  }
+
+  private key(sessionId: string, studentId: string): string {
+    return `${sessionId}_${studentId}`;
+  }
+}
+
+class MemoryUserRepository implements UserRepository {
+  private readonly users = new Map<string, User>();
+
+  async get(userId: string): Promise<User | null> {
+    const user = this.users.get(userId);
+    return user ? clone(user) : null;
+  }
+
+  async getByEmail(email: string): Promise<User | null> {
+    const user = [...this.users.values()].find(candidate => candidate.email.toLowerCase() === email.toLowerCase());
+    return user ? clone(user) : null;
+  }
+
+  async getMany(userIds: string[]): Promise<Map<string, User>> {
+    const users = new Map<string, User>();
+    for (const id of userIds) {
+      const user = this.users.get(id);
+      if (user) {
+        users.set(id, clone(user));
+      }
+    }
+    return users;
+  }
+
+  async save(user: User): Promise<void> {
+    this.users.set(user.id, clone(user));
+  }
+
+  async update(userId: string, changes: Partial<User>): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, clone({ ...user, ...changes }));
+    }
+  }
+}
+
+class MemoryDeviceRepository implements DeviceRepository {
+  private readonly devices = new Map<string, DeviceKeyRecord>();
+
+  async get(deviceId: string): Promise<DeviceKeyRecord | null> {
+    const record = this.devices.get(deviceId);
+    return record ? clone(record) : null;
+  }
+
+  async save(record: DeviceKeyRecord): Promise<void> {
+    this.devices.set(record.deviceId, clone(record));
+  }
+}
+
+class MemoryRebindRequestRepository implements RebindRequestRepository {
+  private readonly requests = new Map<string, RebindRequest>();
+
+  async get(requestId: string): Promise<RebindRequest | null> {
+    const request = this.requests.get(requestId);
+    return request ? clone(request) : null;
+  }
+
+  async list(query: RebindRequestQuery): Promise<RebindRequest[]> {
+    return filterRebindRequests([...this.requests.values()], query).map(clone);
+  }
+
+  async create(fields: Omit<RebindRequest, 'id'>): Promise<RebindRequest> {
+    const request = { ...fields, id: crypto.randomUUID() };
+    this.requests.set(request.id, clone(request));
+    return request;
+  }
+
+  async update(requestId: string, mutate: Mutation<RebindRequest>): Promise<RebindRequest> {
+    const updated = mutate(await this.get(requestId));
+    this.requests.set(requestId, clone(updated));
+    return updated;
+  }
+}
+
+class MemoryAnalysisRepository implements AnalysisRepository {
+  private readonly bySession = new Map<string, StoredAnalysis[]>();
+  private readonly byStudent = new Map<string, StoredAnalysis[]>();
+
+  async save(analysis: StoredAnalysis): Promise<void> {
+    this.append(this.bySession, analysis.sessionId, analysis);
+    this.append(this.byStudent, analysis.studentId, analysis);
+  }
+
+  async listBySession(sessionId: string): Promise<StoredAnalysis[]> {
+    return (this.bySession.get(sessionId) || []).map(clone);
+  }
+
+  async listByStudent(studentId: string, limit?: number): Promise<StoredAnalysis[]> {
+    const analyses = [...(this.byStudent.get(studentId) || [])].reverse();
+    return (limit ? analyses.slice(0, limit) : analyses).map(clone);
+  }
+
+  private append(index: Map<string, StoredAnalysis[]>, id: string, analysis: StoredAnalysis): void {
+    const analyses = index.get(id) || [];
+    analyses.push(clone(analysis));
+    index.set(id, analyses);
+  }
+}
+
+class MemoryPolicyRepository implements PolicyRepository {
+  private readonly versions = new Map<string, PolicyVersion[]>();
+
+  async getLatest(institutionId: string): Promise<PolicyVersion | null> {
+    const [latest] = await this.listVersions(institutionId);
+    return latest || null;
+  }
+
+  async listVersions(institutionId: string): Promise<PolicyVersion[]> {
+    return [...(this.versions.get(institutionId) || [])].reverse().map(clone);
+  }
+
+  async append(
+    institutionId: string,
+    build: (latest: PolicyVersion | null) => PolicyVersion
+  ): Promise<PolicyVersion> {
+    const version = build(await this.getLatest(institutionId));
+    const versions = this.versions.get(institutionId) || [];
+    versions.push(clone(version));
+    this.versions.set(institutionId, versions);
+    return version;
+  }
+}
+
+class MemoryKeyValueRepository implements KeyValueRepository {
+  private readonly entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.value);
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Process-local storage for development and tests. Nothing survives a restart.
+ */
+export function createMemoryRepositories(): Repositories {
+  return {
+    sessions: new MemorySessionRepository(),
+    records: new MemoryRecordRepository(),
+    users: new MemoryUserRepository(),
+    devices: new MemoryDeviceRepository(),
+    rebindRequests: new MemoryRebindRequestRepository(),
+    analyses: new MemoryAnalysisRepository(),
+    policies: new MemoryPolicyRepository(),
+    patterns: new MemoryKeyValueRepository(),
+    cache: new MemoryKeyValueRepository()
+  };
+}
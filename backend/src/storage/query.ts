@@ -0,0 +1,43 @@
+import { AttendanceRecord, AttendanceSession } from '../types/attendance';
+import { RebindRequest } from '../types/device';
+import { RebindRequestQuery, RecordQuery, SessionQuery } from './types';
+
+/**
+ * Apply a session query to an unindexed list, as the memory and Redis stores do
+ */
+export function filterSessions(sessions: AttendanceSession[], query: SessionQuery): AttendanceSession[] {
+  const matches = sessions
+    .filter(session =>
+      (query.institutionId === undefined || session.institutionId === query.institutionId) &&
+      (query.instructorId === undefined || session.instructorId === query.instructorId) &&
+      (query.classId === undefined || session.classId === query.classId) &&
+      (query.status === undefined || session.status === query.status) &&
+      (query.startingFrom === undefined || session.startTime >= query.startingFrom)
+    )
+    .sort((a, b) => b.startTime.localeCompare(a.startTime));
+
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+export function filterRecords(records: AttendanceRecord[], query: RecordQuery): AttendanceRecord[] {
+  const matches = records
+    .filter(record =>
+      (query.sessionIds === undefined || query.sessionIds.includes(record.sessionId)) &&
+      (query.studentId === undefined || record.studentId === query.studentId) &&
+      (query.institutionId === undefined || record.institutionId === query.institutionId) &&
+      (query.status === undefined || record.status === query.status)
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+export function filterRebindRequests(requests: RebindRequest[], query: RebindRequestQuery): RebindRequest[] {
+  return requests
+    .filter(request =>
+      (query.institutionId === undefined || request.institutionId === query.institutionId) &&
+      (query.studentId === undefined || request.studentId === query.studentId) &&
+      (query.status === undefined || request.status === query.status)
+    )
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+}
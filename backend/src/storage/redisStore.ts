@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import { WatchError } from 'redis';
+import { redisClient } from '../config/redis';
+import { AttendanceRecord, AttendanceSession, StoredAnalysis, User } from '../types/attendance';
+import { DeviceKeyRecord, RebindRequest } from '../types/device';
+import { PolicyVersion } from '../types/policy';
+import { filterRebindRequests, filterRecords, filterSessions } from './query';
+import {
+  AnalysisRepository,
+  AttendanceRecordRepository,
+  DeviceRepository,
+  KeyValueRepository,
+  Mutation,
+  PolicyRepository,
+  RebindRequestQuery,
+  RebindRequestRepository,
+  RecordQuery,
+  Repositories,
+  SessionQuery,
+  SessionRepository,
+  UserRepository
+} from './types';
+
+type RedisMulti = ReturnType<typeof redisClient.multi>;
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+async function getJson<T>(key: string): Promise<T | null> {
+  const data = await redisClient.get(key);
+  return data ? JSON.parse(data) : null;
+}
+
+async function getManyJson<T>(keys: string[]): Promise<T[]> {
+  if (keys.length === 0) {
+    return [];
+  }
+  const values = await redisClient.mGet(keys);
+  return values.filter((data): data is string => data !== null).map(data => JSON.parse(data));
+}
+
+/**
+ * Optimistic read-modify-write with WATCH, retried when another writer gets in first
+ */
+async function updateJson<T>(key: string, mutate: Mutation<T>, index?: (multi: RedisMulti, value: T) => void): Promise<T> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    try {
+      return await redisClient.executeIsolated(async (client) => {
+        await client.watch(key);
+        const data = await client.get(key);
+
+        let updated: T;
+        try {
+          updated = mutate(data ? JSON.parse(data) : null);
+        } catch (error) {
+          await client.unwatch();
+          throw error;
+        }
+
+        const multi = client.multi().set(key, JSON.stringify(updated));
+        index?.(multi, updated);
+        await multi.exec();
+        return updated;
+      });
+    } catch (error) {
+      if (!(error instanceof WatchError)) {
+        throw error;
+      }
+    }
+  }
+  throw new Error(`Gave up updating ${key} after ${MAX_UPDATE_ATTEMPTS} conflicting writes`);
+}
+
+class RedisSessionRepository implements SessionRepository {
+  async get(sessionId: string): Promise<AttendanceSession | null> {
+    return getJson(this.key(sessionId));
+  }
+
+  async list(query: SessionQuery): Promise<AttendanceSession[]> {
+    const keys = await redisClient.sMembers(
+      query.institutionId ? `institution:${query.institutionId}:sessions` : 'sessions'
+    );
+    return filterSessions(await getManyJson<AttendanceSession>(keys), query);
+  }
+
+  async create(fields: Omit<AttendanceSession, 'id'>): Promise<AttendanceSession> {
+    const session = { ...fields, id: crypto.randomUUID() } as AttendanceSession;
+    await this.save(session);
+    return session;
+  }
+
+  async save(session: AttendanceSession): Promise<void> {
+    const multi = redisClient.multi().set(this.key(session.id), JSON.stringify(session));
+    this.index(multi, session);
+    await multi.exec();
+  }
+
+  async update(sessionId: string, mutate: Mutation<AttendanceSession>): Promise<AttendanceSession> {
+    return updateJson(this.key(sessionId), mutate, (multi, session) => this.index(multi, session));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const session = await this.get(sessionId);
+    if (!session) {
+      return;
+    }
+    const key = this.key(sessionId);
+    await redisClient
+      .multi()
+      .del(key)
+      .sRem('sessions', key)
+      .sRem(`institution:${session.institutionId}:sessions`, key)
+      .exec();
+  }
+
+  private index(multi: RedisMulti, session: AttendanceSession): void {
+    const key = this.key(session.id);
+    multi.sAdd('sessions', key).sAdd(`institution:${session.institutionId}:sessions`, key);
+  }
+
+  private key(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+}
+
+class RedisRecordRepository implements AttendanceRecordRepository {
+  async get(sessionId: string, studentId: string): Promise<AttendanceRecord | null> {
+    return getJson(this.key(sessionId, studentId));
+  }
+
+  /**
+   * Reads the narrowest index the query allows, then filters in process
+   */
+  async list(query: RecordQuery): Promise<AttendanceRecord[]> {
+    let keys: string[];
+    if (query.sessionIds) {
+      keys = query.sessionIds.length > 0
+        ? await redisClient.sUnion(query.sessionIds.map(id => `session:${id}:records`))
+        : [];
+    } else if (query.studentId) {
+      keys = await redisClient.sMembers(`student:${query.studentId}:records`);
+    } else if (query.institutionId) {
+      keys = await redisClient.sMembers(`institution:${query.institutionId}:records`);
+    } else {
+      keys = await redisClient.sMembers('records');
+    }
+
+    return filterRecords(await getManyJson<AttendanceRecord>(keys), query);
+  }
+
+  async save(record: AttendanceRecord): Promise<void> {
+    const multi = redisClient.multi().set(this.key(record.sessionId, record.studentId), JSON.stringify(record));
+    this.index(multi, record);
+    await multi.exec();
+  }
+
+  async update(sessionId: string, studentId: string, mutate: Mutation<AttendanceRecord>): Promise<AttendanceRecord> {
+    return updateJson(this.key(sessionId, studentId), mutate, (multi, record) => this.index(multi, record));
+  }
+
+  private index(multi: RedisMulti, record: AttendanceRecord): void {
+    const key = this.key(record.sessionId, record.studentId);
+    multi
+      .sAdd('records', key)
+      .sAdd(`session:${record.sessionId}:records`, key)
+      .sAdd(`student:${record.studentId}:records`, key)
+      .sAdd(`institution:${record.institutionId}:records`, key);
+  }
+
+  private key(sessionId: string, studentId: string): string {
+    return `record:${sessionId}:${studentId}`;
+  }
+}
+
+class RedisUserRepository implements UserRepository {
+  async get(userId: string): Promise<User | null> {
+    return getJson(this.key(userId));
+  }
+
+  /**
+   * The email index is not cleared when a user's email changes, so the user found is checked
+   */
+  async getByEmail(email: string): Promise<User | null> {
+    const userId = await redisClient.get(this.emailKey(email));
+    const user = userId ? await this.get(userId) : null;
+    return user && user.email.toLowerCase() === email.toLowerCase() ? user : null;
+  }
+
+  async getMany(userIds: string[]): Promise<Map<string, User>> {
+    const users = await getManyJson<User>([...new Set(userIds)].map(id => this.key(id)));
+    return new Map(users.map(user => [user.id, user]));
+  }
+
+  async save(user: User): Promise<void> {
+    await redisClient.multi()
+      .set(this.key(user.id), JSON.stringify(user))
+      .set(this.emailKey(user.email), user.id)
+      .exec();
+  }
+
+  async update(userId: string, changes: Partial<User>): Promise<void> {
+    await updateJson<User>(
+      this.key(userId),
+      (user) => {
+        if (!user) {
+          throw new Error(`User ${userId} does not exist`);
+        }
+        return { ...user, ...changes };
+      },
+      (multi, user) => multi.set(this.emailKey(user.email), user.id)
+    );
+  }
+
+  private key(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private emailKey(email: string): string {
+    return `user:email:${email.toLowerCase()}`;
+  }
+}
+
+class RedisDeviceRepository implements DeviceRepository {
+  async get(deviceId: string): Promise<DeviceKeyRecord | null> {
+    return getJson(this.key(deviceId));
+  }
+
+  async save(record: DeviceKeyRecord): Promise<void> {
+    await redisClient.set(this.key(record.deviceId), JSON.stringify(record));
+  }
+
+  private key(deviceId: string): string {
+    return `device:${deviceId}:key`;
+  }
+}
+
+class RedisRebindRequestRepository implements RebindRequestRepository {
+  async get(requestId: string): Promise<RebindRequest | null> {
+    return getJson(this.key(requestId));
+  }
+
+  async list(query: RebindRequestQuery): Promise<RebindRequest[]> {
+    const keys = await redisClient.sMembers(
+      query.studentId
+        ? `student:${query.studentId}:rebinds`
+        : query.institutionId ? `institution:${query.institutionId}:rebinds` : 'rebinds'
+    );
+    return filterRebindRequests(await getManyJson<RebindRequest>(keys), query);
+  }
+
+  async create(fields: Omit<RebindRequest, 'id'>): Promise<RebindRequest> {
+    const request = { ...fields, id: crypto.randomUUID() };
+    const key = this.key(request.id);
+    await redisClient
+      .multi()
+      .set(key, JSON.stringify(request))
+      .sAdd('rebinds', key)
+      .sAdd(`institution:${request.institutionId}:rebinds`, key)
+      .sAdd(`student:${request.studentId}:rebinds`, key)
+      .exec();
+    return request;
+  }
+
+  async update(requestId: string, mutate: Mutation<RebindRequest>): Promise<RebindRequest> {
+    return updateJson(this.key(requestId), mutate);
+  }
+
+  private key(requestId: string): string {
+    return `rebind:${requestId}`;
+  }
+}
+
+/**
+ * Each analysis lives at analysis:{id} and is indexed by time in the sorted
+ * sets session:{id}:analyses and student:{id}:analyses, so reads only touch
+ * the entries they return. Index entries older than the retention window are
+ * trimmed on read.
+ */
+export class RedisAnalysisRepository implements AnalysisRepository {
+  static readonly RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+  async save(analysis: StoredAnalysis): Promise<void> {
+    await this.write(crypto.randomUUID(), analysis, RedisAnalysisRepository.RETENTION_MS);
+  }
+
+  async listBySession(sessionId: string): Promise<StoredAnalysis[]> {
+    const index = this.sessionIndex(sessionId);
+    await this.trim(index);
+    const ids = await redisClient.zRange(index, 0, -1);
+    return getManyJson(ids.map(id => this.key(id)));
+  }
+
+  async listByStudent(studentId: string, limit?: number): Promise<StoredAnalysis[]> {
+    const index = this.studentIndex(studentId);
+    await this.trim(index);
+    const ids = await redisClient.zRange(index, 0, limit ? limit - 1 : -1, { REV: true });
+    return getManyJson(ids.map(id => this.key(id)));
+  }
+
+  /**
+   * Move analyses stored under the old analysis:{studentId}:{timestamp} keys
+   * into the indexed layout, keeping their remaining TTL. Safe to re-run.
+   */
+  async migrateLegacyKeys(): Promise<number> {
+    let migrated = 0;
+    for await (const legacyKey of redisClient.scanIterator({ MATCH: 'analysis:*:*', COUNT: 500 })) {
+      const [data, ttlMs] = await Promise.all([redisClient.get(legacyKey), redisClient.pTTL(legacyKey)]);
+      if (data && ttlMs !== -2) {
+        const ttl = ttlMs > 0 ? ttlMs : RedisAnalysisRepository.RETENTION_MS;
+        await this.write(crypto.randomUUID(), JSON.parse(data), ttl);
+        migrated++;
+      }
+      await redisClient.del(legacyKey);
+    }
+    return migrated;
+  }
+
+  private async write(id: string, analysis: StoredAnalysis, ttlMs: number): Promise<void> {
+    const sessionIndex = this.sessionIndex(analysis.sessionId);
+    const studentIndex = this.studentIndex(analysis.studentId);
+    const entry = { score: analysis.timestamp, value: id };
+
+    await redisClient
+      .multi()
+      .set(this.key(id), JSON.stringify(analysis), { PX: ttlMs })
+      .zAdd(sessionIndex, entry)
+      .pExpire(sessionIndex, RedisAnalysisRepository.RETENTION_MS)
+      .zAdd(studentIndex, entry)
+      .pExpire(studentIndex, RedisAnalysisRepository.RETENTION_MS)
+      .exec();
+  }
+
+  private async trim(index: string): Promise<void> {
+    await redisClient.zRemRangeByScore(index, '-inf', Date.now() - RedisAnalysisRepository.RETENTION_MS);
+  }
+
+  private sessionIndex(sessionId: string): string {
+    return `session:${sessionId}:analyses`;
+  }
+
+  private studentIndex(studentId: string): string {
+    return `student:${studentId}:analyses`;
+  }
+
+  private key(id: string): string {
+    return `analysis:${id}`;
+  }
+}
+
+/**
+ * An institution's whole history is one JSON list, oldest first; it only
+ * grows when an admin edits the policy
+ */
+class RedisPolicyRepository implements PolicyRepository {
+  async getLatest(institutionId: string): Promise<PolicyVersion | null> {
+    const [latest] = await this.listVersions(institutionId);
+    return latest || null;
+  }
+
+  async listVersions(institutionId: string): Promise<PolicyVersion[]> {
+    const versions = await getJson<PolicyVersion[]>(this.key(institutionId));
+    return (versions || []).reverse();
+  }
+
+  async append(
+    institutionId: string,
+    build: (latest: PolicyVersion | null) => PolicyVersion
+  ): Promise<PolicyVersion> {
+    const history = await updateJson<PolicyVersion[]>(this.key(institutionId), (versions) => {
+      const previous = versions || [];
+      return [...previous, build(previous[previous.length - 1] || null)];
+    });
+    return history[history.length - 1];
+  }
+
+  private key(institutionId: string): string {
+    return `institution:${institutionId}:policies`;
+  }
+}
+
+class RedisKeyValueRepository implements KeyValueRepository {
+  async get<T>(key: string): Promise<T | null> {
+    return getJson(key);
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    await redisClient.set(key, JSON.stringify(value), ttlMs === undefined ? undefined : { PX: ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    await redisClient.del(key);
+  }
+}
+
+/**
+ * Everything in Redis. Sessions and records are indexed with sets per
+ * institution, session and student.
+ */
+export function createRedisRepositories(): Repositories {
+  return {
+    sessions: new RedisSessionRepository(),
+    records: new RedisRecordRepository(),
+    users: new RedisUserRepository(),
+    devices: new RedisDeviceRepository(),
+    rebindRequests: new RedisRebindRequestRepository(),
+    analyses: new RedisAnalysisRepository(),
+    policies: new RedisPolicyRepository(),
+    patterns: new RedisKeyValueRepository(),
+    cache: new RedisKeyValueRepository()
+  };
+}
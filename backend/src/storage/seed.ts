@@ -0,0 +1,35 @@
+import fs from 'fs';
+import bcrypt from 'bcryptjs';
+import { logger } from '../utils/logger';
+import { getRepositories } from './index';
+import { Repositories } from './types';
+import { User } from '../types/attendance';
+import { SeedData } from '../types/auth';
+
+const PASSWORD_HASH_ROUNDS = 10;
+
+/**
+ * Load users from a SEED_FILE, e.g. so STORAGE_BACKEND=memory starts with
+ * accounts to log in with. Users are saved over any with the same id.
+ */
+export async function seedStorage(path: string, repositories: Repositories = getRepositories()): Promise<number> {
+  const data: SeedData = JSON.parse(fs.readFileSync(path, 'utf8'));
+  const createdAt = new Date().toISOString();
+
+  for (const { password, ...fields } of data.users || []) {
+    if (!fields.id || !fields.email || !fields.role || !fields.institutionId) {
+      throw new Error(`Seed users need an id, email, role and institutionId: ${JSON.stringify(fields)}`);
+    }
+
+    const user: User = {
+      ...fields,
+      isActive: fields.isActive ?? true,
+      createdAt: fields.createdAt || createdAt,
+      passwordHash: password ? await bcrypt.hash(password, PASSWORD_HASH_ROUNDS) : undefined
+    };
+    await repositories.users.save(user);
+  }
+
+  logger.info(`Seeded ${data.users?.length || 0} users from ${path}`);
+  return data.users?.length || 0;
+}
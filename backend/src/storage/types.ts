@@ -0,0 +1,129 @@
+import {
+  AttendanceRecord,
+  AttendanceSession,
+  AttendanceStatus,
+  SessionStatus,
+  StoredAnalysis,
+  User
+} from '../types/attendance';
+import { DeviceKeyRecord, RebindRequest, RebindRequestStatus } from '../types/device';
+import { PolicyVersion } from '../types/policy';
+
+/**
+ * Read-modify-write callback for atomic updates. Receives null when the item
+ * does not exist; throwing aborts the update.
+ */
+export type Mutation<T> = (current: T | null) => T;
+
+export interface SessionQuery {
+  institutionId?: string;
+  instructorId?: string;
+  classId?: string;
+  status?: SessionStatus;
+  /** Only sessions with startTime at or after this ISO time */
+  startingFrom?: string;
+  limit?: number;
+}
+
+/**
+ * Sessions are listed newest startTime first
+ */
+export interface SessionRepository {
+  get(sessionId: string): Promise<AttendanceSession | null>;
+  list(query: SessionQuery): Promise<AttendanceSession[]>;
+  create(session: Omit<AttendanceSession, 'id'>): Promise<AttendanceSession>;
+  save(session: AttendanceSession): Promise<void>;
+  update(sessionId: string, mutate: Mutation<AttendanceSession>): Promise<AttendanceSession>;
+  delete(sessionId: string): Promise<void>;
+}
+
+export interface RecordQuery {
+  sessionIds?: string[];
+  studentId?: string;
+  institutionId?: string;
+  status?: AttendanceStatus;
+  limit?: number;
+}
+
+/**
+ * Records are keyed by (sessionId, studentId) and listed newest timestamp first
+ */
+export interface AttendanceRecordRepository {
+  get(sessionId: string, studentId: string): Promise<AttendanceRecord | null>;
+  list(query: RecordQuery): Promise<AttendanceRecord[]>;
+  save(record: AttendanceRecord): Promise<void>;
+  update(sessionId: string, studentId: string, mutate: Mutation<AttendanceRecord>): Promise<AttendanceRecord>;
+}
+
+export interface UserRepository {
+  get(userId: string): Promise<User | null>;
+  /** Emails are matched case-insensitively */
+  getByEmail(email: string): Promise<User | null>;
+  /** Unknown ids are omitted from the result */
+  getMany(userIds: string[]): Promise<Map<string, User>>;
+  save(user: User): Promise<void>;
+  update(userId: string, changes: Partial<User>): Promise<void>;
+}
+
+export interface DeviceRepository {
+  get(deviceId: string): Promise<DeviceKeyRecord | null>;
+  save(record: DeviceKeyRecord): Promise<void>;
+}
+
+export interface RebindRequestQuery {
+  institutionId?: string;
+  studentId?: string;
+  status?: RebindRequestStatus;
+}
+
+/**
+ * Device rebind requests, listed newest first
+ */
+export interface RebindRequestRepository {
+  get(requestId: string): Promise<RebindRequest | null>;
+  list(query: RebindRequestQuery): Promise<RebindRequest[]>;
+  create(request: Omit<RebindRequest, 'id'>): Promise<RebindRequest>;
+  update(requestId: string, mutate: Mutation<RebindRequest>): Promise<RebindRequest>;
+}
+
+/**
+ * Analyses are listed oldest first for a session and newest first for a student
+ */
+export interface AnalysisRepository {
+  save(analysis: StoredAnalysis): Promise<void>;
+  listBySession(sessionId: string): Promise<StoredAnalysis[]>;
+  listByStudent(studentId: string, limit?: number): Promise<StoredAnalysis[]>;
+}
+
+/**
+ * Append-only policy history per institution, listed newest version first
+ */
+export interface PolicyRepository {
+  getLatest(institutionId: string): Promise<PolicyVersion | null>;
+  listVersions(institutionId: string): Promise<PolicyVersion[]>;
+  /** Atomically add the version built from the current latest one */
+  append(institutionId: string, build: (latest: PolicyVersion | null) => PolicyVersion): Promise<PolicyVersion>;
+}
+
+/**
+ * Expiring JSON values under colon-namespaced keys
+ */
+export interface KeyValueRepository {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface Repositories {
+  sessions: SessionRepository;
+  records: AttendanceRecordRepository;
+  users: UserRepository;
+  devices: DeviceRepository;
+  rebindRequests: RebindRequestRepository;
+  analyses: AnalysisRepository;
+  policies: PolicyRepository;
+  /** Behaviour, location and device usage history used by anti-proxy analysis */
+  patterns: KeyValueRepository;
+  /** Short-lived server state: issued challenges and refresh tokens */
+  cache: KeyValueRepository;
+}
@@ -0,0 +1,43 @@
+/**
+ * Response shapes of the analytics API, as rendered by the admin dashboard
+ */
+
+import { RiskBreakdown } from './risk';
+
+export interface AttendanceTrendPoint {
+  date: string;
+  present: number;
+  absent: number;
+  flagged: number;
+}
+
+export interface FlagDistributionEntry {
+  flag: string;
+  label: string;
+  count: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  className: string;
+  instructor: string;
+  date: string;
+  time: string;
+  studentsPresent: number;
+  totalStudents: number;
+  flaggedCount: number;
+  status: string;
+}
+
+export interface FlaggedStudent {
+  id: string;
+  name: string;
+  studentId: string;
+  session: string;
+  flagReason: string;
+  rssi: number | null;
+  riskScore: number | null;
+  /** Null for records analyzed before breakdowns were kept */
+  breakdown: RiskBreakdown | null;
+  timestamp: string;
+}
@@ -0,0 +1,272 @@
+/**
+ * Wire types shared with the Flutter app (see lib/core/models).
+ * Dates travel as ISO-8601 strings.
+ */
+
+import { PolicyOverrides } from './policy';
+import { RiskBreakdown } from './risk';
+import { DetectorReport } from './detector';
+import { AttendanceDecision } from './decision';
+import { RecordedCheckIn } from './replay';
+
+export interface Position {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  accuracy?: number;
+  timestamp: number;
+}
+
+export interface DeviceContext {
+  deviceId: string;
+  platform?: string;
+  model?: string;
+  manufacturer?: string;
+  osVersion?: string;
+  appVersion?: string;
+  securityFlags?: string[];
+  [key: string]: any;
+}
+
+export interface ChallengeData {
+  sessionId: string;
+  challengeCode: string;
+  nonce: string;
+  issuedAt: string;
+  expiresAt: string;
+  instructorId: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * One access point from the device's WiFi scan. Level is RSSI in dBm.
+ */
+export interface WifiObservation {
+  bssid: string;
+  ssid?: string;
+  level?: number;
+}
+
+/**
+ * One RSSI reading of a student's advertisement, taken by the instructor's scan
+ */
+export interface RssiReading {
+  rssi: number;
+  observedAt: string;
+}
+
+export interface ChallengeResponse {
+  sessionId: string;
+  studentId: string;
+  challengeCode: string;
+  signedResponse: string;
+  respondedAt: string;
+  rssi: number;
+  location?: Position;
+  wifiNetworks?: string[];
+  wifiScan?: WifiObservation[];
+  faceToken?: string;
+  deviceContext: DeviceContext;
+}
+
+/**
+ * Payload signed by ChallengeService.signChallengeResponse on the student device
+ */
+export interface SignedChallengePayload {
+  challengeCode: string;
+  nonce: string;
+  studentId: string;
+  deviceId: string;
+  sessionId: string;
+  timestamp: number;
+  additionalData: Record<string, any>;
+}
+
+/**
+ * When a challenge was issued and its response received, both by the server's
+ * clock, and when the device says it signed the response
+ */
+export interface ResponseTiming {
+  issuedAt: string;
+  receivedAt: string;
+  serverElapsedMs: number;
+  /** The signed payload's timestamp, by the device's clock */
+  deviceSignedAt: number;
+}
+
+export interface ChallengeVerificationResult {
+  isValid: boolean;
+  studentId?: string;
+  deviceId?: string;
+  responseLatencyMs?: number;
+  timing?: ResponseTiming;
+  errorReason?: string;
+  flags: Partial<AntiProxyFlags>;
+  additionalData?: Record<string, any>;
+}
+
+export interface AntiProxyFlags {
+  weakSignal: boolean;
+  duplicateDevice: boolean;
+  invalidLocation: boolean;
+  suspiciousWifi: boolean;
+  lateResponse: boolean;
+  invalidChallenge: boolean;
+  rootedDevice: boolean;
+  mockedLocation: boolean;
+  unusualPattern: boolean;
+  outsideGeofence: boolean;
+  rssiAnomaly: boolean;
+  unboundDevice: boolean;
+  collusion: boolean;
+  clockManipulation: boolean;
+  impossibleTravel: boolean;
+  details: Record<string, any>;
+  breakdown: RiskBreakdown;
+  /** Whether a detector failed, so the analysis went on without it */
+  partial: boolean;
+  detectors: DetectorReport[];
+}
+
+/**
+ * One anti-proxy analysis as kept for session reports and pattern learning
+ */
+export interface StoredAnalysis {
+  studentId: string;
+  sessionId: string;
+  timestamp: number;
+  flags: Partial<AntiProxyFlags>;
+  details: Record<string, any>;
+  /** Missing on analyses stored before breakdowns were kept */
+  breakdown?: RiskBreakdown;
+  detectors?: DetectorReport[];
+  policyVersion: number;
+  response: {
+    deviceId: string;
+    deviceFingerprint?: string;
+    ip?: string;
+    rssi: number;
+    responseTime: number;
+    location?: Position;
+    wifiNetworks?: string[];
+    wifiScan?: WifiObservation[];
+  };
+  /** What was analyzed, so policy replays can run it again; missing on analyses stored before it was kept */
+  checkIn?: RecordedCheckIn;
+}
+
+export interface AttendanceAnalytics {
+  sessionId: string;
+  totalStudents: number;
+  presentCount: number;
+  absentCount: number;
+  flaggedCount: number;
+  attendanceRate: number;
+}
+
+export type SessionStatus = 'created' | 'active' | 'completed' | 'cancelled';
+
+export interface GeofenceData {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  locationName?: string;
+  buildingName?: string;
+  roomNumber?: string;
+}
+
+export interface AttendanceSession {
+  id: string;
+  institutionId: string;
+  instructorId: string;
+  classId: string;
+  className: string;
+  subject: string;
+  startTime: string;
+  endTime: string;
+  geofence: GeofenceData;
+  timeWindowMinutes: number;
+  challengeCode: string;
+  status: SessionStatus;
+  detectedStudentIds: string[];
+  metadata: Record<string, any>;
+  /** Anti-proxy policy changes for this session only */
+  policyOverrides?: PolicyOverrides;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'flagged' | 'pending';
+
+export interface AttendanceRecord {
+  studentId: string;
+  sessionId: string;
+  institutionId: string;
+  status: AttendanceStatus;
+  timestamp: string;
+  rssi?: number;
+  gpsLocation?: Position;
+  wifiNetworks?: string[];
+  wifiScan?: WifiObservation[];
+  challengeResponse?: string;
+  faceVerified?: boolean;
+  faceToken?: string;
+  antiProxyData: Record<string, any>;
+  suspiciousFlags?: string[];
+  manualOverride?: boolean;
+  overrideReason?: string;
+  overrideByUserId?: string;
+  overriddenAt?: string;
+  /** Status the anti-proxy analysis assigned before any manual override */
+  originalStatus?: AttendanceStatus;
+  /** How the anti-proxy analysis was turned into the automatic status, and why */
+  decision?: AttendanceDecision;
+  /** Session collusion findings this record is part of */
+  collusionFindingIds?: string[];
+  /** Impossible-travel findings linking this check-in to the student's others */
+  travelFindingIds?: string[];
+  /**
+   * Submissions that did not stand, oldest first: later ones that were not
+   * allowed to replace the record, and earlier records a later one replaced
+   */
+  attempts?: AttendanceAttempt[];
+}
+
+/**
+ * A submission logged beside a record it could not replace, such as a replay
+ * of a response that was already accepted, or a record that was replaced
+ */
+export interface AttendanceAttempt {
+  timestamp: string;
+  isValid: boolean;
+  errorReason?: string;
+  suspiciousFlags: string[];
+  /**
+   * What the decision stage made of the attempt on its own; missing on
+   * replaced records stored before decisions were kept
+   */
+  decision?: AttendanceDecision;
+  /** Set when the attempt was the record until a later response replaced it */
+  replaced?: boolean;
+  /** The replaced record's analysis: its flags, risk breakdown and verification */
+  antiProxyData?: Record<string, any>;
+}
+
+export type UserRole = 'student' | 'instructor' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  institutionId: string;
+  studentId?: string;
+  employeeId?: string;
+  boundDeviceId?: string;
+  deviceBoundAt?: string;
+  isActive: boolean;
+  createdAt: string;
+  lastLoginAt?: string;
+  /** bcrypt hash for password login when AUTH_PROVIDER is local */
+  passwordHash?: string;
+}
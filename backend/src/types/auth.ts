@@ -0,0 +1,30 @@
+import { User, UserRole } from './attendance';
+
+/**
+ * Identity carried in access tokens and attached to authenticated requests
+ */
+export interface AuthUser {
+  id: string;
+  role: UserRole;
+  institutionId: string;
+}
+
+/**
+ * A user to create from SEED_FILE. The password is hashed on load.
+ */
+export type SeedUser = Omit<User, 'isActive' | 'createdAt' | 'passwordHash'> & {
+  password?: string;
+  isActive?: boolean;
+  createdAt?: string;
+};
+
+export interface SeedData {
+  users: SeedUser[];
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: AuthUser;
+}
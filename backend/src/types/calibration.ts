@@ -0,0 +1,34 @@
+/**
+ * Log-distance path loss model for one room, optionally for one device model:
+ * rssi = measuredPower - 10 * pathLossExponent * log10(distance)
+ */
+export interface CalibrationProfile {
+  roomKey: string;
+  /** Normalized manufacturer and model, or '*' for any device in the room */
+  deviceModel: string;
+  /** RSSI in dBm measured 1m from the device */
+  measuredPower: number;
+  pathLossExponent: number;
+  /** Readings the profile was fitted from; 0 when entered directly */
+  samples: number;
+  calibratedBy: string;
+  calibratedAt: string;
+}
+
+/**
+ * One reading taken at a known distance during calibration
+ */
+export interface CalibrationReading {
+  distanceMeters: number;
+  rssi: number;
+}
+
+/**
+ * Distance estimate for a response and the profile it came from
+ */
+export interface DistanceEstimate {
+  distanceMeters: number;
+  source: 'room-device' | 'room' | 'default';
+  measuredPower: number;
+  pathLossExponent: number;
+}
@@ -0,0 +1,14 @@
+export type CollusionSignal = 'sharedDevice' | 'sharedIp' | 'colocatedGps' | 'identicalWifi' | 'clusteredTiming';
+
+/**
+ * A group of responses in one session that look like one person checking in several students
+ */
+export interface CollusionFinding {
+  id: string;
+  sessionId: string;
+  institutionId: string;
+  signal: CollusionSignal;
+  studentIds: string[];
+  evidence: Record<string, any>;
+  createdAt: string;
+}
@@ -0,0 +1,25 @@
+import { AttendanceStatus } from './attendance';
+import { AntiProxyFlagName } from './policy';
+
+export type DecisionOutcome = 'accept' | 'review' | 'reject';
+
+/**
+ * Which part of the policy decided: a hard-fail flag, a flag that always needs
+ * review, an incomplete analysis, or the score bands
+ */
+export type DecisionRule = 'rejectFlag' | 'reviewFlag' | 'partial' | 'band';
+
+/**
+ * What the decision stage made of an analysis, kept on the attendance record
+ */
+export interface AttendanceDecision {
+  outcome: DecisionOutcome;
+  status: AttendanceStatus;
+  rule: DecisionRule;
+  reason: string;
+  riskScore: number;
+  /** The flags a flag rule matched */
+  flags?: AntiProxyFlagName[];
+  policyVersion: number;
+  decidedAt: string;
+}
@@ -0,0 +1,23 @@
+import { AntiProxyFlagName } from './policy';
+
+/**
+ * Parts of a response and its context a detector cannot run without
+ */
+export type DetectorInput = 'verification' | 'timing' | 'location' | 'binding';
+
+export type DetectorStatus = 'fired' | 'clear' | 'skipped' | 'disabled' | 'failed';
+
+/**
+ * How one detector's run went
+ */
+export interface DetectorReport {
+  name: string;
+  status: DetectorStatus;
+  /** Flags it raised */
+  flags: AntiProxyFlagName[];
+  durationMs: number;
+  /** Inputs the response lacked, for skipped detectors */
+  missingInputs?: DetectorInput[];
+  /** What went wrong, for failed detectors */
+  error?: string;
+}
@@ -0,0 +1,93 @@
+export interface DeviceRegistration {
+  deviceId: string;
+  userId: string;
+  institutionId: string;
+  platform?: string;
+  model?: string;
+  manufacturer?: string;
+  osVersion?: string;
+  appVersion?: string;
+  bleUuid?: string;
+  deviceFingerprint?: string;
+}
+
+export interface IssuedDeviceKey {
+  deviceId: string;
+  userId: string;
+  keyId: string;
+  secret: string;
+  issuedAt: string;
+}
+
+export interface DeviceKeyStatus {
+  deviceId: string;
+  userId: string;
+  institutionId: string;
+  keyId: string;
+  status: 'active' | 'revoked';
+  registeredAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  revokedReason?: string;
+}
+
+export interface StoredKey {
+  keyId: string;
+  encryptedSecret: string;
+  issuedAt: string;
+  validUntil?: string;
+}
+
+/**
+ * A device's registration and its (encrypted) signing keys as persisted
+ */
+export interface DeviceKeyRecord extends DeviceKeyStatus {
+  device: DeviceRegistration;
+  current: StoredKey;
+  previous?: StoredKey;
+  /** The account an approved rebind moved the device to, which alone may register it next */
+  releasedTo?: string;
+}
+
+export type RebindRequestStatus = 'pending' | 'approved' | 'rejected' | 'completed';
+
+/**
+ * A student asking to check in from a different device. Approved requests
+ * take effect once the institution's cooldown has passed.
+ */
+export interface RebindRequest {
+  id: string;
+  institutionId: string;
+  studentId: string;
+  deviceId: string;
+  /** The account the device is registered to, when moving it between accounts */
+  currentOwnerId?: string;
+  reason?: string;
+  status: RebindRequestStatus;
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNote?: string;
+  effectiveAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Every student seen checking in from a device, with when they were last seen
+ */
+export interface DeviceUsage {
+  deviceId: string;
+  userIds: string[];
+  lastSeen: Record<string, string>;
+}
+
+/**
+ * Whether a response came from the device its student is bound to
+ */
+export interface BindingCheck {
+  status: 'bound' | 'unbound' | 'mismatch';
+  deviceId: string;
+  boundDeviceId?: string;
+  /** Set when this check bound the student's first device */
+  newlyBound?: boolean;
+}
@@ -0,0 +1,11 @@
+import { AuthUser } from './auth';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,154 @@
+import { AntiProxyFlags } from './attendance';
+
+export type AntiProxyFlagName = Exclude<keyof AntiProxyFlags, 'details' | 'breakdown' | 'partial' | 'detectors'>;
+
+/**
+ * Thresholds and weights the anti-proxy analysis scores responses with
+ */
+export interface AntiProxyPolicy {
+  rssi: {
+    veryWeak: number;
+    weak: number;
+    medium: number;
+    strong: number;
+    /** In calibrated rooms, estimated distances beyond this are a weak signal */
+    maxDistanceMeters: number;
+  };
+  rssiSeries: {
+    /** Readings the instructor's scan must have taken before the series is judged */
+    minSamples: number;
+    /** Series whose standard deviation is below this are too flat for a live radio */
+    flatStdDevDb: number;
+    /** Largest plausible change between consecutive readings */
+    maxJumpDb: number;
+    /** Weight of each new reading in the smoothed value */
+    smoothingAlpha: number;
+  };
+  responseTime: {
+    suspiciousFastMs: number;
+    minHumanMs: number;
+    maxReasonableMs: number;
+  };
+  clock: {
+    /** Responses a device must have signed before its usual offset is trusted */
+    minSamples: number;
+    /** Device clocks further than this from the server's are wrong, until the device has a usual offset */
+    maxOffsetMs: number;
+    /** Smallest change from the expected offset that is ever flagged */
+    jumpToleranceMs: number;
+    /** Fastest a genuine clock drifts */
+    maxDriftMsPerHour: number;
+    /** Weight of each new response in the offset estimate */
+    smoothingAlpha: number;
+  };
+  location: {
+    maxAccuracyErrorMeters: number;
+    minMovementTimeMs: number;
+    suspiciousJumpMeters: number;
+  };
+  travel: {
+    /** Check-ins further apart than this are not compared */
+    windowHours: number;
+    /** Geofences closer than this, edge to edge, count as the same place */
+    minDistanceMeters: number;
+    /** Fastest a student could get from one class to another */
+    maxSpeedMetersPerSecond: number;
+    /** How long a check-in commits the student to staying, unless the session ends sooner */
+    minStayMinutes: number;
+  };
+  wifi: {
+    /** Trusted check-ins a room needs before its fingerprint is used */
+    fingerprintMinSamples: number;
+    /** How many standard deviations below the room's usual similarity is suspicious */
+    similarityDeviations: number;
+    /** Smallest drop below the usual similarity that is ever flagged */
+    minSimilarityDrop: number;
+  };
+  devices: {
+    /** Refuse responses from devices not bound to the student instead of flagging them */
+    refuseUnbound: boolean;
+    /** How long an approved rebind waits before it takes effect */
+    rebindCooldownHours: number;
+    /** Students seen on the same device within this many days count as sharing it */
+    usageWindowDays: number;
+  };
+  collusion: {
+    /** Fixes closer than this are the same position */
+    gpsDistanceMeters: number;
+    /** Larger groups on one IP are taken to be the campus network */
+    maxSharedIpGroup: number;
+    /** WiFi lists shorter than this are too common to compare */
+    minWifiNetworks: number;
+    /**
+     * Responses closer together than this share of the session's median gap
+     * between responses are clustered, so a large class answering at once is not
+     */
+    timingGapRatio: number;
+    /** Smallest cluster of responses that is suspicious */
+    minTimingGroup: number;
+    /**
+     * Different signals that must group the same two students before either is
+     * flagged. One alone, such as a campus NAT's shared IP, is common by chance.
+     */
+    minSignals: number;
+  };
+  behavior: {
+    /** Check-ins a student needs before their baseline is used */
+    minSamples: number;
+    /** Standard deviations from the student's mean that count as unusual */
+    zScoreThreshold: number;
+    /** Rooms the student checks in from less often than this are unusual */
+    minRoomFrequency: number;
+    /** Weight of each new check-in once the baseline has warmed up */
+    smoothingAlpha: number;
+  };
+  decision: {
+    /** Scores below this are accepted */
+    acceptBelow: number;
+    /** Scores from this up are rejected; those in between go to review */
+    rejectFrom: number;
+    /** Flags that reject a response whatever its score */
+    rejectFlags: AntiProxyFlagName[];
+    /** Flags that send a response to review unless it is rejected */
+    reviewFlags: AntiProxyFlagName[];
+    /** Send responses a detector failed on to review instead of accepting them */
+    reviewPartial: boolean;
+    /** Accepted check-ins this many minutes after the session starts are late */
+    lateAfterMinutes: number;
+  };
+  detectors: {
+    /** Names of detectors that do not run */
+    disabled: string[];
+    /** How long a detector may take before the analysis goes on without it */
+    timeoutMs: number;
+  };
+  /** How likely each flag alone is to mean a proxy, from 0 to 1. Flags that fire together compound. */
+  weights: Record<AntiProxyFlagName, number>;
+}
+
+/**
+ * Partial policy merged section by section over a base policy
+ */
+export type PolicyOverrides = {
+  [Section in keyof AntiProxyPolicy]?: Partial<AntiProxyPolicy[Section]>;
+};
+
+export interface PolicyVersion {
+  institutionId: string;
+  version: number;
+  policy: AntiProxyPolicy;
+  createdAt: string;
+  createdBy: string;
+  note?: string;
+}
+
+/**
+ * The policy a session's responses are scored under: its institution's
+ * current version plus any session overrides
+ */
+export interface ResolvedPolicy {
+  institutionId: string;
+  version: number;
+  sessionOverride: boolean;
+  policy: AntiProxyPolicy;
+}
@@ -0,0 +1,77 @@
+import { AttendanceRecord, AttendanceSession, ChallengeResponse, ChallengeVerificationResult } from './attendance';
+import { AttendanceDecision, DecisionOutcome } from './decision';
+import { BindingCheck } from './device';
+import { PolicyVersion } from './policy';
+
+/**
+ * A check-in as the server received it, with what it was analyzed against
+ */
+export interface RecordedCheckIn {
+  response: ChallengeResponse;
+  session: AttendanceSession;
+  verification?: ChallengeVerificationResult;
+  binding?: BindingCheck;
+  clientIp?: string;
+  /** Defaults to the verification's receipt time, then to when the device responded */
+  receivedAt?: string;
+}
+
+/**
+ * Recorded check-ins with the attendance records that label them
+ */
+export interface ReplayInput {
+  checkIns: RecordedCheckIn[];
+  records: AttendanceRecord[];
+}
+
+/**
+ * What staff decided a check-in was by overriding its record
+ */
+export type ReplayLabel = 'genuine' | 'proxy';
+
+/**
+ * A policy to replay under: a saved version, or any policy numbered for the report
+ */
+export type ReplayPolicy = Pick<PolicyVersion, 'version' | 'policy'>;
+
+export interface DecisionChange {
+  sessionId: string;
+  studentId: string;
+  receivedAt: string;
+  label?: ReplayLabel;
+  baseline: AttendanceDecision;
+  candidate: AttendanceDecision;
+}
+
+/**
+ * How often something flagged check-ins, and how well that matched the labels.
+ * Precision and recall are null until there is anything to divide by.
+ */
+export interface DetectionMetrics {
+  name: string;
+  /** Check-ins it looked at; detectors that were disabled, skipped or failed did not */
+  checked: number;
+  flagged: number;
+  flagRate: number | null;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface ReplayRunSummary {
+  policyVersion: number;
+  outcomes: Record<DecisionOutcome, number>;
+  /** A check-in counts as flagged when it was not accepted */
+  decisions: DetectionMetrics;
+  detectors: DetectionMetrics[];
+}
+
+export interface ReplayReport {
+  checkIns: number;
+  labeled: Record<ReplayLabel, number>;
+  changes: DecisionChange[];
+  baseline: ReplayRunSummary;
+  candidate: ReplayRunSummary;
+}
@@ -0,0 +1,35 @@
+import { AntiProxyFlagName } from './policy';
+
+/**
+ * What one check found, as reported by the analysis that ran it
+ */
+export interface RiskFinding {
+  reason: string;
+  evidence: Record<string, unknown>;
+}
+
+export type RiskFindings = Partial<Record<AntiProxyFlagName, RiskFinding>>;
+
+/**
+ * One weighted check and what it added to the score
+ */
+export interface RiskFactor {
+  flag: AntiProxyFlagName;
+  label: string;
+  fired: boolean;
+  weight: number;
+  /** Points of the 0-100 score this check accounts for */
+  contribution: number;
+  reason: string;
+  /** Values the check decided on; empty when it did not fire */
+  evidence: Record<string, unknown>;
+}
+
+/**
+ * Why a response scored what it did, one factor per weighted check in policy order
+ */
+export interface RiskBreakdown {
+  score: number;
+  policyVersion: number;
+  factors: RiskFactor[];
+}
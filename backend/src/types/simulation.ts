@@ -0,0 +1,69 @@
+import { AttendanceRecord, AttendanceSession, ChallengeVerificationResult, GeofenceData } from './attendance';
+import { AttendanceDecision } from './decision';
+import { RecordedCheckIn, ReplayLabel } from './replay';
+
+/**
+ * Ways the simulator checks in a student who is not in the room:
+ * - remoteProxy: from home, with the challenge passed on by a classmate
+ * - emulator: from an emulated phone with its default location and WiFi
+ * - mockedGps: from home, with a mock location app placing them in the room
+ * - sharedDevice: on a classmate's phone, in the room
+ * - relayedBle: from home, with the room's beacon relayed to them
+ */
+export type AttackKind = 'remoteProxy' | 'emulator' | 'mockedGps' | 'sharedDevice' | 'relayedBle';
+
+export interface ClassroomOptions {
+  institutionId: string;
+  geofence: GeofenceData;
+  /** Side of the square room, in meters */
+  roomSizeMeters: number;
+  accessPoints: number;
+  /** Level of the instructor's beacon 1m away, in dBm */
+  measuredPower: number;
+  pathLossExponent: number;
+  /** Standard deviation of the shadowing added to every BLE and WiFi level, in dB */
+  signalNoiseDb: number;
+}
+
+export interface SimulationOptions {
+  seed: number;
+  sessions: number;
+  students: number;
+  /** Chance that a student who attends is in the room, rather than missing */
+  attendanceRate: number;
+  /** Chance that a student checks in by each attack instead of attending */
+  attackRates: Partial<Record<AttackKind, number>>;
+  /** When the first session starts; the rest follow a day apart */
+  startTime: string;
+  classroom: ClassroomOptions;
+}
+
+/**
+ * A generated check-in and what it really was
+ */
+export interface SimulatedCheckIn extends RecordedCheckIn {
+  label: ReplayLabel;
+  attack?: AttackKind;
+}
+
+export interface SimulationResult {
+  sessions: AttendanceSession[];
+  checkIns: SimulatedCheckIn[];
+  /** One record per check-in, overridden to its label, for the replay tool */
+  records: AttendanceRecord[];
+}
+
+/**
+ * What a running backend made of a simulated check-in
+ */
+export interface SimulatedApiOutcome {
+  sessionId: string;
+  studentId: string;
+  label: ReplayLabel;
+  attack?: AttackKind;
+  httpStatus: number;
+  status?: string;
+  decision?: AttendanceDecision;
+  verification?: Pick<ChallengeVerificationResult, 'isValid' | 'errorReason' | 'responseLatencyMs'>;
+  error?: string;
+}
@@ -0,0 +1,36 @@
+import { GeofenceData } from './attendance';
+
+/**
+ * Where a check-in puts the student, by its session's geofence and schedule
+ */
+export interface TravelCheckIn {
+  sessionId: string;
+  className: string;
+  checkedInAt: string;
+  startTime: string;
+  endTime: string;
+  geofence: GeofenceData;
+}
+
+/**
+ * Two check-ins the student could not have made both of. From is the earlier one.
+ */
+export interface TravelConflict {
+  from: TravelCheckIn;
+  to: TravelCheckIn;
+  /** Between the geofences' edges */
+  distanceMeters: number;
+  /** From when the student could leave the first class to the second check-in; none left when not positive */
+  availableMs: number;
+  /** Null when there was no time to travel at all */
+  requiredSpeedMetersPerSecond: number | null;
+  /** Whether the two sessions are scheduled at overlapping times */
+  overlapping: boolean;
+}
+
+export interface TravelFinding extends TravelConflict {
+  id: string;
+  institutionId: string;
+  studentId: string;
+  createdAt: string;
+}
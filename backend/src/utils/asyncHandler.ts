@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * Forward rejected promises from async route handlers to the error middleware
+ */
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+};
@@ -0,0 +1,50 @@
+/**
+ * Base class for errors that map to an HTTP response
+ */
+export class AppError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(400, 'VALIDATION_ERROR', message, details);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(404, 'NOT_FOUND', message, details);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: Record<string, any>, code = 'CONFLICT') {
+    super(409, code, message, details);
+  }
+}
+
+export class InvalidSessionTransitionError extends ConflictError {
+  constructor(sessionId: string, from: string, to: string) {
+    super(`Cannot move session from ${from} to ${to}`, { sessionId, from, to }, 'INVALID_SESSION_TRANSITION');
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Authentication required', details?: Record<string, any>) {
+    super(401, 'UNAUTHORIZED', message, details);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Not allowed', details?: Record<string, any>) {
+    super(403, 'FORBIDDEN', message, details);
+  }
+}
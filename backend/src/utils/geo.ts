@@ -0,0 +1,22 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Great-circle distance in meters
+ */
+export const haversineDistance = (loc1: Coordinates, loc2: Coordinates): number => {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = loc1.latitude * Math.PI / 180;
+  const φ2 = loc2.latitude * Math.PI / 180;
+  const Δφ = (loc2.latitude - loc1.latitude) * Math.PI / 180;
+  const Δλ = (loc2.longitude - loc1.longitude) * Math.PI / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+};
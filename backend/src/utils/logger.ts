@@ -0,0 +1,25 @@
+import winston from 'winston';
+
+const { combine, timestamp, errors, json, colorize, printf } = winston.format;
+
+const consoleFormat = printf(({ level, message, timestamp, stack }) => {
+  return `${timestamp} [${level}]: ${stack || message}`;
+});
+
+export const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: combine(
+    timestamp(),
+    errors({ stack: true }),
+    json()
+  ),
+  transports: [
+    new winston.transports.Console({
+      format: combine(colorize(), timestamp(), errors({ stack: true }), consoleFormat)
+    })
+  ]
+});
+
+if (process.env.LOG_FILE) {
+  logger.add(new winston.transports.File({ filename: process.env.LOG_FILE }));
+}
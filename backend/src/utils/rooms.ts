@@ -0,0 +1,11 @@
+import { AttendanceSession } from '../types/attendance';
+
+/**
+ * Rooms are identified by building and room number, falling back to the class
+ */
+export const roomKey = (session: AttendanceSession): string => {
+  const { buildingName, roomNumber } = session.geofence;
+  return roomNumber
+    ? `${session.institutionId}:${buildingName || '-'}:${roomNumber}`
+    : `${session.institutionId}:class:${session.classId}`;
+};
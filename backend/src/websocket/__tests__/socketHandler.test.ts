@@ -0,0 +1,151 @@
+import request from 'supertest';
+import { TestUser, createActiveSession, createUser, issueChallenge, testApp } from '../../__tests__/helpers';
+import { AttendanceSocketServer, sessionRoom, setupWebSocket } from '../socketHandler';
+
+type Handler = (...args: any[]) => unknown;
+
+interface Emitted {
+  room: string;
+  event: string;
+  payload: any;
+}
+
+/**
+ * Just enough of a Socket.IO server to drive the handler: the auth middleware,
+ * the connection handler and room broadcasts
+ */
+class FakeServer {
+  middleware: Handler[] = [];
+  onConnection?: Handler;
+  emitted: Emitted[] = [];
+
+  use(fn: Handler) {
+    this.middleware.push(fn);
+  }
+
+  on(event: string, fn: Handler) {
+    if (event === 'connection') {
+      this.onConnection = fn;
+    }
+  }
+
+  to(room: string) {
+    return { emit: (event: string, payload: unknown) => this.emitted.push({ room, event, payload }) };
+  }
+
+  async connect(token?: string): Promise<FakeSocket> {
+    const socket = new FakeSocket(token);
+    for (const fn of this.middleware) {
+      const error = await new Promise(resolve => fn(socket, resolve));
+      if (error) {
+        throw error;
+      }
+    }
+    this.onConnection?.(socket);
+    return socket;
+  }
+}
+
+class FakeSocket {
+  id = 'socket-1';
+  data: Record<string, any> = {};
+  rooms = new Set<string>();
+  handlers = new Map<string, Handler>();
+  handshake: { auth: { token?: string } };
+
+  constructor(token?: string) {
+    this.handshake = { auth: { token } };
+  }
+
+  on(event: string, fn: Handler) {
+    this.handlers.set(event, fn);
+  }
+
+  async join(room: string) {
+    this.rooms.add(room);
+  }
+
+  leave(room: string) {
+    this.rooms.delete(room);
+  }
+
+  async send(event: string, ...args: unknown[]) {
+    await this.handlers.get(event)?.(...args);
+  }
+
+  async joinSession(sessionId: string): Promise<{ ok: boolean; error?: string }> {
+    let reply: { ok: boolean; error?: string } = { ok: false };
+    await this.send('session:join', sessionId, (ack: typeof reply) => { reply = ack; });
+    return reply;
+  }
+}
+
+describe('session websocket protocol', () => {
+  const app = testApp();
+  const server = new FakeServer();
+  let instructor: TestUser;
+
+  beforeAll(async () => {
+    setupWebSocket(server as unknown as AttendanceSocketServer);
+    instructor = await createUser('instructor');
+  });
+
+  it('refuses connections without a valid access token', async () => {
+    await expect(server.connect()).rejects.toThrow('Authentication required');
+    await expect(server.connect('not-a-token')).rejects.toThrow('Invalid or expired access token');
+
+    const socket = await server.connect(instructor.token);
+    expect(socket.data.user.id).toBe(instructor.user.id);
+  });
+
+  it('lets only the session instructor join its room', async () => {
+    const session = await createActiveSession(app, instructor);
+    const other = await createUser('instructor');
+
+    const outsider = await server.connect(other.token);
+    expect(await outsider.joinSession(session.id)).toEqual({ ok: false, error: 'Only the session instructor can do this' });
+    expect(outsider.rooms.has(sessionRoom(session.id))).toBe(false);
+
+    const owner = await server.connect(instructor.token);
+    expect(await owner.joinSession(session.id)).toEqual({ ok: true });
+    expect(owner.rooms.has(sessionRoom(session.id))).toBe(true);
+  });
+
+  it('broadcasts session events to the session room', async () => {
+    const session = await createActiveSession(app, instructor);
+    await issueChallenge(app, instructor, session);
+    await request(app)
+      .post(`/api/sessions/${session.id}/complete`)
+      .set('Authorization', `Bearer ${instructor.token}`)
+      .expect(200);
+
+    const events = server.emitted.filter(emitted => emitted.room === sessionRoom(session.id)).map(emitted => emitted.event);
+    expect(events).toEqual(expect.arrayContaining(['challenge:issued', 'session:status_changed']));
+  });
+
+  it('relays discovered students only from sockets in the room', async () => {
+    const session = await createActiveSession(app, instructor);
+    const discovered = {
+      sessionId: session.id,
+      studentId: 'student-1',
+      deviceId: 'phone-1',
+      bleUuid: 'uuid-1',
+      rssi: -60,
+      discoveredAt: new Date().toISOString()
+    };
+
+    const relayed = () => server.emitted.filter(emitted => emitted.event === 'student:discovered');
+
+    const socket = await server.connect(instructor.token);
+    await socket.send('student:discovered', discovered);
+    expect(relayed()).toHaveLength(0);
+
+    await socket.joinSession(session.id);
+    await socket.send('student:discovered', discovered);
+    expect(relayed()).toEqual([{
+      room: sessionRoom(session.id),
+      event: 'student:discovered',
+      payload: { ...discovered, reportedBy: instructor.user.id }
+    }]);
+  });
+});
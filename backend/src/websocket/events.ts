@@ -0,0 +1,88 @@
+/**
+ * Socket.IO event contract. The admin dashboard keeps a copy in
+ * admin-dashboard/src/lib/socketEvents.ts; change both together.
+ *
+ * Clients authenticate with an access token in `handshake.auth.token` and
+ * receive events for the sessions they have joined.
+ */
+import { AttendanceStatus, SessionStatus } from '../types/attendance';
+import { AuthUser } from '../types/auth';
+
+export interface ChallengeIssuedEvent {
+  sessionId: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface StudentDiscoveredEvent {
+  sessionId: string;
+  studentId: string;
+  deviceId: string;
+  bleUuid: string;
+  rssi: number;
+  discoveredAt: string;
+  reportedBy: string;
+}
+
+export interface ResponseReceivedEvent {
+  sessionId: string;
+  studentId: string;
+  isValid: boolean;
+  errorReason?: string;
+  receivedAt: string;
+}
+
+export interface AttendanceMarkedEvent {
+  sessionId: string;
+  studentId: string;
+  status: AttendanceStatus;
+  manualOverride: boolean;
+  timestamp: string;
+}
+
+export interface RecordFlaggedEvent {
+  sessionId: string;
+  studentId: string;
+  suspiciousFlags: string[];
+  riskScore: number;
+  timestamp: string;
+}
+
+export interface SessionStatusChangedEvent {
+  sessionId: string;
+  previousStatus: SessionStatus;
+  status: SessionStatus;
+  changedAt: string;
+}
+
+export interface ServerToClientEvents {
+  'challenge:issued': (event: ChallengeIssuedEvent) => void;
+  'student:discovered': (event: StudentDiscoveredEvent) => void;
+  'response:received': (event: ResponseReceivedEvent) => void;
+  'attendance:marked': (event: AttendanceMarkedEvent) => void;
+  'record:flagged': (event: RecordFlaggedEvent) => void;
+  'session:status_changed': (event: SessionStatusChangedEvent) => void;
+}
+
+export interface JoinSessionResult {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * What the instructor app reports for each student it picks up on its BLE scan
+ */
+export type StudentDiscoveredInput = Omit<StudentDiscoveredEvent, 'reportedBy'>;
+
+export interface ClientToServerEvents {
+  'session:join': (sessionId: string, ack?: (result: JoinSessionResult) => void) => void;
+  'session:leave': (sessionId: string) => void;
+  'student:discovered': (input: StudentDiscoveredInput) => void;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface InterServerEvents {}
+
+export interface SocketData {
+  user: AuthUser;
+}
@@ -0,0 +1,116 @@
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { AuthService } from '../services/authService';
+import { SessionService } from '../services/sessionService';
+import { RssiSeriesService } from '../services/rssiSeriesService';
+import { assertCanManageSession } from '../middleware/authMiddleware';
+import {
+  ClientToServerEvents,
+  InterServerEvents,
+  ServerToClientEvents,
+  SocketData
+} from './events';
+
+export type AttendanceSocketServer = SocketIOServer<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData
+>;
+
+type AttendanceSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+let io: AttendanceSocketServer | null = null;
+
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+/**
+ * Authenticate sockets and attach the session room protocol
+ */
+export function setupWebSocket(server: AttendanceSocketServer): void {
+  io = server;
+
+  // Created here rather than at module load: SessionService imports this module
+  const authService = new AuthService();
+  const sessionService = new SessionService();
+  const rssiSeriesService = new RssiSeriesService();
+
+  // Only a session's instructor and admins of its institution may watch it live
+  const authorizeSession = async (socket: AttendanceSocket, sessionId: string) => {
+    const session = await sessionService.getSession(sessionId);
+    assertCanManageSession(socket.data.user, session);
+  };
+
+  io.use((socket, next) => {
+    const token = socket.handshake.auth?.token;
+    if (typeof token !== 'string' || token.length === 0) {
+      return next(new Error('Authentication required'));
+    }
+
+    try {
+      socket.data.user = authService.verifyAccessToken(token);
+      next();
+    } catch {
+      next(new Error('Invalid or expired access token'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    logger.info(`WebSocket client connected: ${socket.id} (user ${socket.data.user.id})`);
+
+    socket.on('session:join', async (sessionId, ack) => {
+      try {
+        await authorizeSession(socket, sessionId);
+        await socket.join(sessionRoom(sessionId));
+        ack?.({ ok: true });
+      } catch (error) {
+        const message = error instanceof AppError ? error.message : 'Unable to join session';
+        if (!(error instanceof AppError)) {
+          logger.error(`Failed to join session ${sessionId}:`, error);
+        }
+        ack?.({ ok: false, error: message });
+      }
+    });
+
+    socket.on('session:leave', (sessionId) => {
+      socket.leave(sessionRoom(sessionId));
+    });
+
+    // Instructor app relays students found by its BLE scan
+    socket.on('student:discovered', async (input) => {
+      if (!socket.rooms.has(sessionRoom(input.sessionId))) {
+        return;
+      }
+
+      try {
+        await sessionService.addDetectedStudent(input.sessionId, input.studentId);
+        await rssiSeriesService.record(input.sessionId, input.studentId, [
+          { rssi: input.rssi, observedAt: input.discoveredAt }
+        ]);
+        emitToSession(input.sessionId, 'student:discovered', { ...input, reportedBy: socket.data.user.id });
+      } catch (error) {
+        logger.error(`Failed to record discovered student for session ${input.sessionId}:`, error);
+      }
+    });
+
+    socket.on('disconnect', () => {
+      logger.info(`WebSocket client disconnected: ${socket.id}`);
+    });
+  });
+}
+
+/**
+ * Broadcast an event to every client watching a session
+ */
+export function emitToSession<E extends keyof ServerToClientEvents>(
+  sessionId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+): void {
+  if (!io) {
+    logger.warn(`WebSocket not initialized, dropping ${event} for session ${sessionId}`);
+    return;
+  }
+  io.to(sessionRoom(sessionId)).emit(event, ...args);
+}
@@ -68,14 +68,15 @@ class ChallengeService {
         'additionalData': additionalData ?? {},
       };
 
-      // Create HMAC signature
+      // Create HMAC signature. The payload is sent as the exact string signed,
+      // so the server never has to re-encode it.
+      final signedPayload = jsonEncode(payload);
       final hmacKey = utf8.encode(_secretKey);
-      final payloadBytes = utf8.encode(jsonEncode(payload));
       final hmac = Hmac(sha256, hmacKey);
-      final digest = hmac.convert(payloadBytes);
+      final digest = hmac.convert(utf8.encode(signedPayload));
 
       final signedResponse = {
-        'payload': payload,
+        'payload': signedPayload,
         'signature': digest.toString(),
       };
 
@@ -99,12 +100,13 @@ class ChallengeService {
       final decodedBytes = base64Url.decode(signedResponse);
       final responseData = jsonDecode(utf8.decode(decodedBytes)) as Map<String, dynamic>;
       
-      final payload = responseData['payload'] as Map<String, dynamic>;
+      final signedPayload = responseData['payload'] as String;
+      final payload = jsonDecode(signedPayload) as Map<String, dynamic>;
       final signature = responseData['signature'] as String;
 
       // Verify signature
       final hmacKey = utf8.encode(_secretKey);
-      final payloadBytes = utf8.encode(jsonEncode(payload));
+      final payloadBytes = utf8.encode(signedPayload);
       final hmac = Hmac(sha256, hmacKey);
       final expectedDigest = hmac.convert(payloadBytes);
 